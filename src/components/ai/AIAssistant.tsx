@@ -24,9 +24,17 @@ import {
   ChevronLeft,
   ChevronRight,
   Trash2,
-  Edit3
+  Edit3,
+  Ban,
+  Info,
+  Square
 } from 'lucide-react';
-import { Database } from '@/lib/types';
+import { AIActionData, AIMessageMetadata, Database } from '@/lib/types';
+import { StructuredTable } from '@/lib/tableStructure';
+import { ActionOutcome, AIActionService } from '@/lib/aiActionService';
+import { AIService } from '@/lib/aiService';
+import ProposedChanges from './ProposedChanges';
+import ToolResults from './ToolResults';
 
 type AIMessage = Database['public']['Tables']['ai_messages']['Row'];
 type AIConversation = Database['public']['Tables']['ai_conversations']['Row'];
@@ -34,11 +42,13 @@ type AIAction = Database['public']['Tables']['ai_actions']['Row'];
 
 interface AIAssistantProps {
   documentId: string;
-  fileData: {
-    headers: string[];
-    rows: Array<Record<string, string>>;
-  };
-  onDataUpdate: (updatedData: any) => void;
+  // The table the assistant reads and edits. Only headers, rows and column
+  // types are sent to it; the row-aligned parts are kept in step when its
+  // changes are applied.
+  fileData: StructuredTable;
+  // Receives the table with the changes the user accepted applied, and a
+  // label for the edit history
+  onDataUpdate: (updatedData: StructuredTable, label: string) => void;
   className?: string;
 }
 
@@ -60,7 +70,16 @@ export default function AIAssistant({
   const [conversations, setConversations] = useState<AIConversation[]>([]);
   const [isChatMode, setIsChatMode] = useState(true); // Default to chat mode
   const [showConversations, setShowConversations] = useState(false);
+  const [applyingMessageId, setApplyingMessageId] = useState<string | null>(null);
+  // The reply as it streams in, and the tool the model is running
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
+  const [streamingTool, setStreamingTool] = useState<string | null>(null);
+  const stopController = useRef<AbortController | null>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  // Changes are applied to the table as it is when the user accepts them,
+  // not as it was when the message was sent
+  const latestFileData = useRef(fileData);
+  latestFileData.current = fileData;
 
   useEffect(() => {
     if (user && documentId) {
@@ -72,7 +91,7 @@ export default function AIAssistant({
     if (scrollAreaRef.current) {
       scrollAreaRef.current.scrollTop = scrollAreaRef.current.scrollHeight;
     }
-  }, [messages]);
+  }, [messages, streamingReply]);
 
   const loadConversations = async () => {
     if (!user) {
@@ -248,7 +267,12 @@ export default function AIAssistant({
         .order('created_at', { ascending: true });
 
       if (error) throw error;
-      setMessages(messagesData as ExtendedAIMessage[]);
+      // Actions of one reply share created_at; show them in the reply's order
+      const step = (action: AIAction) => (action.action_data as AIActionData | null)?.step ?? 0;
+      setMessages((messagesData as ExtendedAIMessage[]).map(message => ({
+        ...message,
+        actions: message.actions && [...message.actions].sort((a, b) => step(a) - step(b))
+      })));
     } catch (error) {
       console.error('Error loading messages:', error);
     }
@@ -291,30 +315,57 @@ export default function AIAssistant({
   };
 
   const processAIRequest = async (userMessage: string, conversationId: string) => {
+    const controller = new AbortController();
+    stopController.current = controller;
+    let streamed = '';
+    let calledTools = false;
+    setStreamingReply('');
+
     try {
-      // Call the Edge Function for AI processing
-      const { data: functionResponse, error: functionError } = await supabase.functions
-        .invoke('ai-assistant', {
-          body: {
-            conversationId,
-            message: userMessage,
-            fileData,
-            messageType: 'text',
-            chatMode: isChatMode
+      // The reply is shown as the Edge Function streams it
+      await AIService.streamAssistantReply(
+        {
+          conversationId,
+          message: userMessage,
+          fileData: { headers: fileData.headers, rows: fileData.rows, schema: fileData.schema },
+          chatMode: isChatMode
+        },
+        {
+          onText: text => {
+            streamed += text;
+            setStreamingReply(streamed);
+            setStreamingTool(null);
+          },
+          onTool: name => {
+            calledTools = true;
+            setStreamingTool(name);
           }
-        });
-
-      if (functionError) {
-        throw new Error(`AI service error: ${functionError.message}`);
-      }
-
-      if (!functionResponse.success) {
-        throw new Error(functionResponse.error || 'AI processing failed');
+        },
+        controller.signal
+      );
+
+      if (controller.signal.aborted) {
+        // The Edge Function stores the stopped reply once it notices the
+        // closed connection; show it as it was until messages are reloaded.
+        // Stopped before any text or tool call, there is no reply.
+        if (streamed.trim() || calledTools) {
+          const stoppedMessage: ExtendedAIMessage = {
+            id: `temp-${Date.now()}`,
+            conversation_id: conversationId,
+            role: 'assistant',
+            content: streamed.trim(),
+            message_type: 'text',
+            metadata: { stopped: true },
+            created_at: new Date().toISOString()
+          };
+          setMessages(prev => [...prev, stoppedMessage]);
+        }
+      } else {
+        // The Edge Function already stores the messages and any proposed
+        // changes, so we just need to reload them
+        await loadMessages(conversationId);
       }
 
-      // The Edge Function already stores the messages, so we just need to reload them
-      await loadMessages(conversationId);
-      
       // Refresh conversations list to get updated titles
       await refreshConversations();
 
@@ -336,10 +387,65 @@ export default function AIAssistant({
       if (errorMessage) {
         setMessages(prev => [...prev, errorMessage as ExtendedAIMessage]);
       }
+    } finally {
+      stopController.current = null;
+      setStreamingReply(null);
+      setStreamingTool(null);
     }
   };
 
+  // Stops the reply being generated; what was generated so far is kept
+  const stopGenerating = () => {
+    stopController.current?.abort();
+  };
+
+
+
+  const recordOutcomes = async (message: ExtendedAIMessage, outcomes: ActionOutcome[]) => {
+    try {
+      await AIActionService.recordOutcomes(outcomes);
+    } catch (error) {
+      console.error('Error recording AI action results:', error);
+    }
+    await loadMessages(message.conversation_id);
+  };
+
+  // Apply the changes of a reply the user accepted; the rest of its pending
+  // changes are rejected
+  const applyActions = async (message: ExtendedAIMessage, accepted: AIAction[]) => {
+    setApplyingMessageId(message.id);
+    const pending = (message.actions || []).filter(action => AIActionService.isPending(action));
+    const { table, outcomes } = AIActionService.applyActions(latestFileData.current, accepted);
+    const applied = outcomes.filter(outcome => outcome.status === 'completed');
+    const failed = outcomes.length - applied.length;
+
+    if (applied.length > 0) {
+      const description = applied.length === 1
+        ? (pending.find(action => action.id === applied[0].actionId)?.action_data as AIActionData).description
+        : `${applied.length} changes`;
+      onDataUpdate(table, `AI assistant: ${description}`);
+    }
+    if (failed > 0) {
+      toast({
+        title: "Some changes were not applied",
+        description: `${failed} of ${outcomes.length} changes from the assistant could not be applied`,
+        variant: "destructive"
+      });
+    }
+
+    const rejected = pending
+      .filter(action => !accepted.includes(action))
+      .map((action): ActionOutcome => ({ actionId: action.id, status: 'rejected' }));
+    await recordOutcomes(message, [...outcomes, ...rejected]);
+    setApplyingMessageId(null);
+  };
 
+  const rejectActions = async (message: ExtendedAIMessage) => {
+    const pending = (message.actions || []).filter(action => AIActionService.isPending(action));
+    setApplyingMessageId(message.id);
+    await recordOutcomes(message, pending.map(action => ({ actionId: action.id, status: 'rejected' })));
+    setApplyingMessageId(null);
+  };
 
   const getMessageIcon = (message: ExtendedAIMessage) => {
     if (message.role === 'user') return <User className="h-4 w-4" />;
@@ -356,6 +462,14 @@ export default function AIAssistant({
     }
   };
 
+  // Said under replies to large tables, where the model saw only some rows
+  const getSubsetNote = (metadata: AIMessageMetadata | null) => {
+    const context = metadata?.context;
+    if (!context || context.includedRows >= context.totalRows) return null;
+    const matched = context.matchedRows > 0 ? `, including ${context.matchedRows} matching your question` : '';
+    return `Based on ${context.includedRows} of ${context.totalRows} rows${matched}. Calculations cover every row.`;
+  };
+
   const getMessageTypeLabel = (type: string) => {
     switch (type) {
       case 'action': return 'Action';
@@ -536,16 +650,48 @@ export default function AIAssistant({
                   <div className="text-sm whitespace-pre-wrap">
                     {message.content}
                   </div>
+
+                  {message.role === 'assistant' && message.metadata && (
+                    <ToolResults metadata={message.metadata as AIMessageMetadata} table={fileData} />
+                  )}
+
+                  {message.role === 'assistant' && (message.metadata as AIMessageMetadata | null)?.stopped && (
+                    <p className="mt-2 flex items-center gap-1 text-xs text-muted-foreground">
+                      <Square className="h-3 w-3" />
+                      Stopped
+                    </p>
+                  )}
+
+                  {message.role === 'assistant' && getSubsetNote(message.metadata as AIMessageMetadata | null) && (
+                    <p className="mt-2 flex items-start gap-1 text-xs text-muted-foreground">
+                      <Info className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                      {getSubsetNote(message.metadata as AIMessageMetadata | null)}
+                    </p>
+                  )}
                   
-                  {/* Show actions if any */}
-                  {message.actions && message.actions.length > 0 && (
+                  {/* Proposed changes wait for the user; others show how they went */}
+                  {message.actions?.some(action => AIActionService.isPending(action)) ? (
+                    <ProposedChanges
+                      actions={message.actions.filter(action => AIActionService.isPending(action))}
+                      table={fileData}
+                      isApplying={applyingMessageId === message.id}
+                      onApply={accepted => applyActions(message, accepted)}
+                      onReject={() => rejectActions(message)}
+                    />
+                  ) : message.actions && message.actions.length > 0 && (
                     <div className="mt-2 space-y-1">
                       {message.actions.map((action) => (
-                        <div key={action.id} className="flex items-center gap-2 text-xs">
-                          {action.status === 'completed' && <CheckCircle className="h-3 w-3 text-green-500" />}
-                          {action.status === 'failed' && <XCircle className="h-3 w-3 text-red-500" />}
-                          {action.status === 'pending' && <Clock className="h-3 w-3 text-yellow-500" />}
-                          <span>{action.action_type.replace('_', ' ')}</span>
+                        <div key={action.id} className="text-xs">
+                          <div className="flex items-center gap-2">
+                            {action.status === 'completed' && <CheckCircle className="h-3 w-3 text-green-500" />}
+                            {action.status === 'failed' && <XCircle className="h-3 w-3 text-red-500" />}
+                            {action.status === 'pending' && <Clock className="h-3 w-3 text-yellow-500" />}
+                            {action.status === 'rejected' && <Ban className="h-3 w-3 text-muted-foreground" />}
+                            <span className={action.status === 'rejected' ? 'text-muted-foreground line-through' : ''}>{(action.action_data as AIActionData)?.description || action.action_type.replace('_', ' ')}</span>
+                          </div>
+                          {action.error_message && (
+                            <p className="ml-5 text-red-600">{action.error_message}</p>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -557,10 +703,23 @@ export default function AIAssistant({
             {isLoading && (
               <div className="flex justify-start">
                 <div className="bg-muted rounded-lg p-3 max-w-[80%]">
-                  <div className="flex items-center gap-2">
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                    <span className="text-sm">AI is thinking...</span>
-                  </div>
+                  {streamingReply && (
+                    <>
+                      <div className="flex items-center gap-2 mb-1">
+                        <Bot className="h-4 w-4 text-primary" />
+                        <span className="text-xs font-medium">AI Assistant</span>
+                      </div>
+                      <div className="text-sm whitespace-pre-wrap mb-1">{streamingReply}</div>
+                    </>
+                  )}
+                  {(!streamingReply || streamingTool) && (
+                    <div className="flex items-center gap-2">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      <span className="text-sm">
+                        {streamingTool ? `Running ${streamingTool.replace(/_/g, ' ')}...` : 'AI is thinking...'}
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -582,13 +741,25 @@ export default function AIAssistant({
               }}
               disabled={isLoading}
             />
-            <Button 
-              onClick={sendMessage} 
-              disabled={!inputValue.trim() || isLoading}
-              size="icon"
-            >
-              <Send className="h-4 w-4" />
-            </Button>
+            {isLoading ? (
+              <Button
+                onClick={stopGenerating}
+                disabled={streamingReply === null}
+                variant="outline"
+                size="icon"
+                title="Stop generating"
+              >
+                <Square className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button 
+                onClick={sendMessage} 
+                disabled={!inputValue.trim()}
+                size="icon"
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+            )}
           </div>
           
           {/* Quick Actions */}
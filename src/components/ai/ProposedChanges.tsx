@@ -0,0 +1,139 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { AIActionData, Database } from '@/lib/types';
+import { StructuredTable } from '@/lib/tableStructure';
+import { diffTable } from '@/lib/tableDiff';
+import { AIActionService } from '@/lib/aiActionService';
+import TableDiffView from '@/components/dashboard/TableDiffView';
+import { Check, Loader2, X } from 'lucide-react';
+
+type AIAction = Database['public']['Tables']['ai_actions']['Row'];
+
+interface ProposedChangesProps {
+  // Pending actions of one reply, in the reply's order
+  actions: AIAction[];
+  // The table as it is now; the preview is recomputed when it changes
+  table: StructuredTable;
+  isApplying: boolean;
+  onApply: (actions: AIAction[]) => void;
+  onReject: () => void;
+}
+
+// The changes an assistant reply proposes, with a preview of what the
+// selected ones would do to the table. Nothing changes until the user
+// applies them.
+export default function ProposedChanges({ actions, table, isApplying, onApply, onReject }: ProposedChangesProps) {
+  const [selectedIds, setSelectedIds] = useState(() => new Set(actions.map(action => action.id)));
+  const prerequisites = useMemo(() => AIActionService.getPrerequisites(actions), [actions]);
+
+  // The first earlier delete or sort an action depends on that is not selected
+  const getMissingPrerequisite = (id: string) => {
+    const missing = prerequisites.get(id)?.find(other => !selectedIds.has(other));
+    return missing ? actions.find(action => action.id === missing) : undefined;
+  };
+
+  const selected = useMemo(
+    () => actions.filter(action => selectedIds.has(action.id)),
+    [actions, selectedIds]
+  );
+
+  const preview = useMemo(() => {
+    const { table: after, outcomes } = AIActionService.applyActions(table, selected);
+    return { diff: diffTable('', table, after), outcomes };
+  }, [table, selected]);
+
+  // Leaving out a delete or sort also leaves out the later actions whose row
+  // numbers depend on it
+  const toggle = (id: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+        prerequisites.forEach((required, dependent) => {
+          if (required.includes(id)) next.delete(dependent);
+        });
+      }
+      return next;
+    });
+  };
+
+  const { diff } = preview;
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="space-y-1">
+        {actions.map(action => {
+          const outcome = preview.outcomes.find(item => item.actionId === action.id);
+          const missing = getMissingPrerequisite(action.id);
+          return (
+            <div key={action.id} className="text-xs">
+              <label className={`flex items-center gap-2 ${missing ? 'text-muted-foreground' : 'cursor-pointer'}`}>
+                {actions.length > 1 && (
+                  <Checkbox
+                    checked={selectedIds.has(action.id)}
+                    onCheckedChange={checked => toggle(action.id, checked === true)}
+                    disabled={isApplying || !!missing}
+                  />
+                )}
+                <span>{(action.action_data as AIActionData).description}</span>
+              </label>
+              {missing && (
+                <p className="text-muted-foreground ml-6">
+                  Its row numbers count from after "{(missing.action_data as AIActionData).description}"; select that first
+                </p>
+              )}
+              {outcome?.status === 'failed' && (
+                <p className={`text-red-600 ${actions.length > 1 ? 'ml-6' : ''}`}>Cannot be applied: {outcome.error}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {selected.length > 0 && (
+        <>
+          <div className="flex flex-wrap gap-1">
+            <Badge variant="secondary" className="text-xs">{diff.changedCells} changed cells</Badge>
+            {diff.addedRows > 0 && <Badge variant="secondary" className="text-xs text-green-700">{diff.addedRows} added rows</Badge>}
+            {diff.removedRows > 0 && <Badge variant="secondary" className="text-xs text-red-600">{diff.removedRows} removed rows</Badge>}
+            {diff.addedColumns.length > 0 && (
+              <Badge variant="secondary" className="text-xs text-green-700">+ {diff.addedColumns.join(', ')}</Badge>
+            )}
+            {diff.removedColumns.length > 0 && (
+              <Badge variant="secondary" className="text-xs text-red-600">− {diff.removedColumns.join(', ')}</Badge>
+            )}
+          </div>
+          <div className="max-h-64 overflow-auto rounded-md border bg-background text-xs">
+            <TableDiffView table={diff} onlyDifferences />
+          </div>
+        </>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" className="h-7 text-xs" onClick={() => onApply(actions)} disabled={isApplying}>
+          {isApplying ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Check className="h-3 w-3 mr-1" />}
+          {actions.length > 1 ? 'Apply all' : 'Apply'}
+        </Button>
+        {actions.length > 1 && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 text-xs"
+            onClick={() => onApply(selected)}
+            disabled={isApplying || selected.length === 0 || selected.length === actions.length}
+          >
+            Apply selected ({selected.length})
+          </Button>
+        )}
+        <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={onReject} disabled={isApplying}>
+          <X className="h-3 w-3 mr-1" />
+          Reject
+        </Button>
+      </div>
+    </div>
+  );
+}
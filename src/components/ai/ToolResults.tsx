@@ -0,0 +1,118 @@
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { toast } from '@/hooks/use-toast';
+import { AIChart, AIExport, AIMessageMetadata } from '@/lib/types';
+import { getExportRows } from '@/lib/aiExports';
+import { StructuredTable } from '@/lib/tableStructure';
+import { CSVService } from '@/lib/csvService';
+import { ExcelService } from '@/lib/excelService';
+import { ChevronDown, Download, Wrench } from 'lucide-react';
+
+// Slice colours of pie charts, in turn
+const PIE_COLORS = ['#2563eb', '#16a34a', '#f59e0b', '#dc2626', '#7c3aed', '#0891b2', '#db2777', '#65a30d'];
+
+function ChartView({ chart }: { chart: AIChart }) {
+  const config: ChartConfig = { value: { label: chart.valueLabel, color: 'hsl(var(--primary))' } };
+
+  return (
+    <div className="rounded-md border bg-background p-2">
+      <p className="text-xs font-medium mb-1">{chart.title}</p>
+      <ChartContainer config={config} className="aspect-auto h-48 w-full">
+        {chart.type === 'pie' ? (
+          <PieChart>
+            <ChartTooltip content={<ChartTooltipContent nameKey="label" />} />
+            <Pie data={chart.points} dataKey="value" nameKey="label" outerRadius={70}>
+              {chart.points.map((point, index) => (
+                <Cell key={point.label} fill={PIE_COLORS[index % PIE_COLORS.length]} />
+              ))}
+            </Pie>
+          </PieChart>
+        ) : chart.type === 'line' ? (
+          <LineChart data={chart.points}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} />
+            <YAxis tickLine={false} width={48} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Line dataKey="value" stroke="var(--color-value)" dot={false} />
+          </LineChart>
+        ) : (
+          <BarChart data={chart.points}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} />
+            <YAxis tickLine={false} width={48} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="value" fill="var(--color-value)" radius={2} />
+          </BarChart>
+        )}
+      </ChartContainer>
+    </div>
+  );
+}
+
+// The file is built from the table as it is now
+function downloadExport(file: AIExport, table: StructuredTable) {
+  try {
+    const rows = getExportRows(file, table);
+    if (rows.length === 0) throw new Error('No rows meet the conditions any more');
+    if (file.format === 'xlsx') {
+      ExcelService.generateExcelFile(rows, { fileName: file.filename });
+    } else {
+      CSVService.generateCSVFile(rows, file.filename);
+    }
+  } catch (error) {
+    toast({
+      title: "Download Error",
+      description: error instanceof Error ? error.message : 'The file could not be created',
+      variant: "destructive"
+    });
+  }
+}
+
+// What the assistant's tools produced for a reply: charts, files to
+// download from `table`, and the calculations behind the answer
+export default function ToolResults({ metadata, table }: { metadata: AIMessageMetadata; table: StructuredTable }) {
+  const { charts = [], exports = [], toolCalls = [] } = metadata;
+  if (charts.length + exports.length + toolCalls.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-2">
+      {charts.map((chart, index) => <ChartView key={index} chart={chart} />)}
+
+      {exports.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {exports.map((file, index) => (
+            <Button key={index} size="sm" variant="outline" className="h-7 text-xs" onClick={() => downloadExport(file, table)}>
+              <Download className="h-3 w-3 mr-1" />
+              {file.filename} ({file.rowCount ?? file.rows?.length} rows)
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {toolCalls.length > 0 && (
+        <Collapsible>
+          <CollapsibleTrigger className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+            <Wrench className="h-3 w-3" />
+            {toolCalls.length} calculation{toolCalls.length === 1 ? '' : 's'}
+            <ChevronDown className="h-3 w-3" />
+          </CollapsibleTrigger>
+          <CollapsibleContent className="mt-1 space-y-1">
+            {toolCalls.map((call, index) => (
+              <div key={index} className="rounded-md border bg-background p-2 text-xs">
+                <p className="font-mono font-medium">{call.name}</p>
+                <pre className="whitespace-pre-wrap break-all text-muted-foreground">{JSON.stringify(call.input)}</pre>
+                {call.error ? (
+                  <p className="text-red-600">{call.error}</p>
+                ) : (
+                  <pre className="max-h-32 overflow-auto whitespace-pre-wrap break-all">{JSON.stringify(call.result, null, 1)}</pre>
+                )}
+              </div>
+            ))}
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+    </div>
+  );
+}
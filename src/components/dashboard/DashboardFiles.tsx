@@ -7,33 +7,42 @@ import {
   Edit2,
   Trash2,
   Eye,
-  Sparkles
+  Sparkles,
+  RefreshCw,
+  AlertTriangle
 } from 'lucide-react';
+import { DocumentType, ExtractedDataContent } from '@/lib/types';
+import { describePages, getTotalRows } from '@/lib/extractedData';
+import { ExcelService } from '@/lib/excelService';
 
 interface ExtractedData {
   id: string;
   document_id: string;
-  data: {
-    headers: string[];
-    rows: Array<Record<string, string>>;
-  };
+  data: ExtractedDataContent;
   confidence: number;
   is_edited: boolean;
+  // PDF pages the extraction got no rows from
+  failed_pages: number[];
   created_at: string;
   updated_at: string;
   document?: {
     filename: string;
+    file_type: string | null;
+    languages: string[] | null;
+    document_type: DocumentType | null;
   };
 }
 
 interface DashboardFilesProps {
   extractedDataList: ExtractedData[];
   onDeleteFile: (id: string) => void;
+  onReextractFile: (file: ExtractedData) => void;
 }
 
 export default function DashboardFiles({ 
   extractedDataList, 
-  onDeleteFile
+  onDeleteFile,
+  onReextractFile
 }: DashboardFilesProps) {
   const navigate = useNavigate();
 
@@ -66,7 +75,7 @@ export default function DashboardFiles({
                       </h3>
                       <div className="flex items-center gap-4 mt-1">
                         <p className="text-sm text-muted-foreground">
-                          {item.data.rows?.length || 0} रिकॉर्ड्स / records
+                          {getTotalRows(item.data)} रिकॉर्ड्स / records
                         </p>
                         <p className="text-sm text-muted-foreground">
                           {new Date(item.created_at).toLocaleDateString('hi-IN')}
@@ -86,6 +95,16 @@ export default function DashboardFiles({
                           संपादित / Edited
                         </Badge>
                       )}
+                      {item.failed_pages?.length > 0 && (
+                        <Badge
+                          variant="outline"
+                          className="text-xs border-amber-300 text-amber-700"
+                          title={`No rows were read from ${describePages(item.failed_pages)}`}
+                        >
+                          <AlertTriangle className="h-2 w-2 mr-1" />
+                          {item.failed_pages.length} पेज नहीं पढ़े गए / {item.failed_pages.length === 1 ? 'page' : 'pages'} not read
+                        </Badge>
+                      )}
                     </div>
                     
                     <div className="flex items-center gap-2">
@@ -105,6 +124,16 @@ export default function DashboardFiles({
                       >
                         <Sparkles className="h-4 w-4" />
                       </Button>
+                      {item.document && !ExcelService.isExcelFile(item.document.filename, item.document.file_type) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => onReextractFile(item)}
+                          title="दोबारा निकालें / Re-extract"
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                        </Button>
+                      )}
                       <Button
                         size="sm"
                         variant="outline"
@@ -3,22 +3,35 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
 import { 
   Upload, 
   FileText, 
   CheckCircle,
   AlertCircle,
   Edit2,
-  Loader2
+  Loader2,
+  Clock,
+  RotateCcw,
+  X
 } from 'lucide-react';
+import { DocumentType, ExtractedDataContent } from '@/lib/types';
+import { getTotalRows } from '@/lib/extractedData';
+import { OCR_LANGUAGES } from '@/lib/languages';
+import { DOCUMENT_TYPES } from '@/lib/documentTypes';
+import { QueuedJob } from '@/lib/jobQueueService';
 
 interface ExtractedData {
   id: string;
   document_id: string;
-  data: {
-    headers: string[];
-    rows: Array<Record<string, string>>;
-  };
+  data: ExtractedDataContent;
   confidence: number;
   is_edited: boolean;
   created_at: string;
@@ -33,13 +46,37 @@ interface DashboardHomeProps {
   isProcessing: boolean;
   processingProgress: number;
   onFileUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  // Language of the documents being uploaded
+  language: string;
+  onLanguageChange: (language: string) => void;
+  // Kind of the documents being uploaded
+  documentType: DocumentType;
+  onDocumentTypeChange: (documentType: DocumentType) => void;
+  queuedJobs: QueuedJob[];
+  onCancelJob: (job: QueuedJob) => void;
+  onRetryJob: (job: QueuedJob) => void;
 }
 
+const JOB_STATUS_LABELS: Record<QueuedJob['status'], string> = {
+  pending: 'कतार में / Queued',
+  processing: 'प्रोसेसिंग / Processing',
+  completed: 'पूर्ण / Completed',
+  dead: 'असफल / Failed',
+  cancelled: 'रद्द / Cancelled'
+};
+
 export default function DashboardHome({ 
   extractedDataList, 
   isProcessing, 
   processingProgress, 
-  onFileUpload
+  onFileUpload,
+  language,
+  onLanguageChange,
+  documentType,
+  onDocumentTypeChange,
+  queuedJobs,
+  onCancelJob,
+  onRetryJob
 }: DashboardHomeProps) {
   const navigate = useNavigate();
 
@@ -48,7 +85,7 @@ export default function DashboardHome({
   };
   // Calculate stats
   const totalFiles = extractedDataList.length;
-  const totalRecords = extractedDataList.reduce((sum, item) => sum + (item.data.rows?.length || 0), 0);
+  const totalRecords = extractedDataList.reduce((sum, item) => sum + getTotalRows(item.data), 0);
   const averageAccuracy = totalFiles > 0 
     ? Math.round(extractedDataList.reduce((sum, item) => sum + item.confidence, 0) / totalFiles)
     : 0;
@@ -74,6 +111,42 @@ export default function DashboardHome({
             <Upload className="h-12 w-12 mx-auto text-primary mb-4" />
             <h3 className="text-lg font-semibold mb-2">तस्वीरें, PDF या Excel फाइलें यहाँ छोड़ें / Drop Images, PDFs or Excel Files Here</h3>
             <p className="text-muted-foreground mb-4">या क्लिक करके चुनें / or click to select</p>
+            <div className="flex flex-wrap items-center justify-center gap-2 mb-4">
+              <Label htmlFor="document-type" className="text-sm text-muted-foreground">
+                दस्तावेज़ / Document
+              </Label>
+              <Select
+                value={documentType}
+                onValueChange={value => onDocumentTypeChange(value as DocumentType)}
+                disabled={isProcessing}
+              >
+                <SelectTrigger id="document-type" className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DOCUMENT_TYPES.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Label htmlFor="document-language" className="text-sm text-muted-foreground ml-2">
+                रजिस्टर की भाषा / Register language
+              </Label>
+              <Select value={language} onValueChange={onLanguageChange} disabled={isProcessing}>
+                <SelectTrigger id="document-language" className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OCR_LANGUAGES.map(option => (
+                    <SelectItem key={option.code} value={option.code}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <input
               type="file"
               multiple
@@ -116,6 +189,70 @@ export default function DashboardHome({
         </CardContent>
       </Card>
 
+      {/* Processing Queue */}
+      {queuedJobs.length > 0 && (
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              प्रोसेसिंग कतार / Processing Queue
+            </CardTitle>
+            <CardDescription>
+              फाइलें पृष्ठभूमि में प्रोसेस होती हैं / Files are processed in the background and retried automatically
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {queuedJobs.map(job => {
+                const isRetrying = job.status === 'pending' && job.attempts > 0;
+                return (
+                  <div key={job.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+                    <div className="min-w-0 flex-1">
+                      <p className="font-medium truncate">
+                        {job.document?.filename || 'Unnamed'}
+                        {job.job_type === 'reextract' && (
+                          <span className="ml-2 text-xs font-normal text-muted-foreground">दोबारा / Re-extract</span>
+                        )}
+                      </p>
+                      {job.status === 'processing' && (
+                        <Progress value={job.progress} className="h-1.5 mt-2" />
+                      )}
+                      {isRetrying && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          प्रयास / Attempt {job.attempts} of {job.max_attempts} failed • retrying at {new Date(job.run_after).toLocaleTimeString('hi-IN')}
+                        </p>
+                      )}
+                      {(job.status === 'dead' || isRetrying) && job.error_message && (
+                        <p className="text-xs text-destructive mt-1 truncate" title={job.error_message}>
+                          {job.error_message}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant={job.status === 'dead' ? "destructive" : "secondary"} className="text-xs">
+                        {job.status === 'processing' && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                        {JOB_STATUS_LABELS[job.status]}
+                      </Badge>
+                      {(job.status === 'pending' || job.status === 'processing') && (
+                        <Button size="sm" variant="ghost" onClick={() => onCancelJob(job)} title="रद्द करें / Cancel">
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {(job.status === 'dead' || job.status === 'cancelled') && (
+                        <Button size="sm" variant="outline" onClick={() => onRetryJob(job)}>
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          दोबारा / Retry
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Stats Cards */}
       {totalFiles > 0 && (
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -183,7 +320,7 @@ export default function DashboardHome({
                         {item.document?.filename || 'Unnamed'}
                       </p>
                       <p className="text-xs text-muted-foreground">
-                        {item.data.rows?.length || 0} रिकॉर्ड्स / records • {new Date(item.created_at).toLocaleDateString('hi-IN')}
+                        {getTotalRows(item.data)} रिकॉर्ड्स / records • {new Date(item.created_at).toLocaleDateString('hi-IN')}
                       </p>
                     </div>
                   </div>
@@ -0,0 +1,86 @@
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { ProcessedDocument } from '@/lib/fileHashService';
+import { Copy, ExternalLink } from 'lucide-react';
+
+export interface DuplicateFile {
+  file: File;
+  existing: ProcessedDocument;
+}
+
+interface DuplicateFilesDialogProps {
+  duplicates: DuplicateFile[];
+  // Files in the selection that were not seen before
+  newFileCount: number;
+  onCancel: () => void;
+  onSkipDuplicates: () => void;
+  onUploadAll: () => void;
+}
+
+// Warns before uploading files whose content was already processed, with a
+// link to the existing data
+export default function DuplicateFilesDialog({
+  duplicates,
+  newFileCount,
+  onCancel,
+  onSkipDuplicates,
+  onUploadAll
+}: DuplicateFilesDialogProps) {
+  return (
+    <Dialog open onOpenChange={open => { if (!open) onCancel(); }}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>पहले से प्रोसेस की गई फाइलें / Already processed</DialogTitle>
+          <DialogDescription>
+            {duplicates.length === 1 ? 'This file was' : 'These files were'} uploaded before. Open the existing data instead of processing {duplicates.length === 1 ? 'it' : 'them'} again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+          {duplicates.map(({ file, existing }, index) => (
+            <div key={`${file.name}-${index}`} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+              <div className="flex items-center gap-3 min-w-0">
+                <Copy className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{file.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {existing.filename !== file.name && `As ${existing.filename}, `}
+                    processed on {new Date(existing.createdAt).toLocaleDateString('hi-IN')}
+                  </p>
+                </div>
+              </div>
+              <Button asChild size="sm" variant="outline">
+                <Link to={`/files/${existing.extractedDataId}`}>
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  खोलें / Open
+                </Link>
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            रद्द करें / Cancel
+          </Button>
+          {newFileCount > 0 && (
+            <Button variant="outline" onClick={onSkipDuplicates}>
+              Upload {newFileCount} new {newFileCount === 1 ? 'file' : 'files'} only
+            </Button>
+          )}
+          <Button onClick={onUploadAll}>
+            फिर भी अपलोड करें / Upload anyway
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
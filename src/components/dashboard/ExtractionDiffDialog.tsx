@@ -0,0 +1,125 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { ExtractedTable } from '@/lib/types';
+import { diffExtractions } from '@/lib/tableDiff';
+import TableDiffView from '@/components/dashboard/TableDiffView';
+import { Loader2 } from 'lucide-react';
+
+interface ExtractionDiffDialogProps {
+  current: ExtractedTable[];
+  candidate: ExtractedTable[];
+  // The current data has manual edits that the new extraction would replace
+  currentEdited: boolean;
+  onClose: () => void;
+  onKeepCurrent: () => Promise<void>;
+  onUseCandidate: () => Promise<void>;
+}
+
+// Side-by-side comparison of the current extraction and a re-extraction,
+// cell by cell, with the choice of which one to keep
+export default function ExtractionDiffDialog({
+  current,
+  candidate,
+  currentEdited,
+  onClose,
+  onKeepCurrent,
+  onUseCandidate
+}: ExtractionDiffDialogProps) {
+  const diff = useMemo(() => diffExtractions(current, candidate), [current, candidate]);
+  const [tableIndex, setTableIndex] = useState(0);
+  const [onlyDifferences, setOnlyDifferences] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const table = diff.tables[tableIndex] || diff.tables[0];
+  const hasChanges = diff.changedCells + diff.addedRows + diff.removedRows > 0 ||
+    diff.tables.some(item => item.status !== 'same');
+
+  const choose = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await action();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={open => { if (!open && !isSaving) onClose(); }}>
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>Compare extractions</DialogTitle>
+          <DialogDescription>
+            {hasChanges
+              ? 'Struck-through values are the current data; the new extraction reads the values below them.'
+              : 'The new extraction reads the same values as the current data.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="secondary">{diff.changedCells} changed cells</Badge>
+          <Badge variant="secondary" className="text-green-700">{diff.addedRows} new rows</Badge>
+          <Badge variant="secondary" className="text-red-600">{diff.removedRows} missing rows</Badge>
+          {table.addedColumns.length > 0 && (
+            <Badge variant="outline">New columns: {table.addedColumns.join(', ')}</Badge>
+          )}
+          {table.removedColumns.length > 0 && (
+            <Badge variant="outline">Missing columns: {table.removedColumns.join(', ')}</Badge>
+          )}
+          <div className="flex items-center gap-2 ml-auto">
+            <Switch id="only-differences" checked={onlyDifferences} onCheckedChange={setOnlyDifferences} />
+            <Label htmlFor="only-differences">Only differences</Label>
+          </div>
+        </div>
+
+        {diff.tables.length > 1 && (
+          <Tabs value={String(tableIndex)} onValueChange={value => setTableIndex(Number(value))}>
+            <TabsList className="h-auto flex-wrap justify-start">
+              {diff.tables.map((item, index) => (
+                <TabsTrigger key={index} value={String(index)} className="gap-2">
+                  {item.name}
+                  {item.status !== 'same' && (
+                    <span className="text-xs text-muted-foreground">
+                      {item.status === 'changed' ? item.changedCells + item.addedRows + item.removedRows : item.status}
+                    </span>
+                  )}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        )}
+
+        <ScrollArea className="h-[55vh] border rounded-md">
+          <TableDiffView table={table} onlyDifferences={onlyDifferences} />
+        </ScrollArea>
+
+        <DialogFooter className="items-center">
+          {currentEdited && (
+            <p className="text-sm text-amber-600 mr-auto">
+              Your edits stay with the current version and are not carried over.
+            </p>
+          )}
+          <Button variant="outline" onClick={() => choose(onKeepCurrent)} disabled={isSaving}>
+            Keep current
+          </Button>
+          <Button onClick={() => choose(onUseCandidate)} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Use new extraction
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,249 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import { CropRect, ImageService, PreprocessOptions } from '@/lib/imageService';
+import {
+  RotateCcw,
+  RotateCw,
+  Crop,
+  Loader2
+} from 'lucide-react';
+
+// Longest side of the editor preview
+const PREVIEW_DIMENSION = 900;
+
+interface ImagePreprocessDialogProps {
+  files: File[];
+  onCancel: () => void;
+  onConfirm: (options: Map<File, PreprocessOptions>) => void;
+}
+
+// Lets the user correct rotation and the page crop of each photo before
+// upload. Untouched files keep the automatic settings.
+export default function ImagePreprocessDialog({
+  files,
+  onCancel,
+  onConfirm
+}: ImagePreprocessDialogProps) {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [options, setOptions] = useState<Map<File, PreprocessOptions>>(new Map());
+  const [autoCrop, setAutoCrop] = useState<CropRect | null>(null);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [dragRect, setDragRect] = useState<CropRect | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const selectedFile = files[selectedIndex];
+  const selectedOptions = (selectedFile && options.get(selectedFile)) || {};
+  const rotation = selectedOptions.rotation || 0;
+
+  const thumbnails = useMemo(() => files.map(file => URL.createObjectURL(file)), [files]);
+  useEffect(() => () => thumbnails.forEach(url => URL.revokeObjectURL(url)), [thumbnails]);
+
+  // Draw the oriented, rotated preview and detect the page on it
+  useEffect(() => {
+    if (!selectedFile || !canvasRef.current) return;
+
+    let cancelled = false;
+    setIsLoadingPreview(true);
+
+    ImageService.loadOriented(selectedFile)
+      .then(bitmap => {
+        if (cancelled || !canvasRef.current) return;
+        const preview = ImageService.renderRotated(bitmap, rotation, PREVIEW_DIMENSION);
+        bitmap.close();
+
+        const canvas = canvasRef.current;
+        canvas.width = preview.width;
+        canvas.height = preview.height;
+        canvas.getContext('2d')?.drawImage(preview, 0, 0);
+        setAutoCrop(ImageService.detectPageCrop(preview));
+      })
+      .catch(error => {
+        console.error('Error loading preview:', error);
+        setAutoCrop(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingPreview(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedFile, rotation]);
+
+  const updateOptions = (changes: PreprocessOptions) => {
+    if (!selectedFile) return;
+    setOptions(prev => new Map(prev).set(selectedFile, { ...prev.get(selectedFile), ...changes }));
+  };
+
+  // The crop is measured on the rotated image, so a new rotation starts from auto-detection again
+  const rotate = (degrees: number) => {
+    updateOptions({ rotation: (rotation + degrees + 360) % 360, crop: undefined });
+  };
+
+  const toFraction = (event: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - bounds.left) / bounds.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - bounds.top) / bounds.height))
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragStart(toFraction(event));
+    setDragRect(null);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    const point = toFraction(event);
+    setDragRect({
+      x: Math.min(dragStart.x, point.x),
+      y: Math.min(dragStart.y, point.y),
+      width: Math.abs(point.x - dragStart.x),
+      height: Math.abs(point.y - dragStart.y)
+    });
+  };
+
+  const handlePointerUp = () => {
+    // Ignore clicks and tiny drags
+    if (dragRect && dragRect.width > 0.05 && dragRect.height > 0.05) {
+      updateOptions({ crop: dragRect });
+    }
+    setDragStart(null);
+    setDragRect(null);
+  };
+
+  // undefined = automatic, null = whole image
+  const shownCrop = dragRect || (selectedOptions.crop === undefined ? autoCrop : selectedOptions.crop);
+
+  return (
+    <Dialog open onOpenChange={open => { if (!open) onCancel(); }}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>छवि सुधारें / Adjust images</DialogTitle>
+          <DialogDescription>
+            Photos are straightened, cropped to the page and cleaned up automatically. Rotate or drag a new crop box
+            where the automatic result is wrong. The original is always kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-4 min-h-[420px]">
+          {files.length > 1 && (
+            <div className="w-28 shrink-0 space-y-2 overflow-y-auto max-h-[60vh] pr-1">
+              {files.map((file, index) => (
+                <button
+                  key={`${file.name}-${index}`}
+                  type="button"
+                  onClick={() => setSelectedIndex(index)}
+                  className={cn(
+                    "block w-full rounded border-2 overflow-hidden",
+                    index === selectedIndex ? "border-primary" : "border-transparent hover:border-muted-foreground/40"
+                  )}
+                  title={file.name}
+                >
+                  <img src={thumbnails[index]} alt={file.name} className="w-full h-20 object-cover" />
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex-1 flex flex-col gap-3 min-w-0">
+            <div className="flex-1 flex items-center justify-center bg-muted/40 rounded-lg p-2">
+              <div
+                className="relative inline-block cursor-crosshair touch-none select-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+              >
+                <canvas ref={canvasRef} className="block max-w-full max-h-[55vh] w-auto h-auto" />
+                {shownCrop && !isLoadingPreview && (
+                  <div
+                    className={cn(
+                      "absolute border-2 pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]",
+                      selectedOptions.crop === undefined && !dragRect ? "border-dashed border-primary" : "border-primary"
+                    )}
+                    style={{
+                      left: `${shownCrop.x * 100}%`,
+                      top: `${shownCrop.y * 100}%`,
+                      width: `${shownCrop.width * 100}%`,
+                      height: `${shownCrop.height * 100}%`
+                    }}
+                  />
+                )}
+                {isLoadingPreview && (
+                  <div className="absolute inset-0 flex items-center justify-center">
+                    <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button size="sm" variant="outline" onClick={() => rotate(-90)}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Left
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => rotate(90)}>
+                <RotateCw className="h-4 w-4 mr-2" />
+                Right
+              </Button>
+              <Button
+                size="sm"
+                variant={selectedOptions.crop === undefined ? "secondary" : "outline"}
+                onClick={() => updateOptions({ crop: undefined })}
+              >
+                <Crop className="h-4 w-4 mr-2" />
+                Auto crop
+              </Button>
+              <Button
+                size="sm"
+                variant={selectedOptions.crop === null ? "secondary" : "outline"}
+                onClick={() => updateOptions({ crop: null })}
+              >
+                No crop
+              </Button>
+
+              <div className="flex items-center gap-2 ml-auto">
+                <Switch
+                  id="deskew"
+                  checked={selectedOptions.deskew !== false}
+                  onCheckedChange={checked => updateOptions({ deskew: checked })}
+                />
+                <Label htmlFor="deskew">Straighten</Label>
+                <Switch
+                  id="enhance"
+                  checked={selectedOptions.enhance !== false}
+                  onCheckedChange={checked => updateOptions({ enhance: checked })}
+                  className="ml-3"
+                />
+                <Label htmlFor="enhance">Fix lighting</Label>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            रद्द करें / Cancel
+          </Button>
+          <Button onClick={() => onConfirm(options)}>
+            प्रोसेस करें / Process {files.length} {files.length === 1 ? 'file' : 'files'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
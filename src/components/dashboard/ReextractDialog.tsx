@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { OCR_LANGUAGES, getDocumentLanguages, getPrimaryLanguage } from '@/lib/languages';
+import { DEFAULT_DOCUMENT_TYPE, DOCUMENT_TYPES } from '@/lib/documentTypes';
+import { DEFAULT_OCR_PROVIDER, OCR_PROVIDERS } from '@/lib/ocrProviders';
+import { DocumentType, OCRJobOptions } from '@/lib/types';
+import { Loader2, RefreshCw } from 'lucide-react';
+
+interface ReextractDialogProps {
+  filename: string;
+  languages?: string[] | null;
+  documentType?: DocumentType | null;
+  onCancel: () => void;
+  onConfirm: (options: OCRJobOptions) => Promise<void>;
+}
+
+// Settings for running OCR again on a document, starting from the ones it
+// was first read with
+export default function ReextractDialog({
+  filename,
+  languages,
+  documentType,
+  onCancel,
+  onConfirm
+}: ReextractDialogProps) {
+  const [provider, setProvider] = useState(DEFAULT_OCR_PROVIDER);
+  const [language, setLanguage] = useState(getPrimaryLanguage(languages));
+  const [type, setType] = useState<DocumentType>(documentType || DEFAULT_DOCUMENT_TYPE);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const confirm = async () => {
+    setIsSubmitting(true);
+    try {
+      await onConfirm({
+        ...(provider !== DEFAULT_OCR_PROVIDER ? { providers: [provider] } : {}),
+        languages: getDocumentLanguages(language),
+        documentType: type
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={open => { if (!open && !isSubmitting) onCancel(); }}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>दोबारा निकालें / Re-extract</DialogTitle>
+          <DialogDescription>
+            {filename} को फिर से पढ़ें। नया परिणाम अलग संस्करण के रूप में सहेजा जाएगा।
+            <br />
+            Read {filename} again. The result is saved as a new version you can compare with the current data.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="reextract-provider">OCR इंजन / OCR engine</Label>
+            <Select value={provider} onValueChange={setProvider}>
+              <SelectTrigger id="reextract-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OCR_PROVIDERS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="reextract-language">रजिस्टर की भाषा / Register language</Label>
+            <Select value={language} onValueChange={setLanguage}>
+              <SelectTrigger id="reextract-language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OCR_LANGUAGES.map(option => (
+                  <SelectItem key={option.code} value={option.code}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="reextract-document-type">दस्तावेज़ / Document</Label>
+            <Select value={type} onValueChange={value => setType(value as DocumentType)}>
+              <SelectTrigger id="reextract-document-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DOCUMENT_TYPES.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isSubmitting}>
+            रद्द करें / Cancel
+          </Button>
+          <Button onClick={confirm} disabled={isSubmitting}>
+            {isSubmitting
+              ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              : <RefreshCw className="h-4 w-4 mr-2" />}
+            दोबारा निकालें / Re-extract
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
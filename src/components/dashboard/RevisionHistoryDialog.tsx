@@ -0,0 +1,215 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import { ExtractedTable } from '@/lib/types';
+import { diffExtractions } from '@/lib/tableDiff';
+import { RevisionService, RevisionSummary } from '@/lib/revisionService';
+import TableDiffView from '@/components/dashboard/TableDiffView';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+
+interface RevisionHistoryDialogProps {
+  extractedDataId: string;
+  currentUserId?: string;
+  onClose: () => void;
+  onRestore: (revision: RevisionSummary, tables: ExtractedTable[]) => Promise<void>;
+}
+
+const SOURCE_LABELS: Record<RevisionSummary['source'], string> = {
+  ocr: 'OCR result',
+  import: 'Spreadsheet import',
+  edit: 'Edited'
+};
+
+function getAuthor(revision: RevisionSummary, currentUserId?: string): string {
+  if (!revision.created_by) return revision.source === 'edit' ? 'System' : 'OCR';
+  return revision.created_by === currentUserId ? 'You' : 'Another user';
+}
+
+// Saved revisions of the extracted data, newest first. Selecting one shows
+// what it changed compared with the revision before it; any earlier revision
+// can be restored, which saves it again as the newest one.
+export default function RevisionHistoryDialog({
+  extractedDataId,
+  currentUserId,
+  onClose,
+  onRestore
+}: RevisionHistoryDialogProps) {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [tables, setTables] = useState<{ before: ExtractedTable[]; after: ExtractedTable[] } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [tableIndex, setTableIndex] = useState(0);
+  const [onlyDifferences, setOnlyDifferences] = useState(true);
+
+  const selectedPosition = revisions.findIndex(revision => revision.id === selectedId);
+  const selected = revisions[selectedPosition];
+  const previous = selectedPosition >= 0 ? revisions[selectedPosition + 1] : undefined;
+
+  useEffect(() => {
+    let cancelled = false;
+    RevisionService.list(extractedDataId)
+      .then(list => {
+        if (cancelled) return;
+        setRevisions(list);
+        setSelectedId(list[0]?.id ?? null);
+      })
+      .catch(error => {
+        console.error('Error loading revisions:', error);
+        if (!cancelled) setLoadError('Could not load the version history.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [extractedDataId]);
+
+  // The first revision is compared with nothing, so all of it shows as added
+  const selectedRevisionId = selected?.id;
+  const previousRevisionId = previous?.id;
+  useEffect(() => {
+    if (!selectedRevisionId) return;
+    let cancelled = false;
+    setTables(null);
+    Promise.all([
+      previousRevisionId ? RevisionService.getTables(previousRevisionId) : Promise.resolve([]),
+      RevisionService.getTables(selectedRevisionId)
+    ])
+      .then(([before, after]) => {
+        if (!cancelled) setTables({ before, after });
+      })
+      .catch(error => {
+        console.error('Error loading revision:', error);
+        if (!cancelled) setLoadError('Could not load this version.');
+      });
+    return () => { cancelled = true; };
+  }, [selectedRevisionId, previousRevisionId]);
+
+  const diff = useMemo(() => tables ? diffExtractions(tables.before, tables.after) : null, [tables]);
+  const table = diff ? diff.tables[tableIndex] || diff.tables[0] : undefined;
+
+  const selectRevision = (id: string) => {
+    setSelectedId(id);
+    setTableIndex(0);
+    setLoadError(null);
+  };
+
+  const restore = async () => {
+    if (!selected || !tables) return;
+    setIsRestoring(true);
+    try {
+      await onRestore(selected, tables.after);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={open => { if (!open && !isRestoring) onClose(); }}>
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription>
+            Every save is kept. Select a version to see what it changed, or restore it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[16rem_1fr] gap-4">
+          <ScrollArea className="h-[60vh] border rounded-md">
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <div className="p-1">
+                {revisions.map((revision, index) => (
+                  <button
+                    key={revision.id}
+                    type="button"
+                    onClick={() => selectRevision(revision.id)}
+                    className={cn(
+                      'w-full text-left rounded-md px-3 py-2 text-sm hover:bg-muted',
+                      revision.id === selectedId && 'bg-muted'
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">Version {revision.revision_number}</span>
+                      {index === 0 && <Badge variant="secondary">Current</Badge>}
+                      {revision.source !== 'edit' && <Badge variant="outline">Original</Badge>}
+                    </div>
+                    <p className="text-muted-foreground truncate">{revision.note || SOURCE_LABELS[revision.source]}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {getAuthor(revision, currentUserId)} • {new Date(revision.created_at).toLocaleString()}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+
+          <div className="flex flex-col gap-3 min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              {diff && (
+                <>
+                  <Badge variant="secondary">{diff.changedCells} changed cells</Badge>
+                  <Badge variant="secondary" className="text-green-700">{diff.addedRows} added rows</Badge>
+                  <Badge variant="secondary" className="text-red-600">{diff.removedRows} removed rows</Badge>
+                </>
+              )}
+              <div className="flex items-center gap-2 ml-auto">
+                <Switch id="history-only-differences" checked={onlyDifferences} onCheckedChange={setOnlyDifferences} />
+                <Label htmlFor="history-only-differences">Only differences</Label>
+              </div>
+              <Button
+                size="sm"
+                onClick={restore}
+                disabled={!tables || selectedPosition <= 0 || isRestoring}
+              >
+                {isRestoring
+                  ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  : <RotateCcw className="h-4 w-4 mr-2" />}
+                Restore this version
+              </Button>
+            </div>
+
+            {diff && diff.tables.length > 1 && (
+              <Tabs value={String(tableIndex)} onValueChange={value => setTableIndex(Number(value))}>
+                <TabsList className="h-auto flex-wrap justify-start">
+                  {diff.tables.map((item, index) => (
+                    <TabsTrigger key={index} value={String(index)}>{item.name}</TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
+            )}
+
+            <ScrollArea className="h-[50vh] border rounded-md">
+              {loadError ? (
+                <p className="py-12 text-center text-destructive">{loadError}</p>
+              ) : table ? (
+                <TableDiffView table={table} onlyDifferences={onlyDifferences} />
+              ) : (
+                <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+                  {selected ? <Loader2 className="h-5 w-5 animate-spin" /> : <History className="h-5 w-5" />}
+                  {!selected && !isLoading && <p>No saved versions yet.</p>}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,75 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { CellDiff, RowDiff, TableDiff } from '@/lib/tableDiff';
+
+interface TableDiffViewProps {
+  table: TableDiff;
+  onlyDifferences: boolean;
+}
+
+const ROW_CLASSES: Record<RowDiff['status'], string> = {
+  same: '',
+  changed: '',
+  added: 'bg-green-50 dark:bg-green-950/30',
+  removed: 'bg-red-50 dark:bg-red-950/30 text-muted-foreground line-through'
+};
+
+function DiffCellContent({ cell }: { cell: CellDiff }) {
+  if (cell.status !== 'changed') {
+    return <>{cell.after ?? cell.before}</>;
+  }
+  return (
+    <div className="flex flex-col">
+      <span className="text-red-600 line-through">{cell.before}</span>
+      <span className="text-green-700 font-medium">{cell.after}</span>
+    </div>
+  );
+}
+
+// One table of a diff, cell by cell: struck-through values are the earlier
+// data and the values below them the later one
+export default function TableDiffView({ table, onlyDifferences }: TableDiffViewProps) {
+  const rows = onlyDifferences ? table.rows.filter(row => row.status !== 'same') : table.rows;
+
+  if (rows.length === 0) {
+    return <p className="py-12 text-center text-muted-foreground">No differences in this table.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-12">#</TableHead>
+          {table.columns.map(column => (
+            <TableHead
+              key={column}
+              className={cn(
+                table.addedColumns.includes(column) && 'text-green-700',
+                table.removedColumns.includes(column) && 'text-red-600 line-through'
+              )}
+            >
+              {column}
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row, index) => (
+          <TableRow key={`${row.beforeIndex}-${row.afterIndex}-${index}`} className={ROW_CLASSES[row.status]}>
+            <TableCell className="text-xs text-muted-foreground">
+              {(row.beforeIndex ?? row.afterIndex ?? 0) + 1}
+            </TableCell>
+            {table.columns.map(column => (
+              <TableCell
+                key={column}
+                className={cn(row.cells[column].status === 'changed' && 'bg-amber-50 dark:bg-amber-950/30')}
+              >
+                <DiffCellContent cell={row.cells[column]} />
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
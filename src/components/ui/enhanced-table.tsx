@@ -1,8 +1,54 @@
 import * as React from "react";
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { cn } from "@/lib/utils";
+import { LOW_CONFIDENCE_THRESHOLD, VERIFIED_CONFIDENCE } from "@/lib/extractedData";
+import { CellBox, ColumnSchema, LedgerCheck } from "@/lib/types";
+import { DATE_FORMATS } from "@/lib/indianFormats";
+import {
+  COLUMN_TYPES,
+  TableSchema,
+  compareCells,
+  getValidationMessage,
+  isNumericType,
+  matchesFilter
+} from "@/lib/columnTypes";
+import {
+  deleteColumns,
+  deleteRows,
+  duplicateRow,
+  getHeaderNameError,
+  getNewHeaderName,
+  insertColumn,
+  insertRow,
+  moveColumn,
+  moveRow,
+  renameColumn
+} from "@/lib/tableStructure";
+import { CSVService } from "@/lib/csvService";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuRadioGroup,
+  ContextMenuRadioItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger
+} from "@/components/ui/context-menu";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
 import { 
   ChevronUp, 
   ChevronDown, 
@@ -11,25 +57,89 @@ import {
   Grid3X3,
   Table as TableIcon,
   Save,
-  X
+  X,
+  ShieldCheck,
+  Check,
+  ArrowRight,
+  Type,
+  Undo2,
+  Redo2,
+  GripVertical,
+  Trash2
 } from "lucide-react";
 
 interface TableData {
   headers: string[];
   rows: Array<Record<string, string>>;
+  // Per-cell confidence (0-100) aligned with rows
+  cellConfidence?: Array<Record<string, number>>;
+  // Problems found in a cell (e.g. a ledger balance that does not add up), aligned with rows
+  cellNotes?: Array<Record<string, string>>;
+  // Cells as read before normalisation, aligned with rows
+  originalValues?: Array<Record<string, string>>;
+  // Column types by header; drive sorting, filtering and cell validation
+  schema?: TableSchema;
+  // Not shown; passed back with structural edits so they stay aligned
+  cellBoxes?: Array<Record<string, CellBox>>;
+  ledger?: LedgerCheck;
+}
+
+// What a change sent through onDataChange did, when the table knows better
+// than a cell-by-cell comparison would (e.g. a renamed or moved column)
+export interface TableChange {
+  label: string;
+  // Removes data, so the owner may offer a quick undo
+  destructive?: boolean;
+}
+
+// A cell by its index in data.rows (not the sorted/filtered position) and header
+export interface CellPosition {
+  row: number;
+  col: string;
+}
+
+// Undo/redo of changes made through onDataChange; the owner of the data
+// keeps the history
+export interface EditHistoryControls {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+  onUndo: () => void;
+  onRedo: () => void;
 }
 
 interface EnhancedTableProps {
   data: TableData;
-  onDataChange?: (data: TableData) => void;
+  onDataChange?: (data: TableData, change?: TableChange) => void;
+  history?: EditHistoryControls;
   showSpreadsheetToggle?: boolean;
+  // Cells below this confidence are highlighted in review mode
+  reviewThreshold?: number;
+  // Cell selected outside the table (e.g. in the source viewer)
+  activeCell?: CellPosition | null;
+  onCellSelect?: (cell: CellPosition) => void;
   className?: string;
 }
 
+// A cell of the spreadsheet view by displayed position: its row in the
+// sorted and filtered rows and its column index
+interface GridPoint {
+  row: number;
+  col: number;
+}
+
+const acceptsComparisons = (schema?: ColumnSchema) =>
+  Boolean(schema && (isNumericType(schema.type) || schema.type === 'date'));
+
 export function EnhancedTable({ 
   data, 
   onDataChange, 
+  history,
   showSpreadsheetToggle = false,
+  reviewThreshold = LOW_CONFIDENCE_THRESHOLD,
+  activeCell,
+  onCellSelect,
   className 
 }: EnhancedTableProps) {
   const [editingCell, setEditingCell] = useState<{ row: number; col: string } | null>(null);
@@ -37,35 +147,171 @@ export function EnhancedTable({
   const [sortConfig, setSortConfig] = useState<{ key: string; direction: 'asc' | 'desc' } | null>(null);
   const [filters, setFilters] = useState<Record<string, string>>({});
   const [viewMode, setViewMode] = useState<'table' | 'spreadsheet'>('table');
+  const [reviewMode, setReviewMode] = useState(false);
+  const [reviewCell, setReviewCell] = useState<CellPosition | null>(null);
+  const [renaming, setRenaming] = useState<{ header: string; value: string; error?: string } | null>(null);
+  // Indexes in data.rows
+  const [selectedRows, setSelectedRows] = useState<number[]>([]);
+  const [dragged, setDragged] = useState<{ kind: 'row' | 'column'; index: number } | null>(null);
+  // Spreadsheet view range; the cursor is the cell keys act on and the
+  // anchor the corner that stays put while Shift extends the range
+  const [gridSelection, setGridSelection] = useState<{ anchor: GridPoint; cursor: GridPoint } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
 
-  // Filter and sort data
+  // Filter and sort data. Sort a copy: row indexes must keep matching
+  // cellConfidence, which is aligned with data.rows
   const processedData = React.useMemo(() => {
-    let filtered = data.rows;
+    let filtered = [...data.rows];
 
     // Apply filters
     Object.keys(filters).forEach(key => {
       const filterValue = filters[key];
       if (filterValue) {
-        filtered = filtered.filter(row => 
-          row[key]?.toLowerCase().includes(filterValue.toLowerCase())
-        );
+        filtered = filtered.filter(row => matchesFilter(row[key], filterValue, data.schema?.[key]));
       }
     });
 
     // Apply sorting
     if (sortConfig) {
+      const schema = data.schema?.[sortConfig.key];
       filtered.sort((a, b) => {
-        const aVal = a[sortConfig.key] || '';
-        const bVal = b[sortConfig.key] || '';
-        
-        if (aVal < bVal) return sortConfig.direction === 'asc' ? -1 : 1;
-        if (aVal > bVal) return sortConfig.direction === 'asc' ? 1 : -1;
-        return 0;
+        const order = compareCells(a[sortConfig.key], b[sortConfig.key], schema);
+        return sortConfig.direction === 'asc' ? order : -order;
       });
     }
 
     return filtered;
-  }, [data.rows, filters, sortConfig]);
+  }, [data.rows, data.schema, filters, sortConfig]);
+
+  const getCellConfidence = (rowIndex: number, col: string): number | undefined =>
+    data.cellConfidence?.[rowIndex]?.[col];
+
+  const isUncertain = (rowIndex: number, col: string) => {
+    const confidence = getCellConfidence(rowIndex, col);
+    return confidence !== undefined && confidence < reviewThreshold;
+  };
+
+  // Uncertain cells in display order (visible rows, left to right)
+  const uncertainCells = React.useMemo(() => {
+    const cells: CellPosition[] = [];
+    processedData.forEach(row => {
+      const rowIndex = data.rows.indexOf(row);
+      data.headers.forEach(col => {
+        const confidence = data.cellConfidence?.[rowIndex]?.[col];
+        if (confidence !== undefined && confidence < reviewThreshold) {
+          cells.push({ row: rowIndex, col });
+        }
+      });
+    });
+    return cells;
+  }, [processedData, data.rows, data.headers, data.cellConfidence, reviewThreshold]);
+
+  // The selected cell: owned by the parent when it passes activeCell (review
+  // moves are reported through onCellSelect), otherwise by review mode
+  const focusedCell = activeCell !== undefined ? activeCell : reviewCell;
+
+  // Keep the focused cell on screen
+  useEffect(() => {
+    if (!focusedCell || !containerRef.current) return;
+    const key = CSS.escape(`${focusedCell.row}:${focusedCell.col}`);
+    containerRef.current
+      .querySelector(`[data-review-cell="${key}"]`)
+      ?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [focusedCell, viewMode]);
+
+  const goToReviewCell = (cell: CellPosition | null) => {
+    setReviewCell(cell);
+    if (cell) onCellSelect?.(cell);
+  };
+
+  const withVerifiedCell = (rowIndex: number, col: string) => {
+    if (!data.cellConfidence) return undefined;
+    const cellConfidence = [...data.cellConfidence];
+    cellConfidence[rowIndex] = { ...cellConfidence[rowIndex], [col]: VERIFIED_CONFIDENCE };
+    return cellConfidence;
+  };
+
+  // Move to the next (or previous) uncertain cell after the current one,
+  // wrapping around; the current cell is skipped even before its accepted
+  // state comes back from the parent
+  const moveReview = (step: 1 | -1) => {
+    const order = (cell: CellPosition) =>
+      processedData.indexOf(data.rows[cell.row]) * data.headers.length + data.headers.indexOf(cell.col);
+    const current = focusedCell ? order(focusedCell) : -1;
+    const candidates = uncertainCells.filter(cell => order(cell) !== current);
+
+    if (candidates.length === 0) {
+      goToReviewCell(null);
+      return;
+    }
+
+    const next = step === 1
+      ? candidates.find(cell => order(cell) > current) || candidates[0]
+      : [...candidates].reverse().find(cell => order(cell) < current) || candidates[candidates.length - 1];
+    goToReviewCell(next);
+  };
+
+  const acceptCell = (cell: CellPosition) => {
+    if (!onDataChange) return;
+    onDataChange(
+      { ...data, cellConfidence: withVerifiedCell(cell.row, cell.col) },
+      { label: `Accepted ${cell.col} in row ${cell.row + 1}` }
+    );
+    moveReview(1);
+  };
+
+  const toggleReview = () => {
+    if (reviewMode) {
+      setReviewMode(false);
+      setReviewCell(null);
+      return;
+    }
+    setReviewMode(true);
+    goToReviewCell(uncertainCells[0] || null);
+    containerRef.current?.focus();
+  };
+
+  const handleReviewKey = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    // Ignore keys typed into the cell editor or the filters
+    if (!reviewMode || editingCell || e.target !== e.currentTarget) return;
+
+    if (e.key === 'n' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      moveReview(1);
+    } else if (e.key === 'p' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      moveReview(-1);
+    } else if ((e.key === 'Enter' || e.key === 'a') && focusedCell) {
+      e.preventDefault();
+      acceptCell(focusedCell);
+    } else if (e.key === 'e' && focusedCell) {
+      e.preventDefault();
+      startEditAt(focusedCell.row, focusedCell.col);
+    } else if (e.key === 'Escape') {
+      toggleReview();
+    }
+  };
+
+  const getInvalidMessage = (rowIndex: number, col: string) =>
+    getValidationMessage(data.rows[rowIndex]?.[col], data.schema?.[col]);
+
+  const getCellClassName = (rowIndex: number, col: string) => cn(
+    reviewMode && isUncertain(rowIndex, col) && "bg-amber-100 dark:bg-amber-900/40",
+    getInvalidMessage(rowIndex, col) && "underline decoration-wavy decoration-destructive",
+    data.cellNotes?.[rowIndex]?.[col] && "text-destructive font-medium",
+    focusedCell?.row === rowIndex && focusedCell.col === col && "ring-2 ring-inset ring-primary"
+  );
+
+  const getCellTitle = (rowIndex: number, col: string) => {
+    const confidence = getCellConfidence(rowIndex, col);
+    const parts = [
+      data.cellNotes?.[rowIndex]?.[col],
+      getInvalidMessage(rowIndex, col),
+      data.originalValues?.[rowIndex]?.[col] !== undefined ? `Read as "${data.originalValues[rowIndex][col]}"` : undefined,
+      confidence !== undefined ? `${Math.round(confidence)}% confidence` : undefined
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' • ') : undefined;
+  };
 
   const handleSort = (key: string) => {
     setSortConfig(prev => ({
@@ -74,16 +320,269 @@ export function EnhancedTable({
     }));
   };
 
+  // Selected rows a filter hides would be deleted unseen, so the selection
+  // is cleared
   const handleFilter = (key: string, value: string) => {
     setFilters(prev => ({ ...prev, [key]: value }));
+    setSelectedRows([]);
   };
 
-  const startEdit = (rowIndex: number, col: string) => {
-    const actualRowIndex = data.rows.findIndex(row => row === processedData[rowIndex]);
+  // A type picked here is the user's, so later inference leaves it alone
+  const setColumnSchema = (header: string, columnSchema: ColumnSchema) => {
+    if (!onDataChange) return;
+    onDataChange(
+      { ...data, schema: { ...data.schema, [header]: { ...columnSchema, inferred: false } } },
+      { label: `Set ${header} to ${COLUMN_TYPES.find(type => type.value === columnSchema.type)?.label}` }
+    );
+  };
+
+  // Structural edits shift row indexes, so the selection and any open
+  // editor are cleared
+  const changeStructure = (next: TableData, change: TableChange) => {
+    if (!onDataChange) return;
+    onDataChange(next, change);
+    setSelectedRows([]);
+    setEditingCell(null);
+  };
+
+  // Filters and sorting are kept by header, so they follow a renamed column
+  // and go with a deleted one
+  const moveColumnSettings = (from: string, to: string | null) => {
+    setFilters(prev => {
+      const { [from]: value, ...rest } = prev;
+      return to && value ? { ...rest, [to]: value } : rest;
+    });
+    setSortConfig(prev => prev?.key !== from ? prev : to ? { ...prev, key: to } : null);
+  };
+
+  const commitRename = () => {
+    if (!renaming) return;
+    const error = getHeaderNameError(data.headers, renaming.value, renaming.header);
+    if (error) {
+      setRenaming({ ...renaming, error });
+      return;
+    }
+    const name = renaming.value.trim();
+    setRenaming(null);
+    if (name === renaming.header) return;
+    changeStructure(renameColumn(data, renaming.header, name), { label: `Renamed column ${renaming.header} to ${name}` });
+    moveColumnSettings(renaming.header, name);
+  };
+
+  // The new column opens for renaming straight away
+  const addColumn = (index: number) => {
+    const name = getNewHeaderName(data.headers);
+    changeStructure(insertColumn(data, index, name), { label: `Inserted column ${name}` });
+    setRenaming({ header: name, value: name });
+  };
+
+  const removeColumn = (header: string) => {
+    changeStructure(deleteColumns(data, [header]), { label: `Deleted column ${header}`, destructive: true });
+    moveColumnSettings(header, null);
+  };
+
+  const removeRows = (indexes: number[]) => {
+    const label = indexes.length === 1 ? `Deleted row ${indexes[0] + 1}` : `Deleted ${indexes.length} rows`;
+    changeStructure(deleteRows(data, indexes), { label, destructive: true });
+  };
+
+  // Rows can be dragged only in their stored order, when the displayed
+  // position is the real one
+  const canReorderRows = !sortConfig && !Object.values(filters).some(Boolean);
+
+  const dropOn = (kind: 'row' | 'column', index: number) => {
+    if (!dragged || dragged.kind !== kind || dragged.index === index) return;
+    if (kind === 'column') {
+      changeStructure(moveColumn(data, dragged.index, index), { label: `Moved column ${data.headers[dragged.index]}` });
+    } else {
+      changeStructure(moveRow(data, dragged.index, index), { label: `Moved row ${dragged.index + 1} to ${index + 1}` });
+    }
+    setDragged(null);
+  };
+
+  const dragProps = (kind: 'row' | 'column', index: number) => onDataChange && !renaming && (kind === 'column' || canReorderRows) ? {
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      e.dataTransfer.effectAllowed = 'move';
+      e.dataTransfer.setData('text/plain', '');
+      setDragged({ kind, index });
+    },
+    onDragOver: (e: React.DragEvent) => {
+      if (dragged?.kind === kind) e.preventDefault();
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      dropOn(kind, index);
+    },
+    onDragEnd: () => setDragged(null)
+  } : {};
+
+  const toggleRowSelection = (rowIndex: number, selected: boolean) => {
+    setSelectedRows(prev => selected ? [...prev, rowIndex] : prev.filter(row => row !== rowIndex));
+  };
+
+  const headerMenu = (header: string, index: number, content: React.ReactElement) => {
+    if (!onDataChange) return content;
+    const columnSchema = data.schema?.[header];
+
+    return (
+      <ContextMenu key={`${header}-${index}`}>
+        <ContextMenuTrigger asChild>{content}</ContextMenuTrigger>
+        <ContextMenuContent>
+          <ContextMenuItem onSelect={() => setRenaming({ header, value: header })}>Rename</ContextMenuItem>
+          <ContextMenuItem onSelect={() => addColumn(index)}>Insert column left</ContextMenuItem>
+          <ContextMenuItem onSelect={() => addColumn(index + 1)}>Insert column right</ContextMenuItem>
+          {columnSchema && (
+            <ContextMenuSub>
+              <ContextMenuSubTrigger>Change type</ContextMenuSubTrigger>
+              <ContextMenuSubContent>
+                <ContextMenuRadioGroup
+                  value={columnSchema.type}
+                  onValueChange={(value) => setColumnSchema(header, {
+                    type: value as ColumnSchema['type'],
+                    format: value === 'date' ? columnSchema.format || DATE_FORMATS[0] : undefined,
+                    inferred: false
+                  })}
+                >
+                  {COLUMN_TYPES.map(type => (
+                    <ContextMenuRadioItem key={type.value} value={type.value}>
+                      {type.label}
+                    </ContextMenuRadioItem>
+                  ))}
+                </ContextMenuRadioGroup>
+              </ContextMenuSubContent>
+            </ContextMenuSub>
+          )}
+          <ContextMenuSeparator />
+          <ContextMenuItem
+            className="text-destructive"
+            disabled={data.headers.length === 1}
+            onSelect={() => removeColumn(header)}
+          >
+            Delete column
+          </ContextMenuItem>
+        </ContextMenuContent>
+      </ContextMenu>
+    );
+  };
+
+  // Deleting from a selected row deletes the whole selection
+  const rowMenu = (rowIndex: number, key: React.Key, content: React.ReactElement) => {
+    if (!onDataChange) return content;
+    const deletion = selectedRows.includes(rowIndex) ? selectedRows : [rowIndex];
+
+    return (
+      <ContextMenu key={key}>
+        <ContextMenuTrigger asChild>{content}</ContextMenuTrigger>
+        <ContextMenuContent>
+          <ContextMenuItem onSelect={() => changeStructure(insertRow(data, rowIndex), { label: `Inserted a row above row ${rowIndex + 1}` })}>
+            Insert row above
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={() => changeStructure(insertRow(data, rowIndex + 1), { label: `Inserted a row below row ${rowIndex + 1}` })}>
+            Insert row below
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={() => changeStructure(duplicateRow(data, rowIndex), { label: `Duplicated row ${rowIndex + 1}` })}>
+            Duplicate row
+          </ContextMenuItem>
+          <ContextMenuSeparator />
+          <ContextMenuItem className="text-destructive" onSelect={() => removeRows(deletion)}>
+            {deletion.length === 1 ? 'Delete row' : `Delete ${deletion.length} selected rows`}
+          </ContextMenuItem>
+        </ContextMenuContent>
+      </ContextMenu>
+    );
+  };
+
+  const headerLabel = (header: string) => renaming?.header === header ? (
+    <div className="flex items-start gap-1" onClick={(e) => e.stopPropagation()}>
+      <div>
+        <Input
+          value={renaming.value}
+          onChange={(e) => setRenaming({ header, value: e.target.value })}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') setRenaming(null);
+          }}
+          className="h-7 text-sm"
+          autoFocus
+        />
+        {renaming.error && <p className="text-xs font-normal text-destructive mt-1">{renaming.error}</p>}
+      </div>
+      <Button size="sm" variant="ghost" onClick={commitRename} className="h-7 w-7 p-0">
+        <Save className="h-3 w-3" />
+      </Button>
+      <Button size="sm" variant="ghost" onClick={() => setRenaming(null)} className="h-7 w-7 p-0">
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  ) : null;
+
+  const columnTypeMenu = (header: string) => {
+    const columnSchema = data.schema?.[header];
+    if (!columnSchema || !onDataChange) return null;
+
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-1 text-xs font-normal text-muted-foreground"
+            title="Column type"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <Type className="h-3 w-3 mr-1" />
+            {COLUMN_TYPES.find(type => type.value === columnSchema.type)?.label}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" onClick={(e) => e.stopPropagation()}>
+          <DropdownMenuLabel>Column type</DropdownMenuLabel>
+          <DropdownMenuRadioGroup
+            value={columnSchema.type}
+            onValueChange={(value) => setColumnSchema(header, {
+              type: value as ColumnSchema['type'],
+              format: value === 'date' ? columnSchema.format || DATE_FORMATS[0] : undefined,
+              inferred: false
+            })}
+          >
+            {COLUMN_TYPES.map(type => (
+              <DropdownMenuRadioItem key={type.value} value={type.value}>
+                {type.label}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          {columnSchema.type === 'date' && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Date format</DropdownMenuLabel>
+              <DropdownMenuRadioGroup
+                value={columnSchema.format || DATE_FORMATS[0]}
+                onValueChange={(value) => setColumnSchema(header, { ...columnSchema, format: value as ColumnSchema['format'] })}
+              >
+                {DATE_FORMATS.map(format => (
+                  <DropdownMenuRadioItem key={format} value={format}>
+                    {format}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  };
+
+  const startEditAt = (actualRowIndex: number, col: string) => {
     setEditingCell({ row: actualRowIndex, col });
     setEditValue(data.rows[actualRowIndex][col] || '');
   };
 
+  const startEdit = (rowIndex: number, col: string) => {
+    const actualRowIndex = data.rows.findIndex(row => row === processedData[rowIndex]);
+    onCellSelect?.({ row: actualRowIndex, col });
+    startEditAt(actualRowIndex, col);
+  };
+
   const saveEdit = () => {
     if (!editingCell || !onDataChange) return;
 
@@ -93,60 +592,369 @@ export function EnhancedTable({
       [editingCell.col]: editValue
     };
 
+    // An edited cell has been checked by a person, so it no longer needs
+    // review; saving it unchanged accepts it
+    const unchanged = (data.rows[editingCell.row]?.[editingCell.col] || '') === editValue;
     onDataChange({
       ...data,
-      rows: newRows
-    });
+      rows: newRows,
+      cellConfidence: withVerifiedCell(editingCell.row, editingCell.col)
+    }, { label: `${unchanged ? 'Accepted' : 'Edited'} ${editingCell.col} in row ${editingCell.row + 1}` });
 
     setEditingCell(null);
     setEditValue("");
+    if (reviewMode) {
+      if (focusedCell?.row === editingCell.row && focusedCell.col === editingCell.col) {
+        moveReview(1);
+      }
+      containerRef.current?.focus();
+    }
   };
 
   const cancelEdit = () => {
     setEditingCell(null);
     setEditValue("");
+    if (reviewMode || viewMode === 'spreadsheet') containerRef.current?.focus();
+  };
+
+  // The selected range of the spreadsheet view, kept inside the table as
+  // rows are deleted or filtered out
+  const gridRange = React.useMemo(() => {
+    if (!gridSelection || processedData.length === 0 || data.headers.length === 0) return null;
+    const clamp = (point: GridPoint) => ({
+      row: Math.min(point.row, processedData.length - 1),
+      col: Math.min(point.col, data.headers.length - 1)
+    });
+    const anchor = clamp(gridSelection.anchor);
+    const cursor = clamp(gridSelection.cursor);
+    return {
+      cursor,
+      top: Math.min(anchor.row, cursor.row),
+      bottom: Math.max(anchor.row, cursor.row),
+      left: Math.min(anchor.col, cursor.col),
+      right: Math.max(anchor.col, cursor.col)
+    };
+  }, [gridSelection, processedData.length, data.headers.length]);
+
+  const isInGridRange = (row: number, col: number) => !!gridRange &&
+    row >= gridRange.top && row <= gridRange.bottom && col >= gridRange.left && col <= gridRange.right;
+
+  const selectGridCell = (point: GridPoint, extend = false) => {
+    if (processedData.length === 0) return;
+    const cursor = {
+      row: Math.max(0, Math.min(point.row, processedData.length - 1)),
+      col: Math.max(0, Math.min(point.col, data.headers.length - 1))
+    };
+    setGridSelection(prev => ({ anchor: extend && prev ? prev.anchor : cursor, cursor }));
+    onCellSelect?.({ row: data.rows.indexOf(processedData[cursor.row]), col: data.headers[cursor.col] });
+  };
+
+  // Keep the cursor on screen
+  useEffect(() => {
+    if (!gridSelection || !containerRef.current) return;
+    containerRef.current
+      .querySelector(`[data-grid-cell="${gridSelection.cursor.row}:${gridSelection.cursor.col}"]`)
+      ?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [gridSelection]);
+
+  // Typing into a cell replaces its value, as in a spreadsheet; Enter and
+  // F2 keep it
+  const startGridEdit = (initialValue?: string) => {
+    if (!gridRange || !onDataChange) return;
+    const { cursor } = gridRange;
+    startEditAt(data.rows.indexOf(processedData[cursor.row]), data.headers[cursor.col]);
+    if (initialValue !== undefined) setEditValue(initialValue);
   };
 
+  const finishGridEdit = (step: GridPoint) => {
+    saveEdit();
+    containerRef.current?.focus();
+    if (gridRange) {
+      selectGridCell({ row: gridRange.cursor.row + step.row, col: gridRange.cursor.col + step.col });
+    }
+  };
+
+  // Write values into cells by index in data.rows; rows past the end are
+  // added. Cells changed here were set by a person, so they no longer need
+  // review.
+  const writeCells = (updates: Array<{ row: number; col: string; value: string }>, change: TableChange) => {
+    if (!onDataChange || updates.length === 0) return;
+    let next: TableData = data;
+    const lastRow = Math.max(...updates.map(update => update.row));
+    while (next.rows.length <= lastRow) next = insertRow(next, next.rows.length);
+
+    const rows = [...next.rows];
+    const cellConfidence = next.cellConfidence && [...next.cellConfidence];
+    let changed = next !== data;
+    updates.forEach(({ row, col, value }) => {
+      if ((rows[row][col] || '') === value) return;
+      rows[row] = { ...rows[row], [col]: value };
+      if (cellConfidence) cellConfidence[row] = { ...cellConfidence[row], [col]: VERIFIED_CONFIDENCE };
+      changed = true;
+    });
+    if (changed) onDataChange({ ...next, rows, cellConfidence }, change);
+  };
+
+  const countCells = (count: number) => `${count} cell${count === 1 ? '' : 's'}`;
+
+  const gridRangeCells = () => {
+    if (!gridRange) return [];
+    const cells: Array<{ row: number; col: string }> = [];
+    for (let row = gridRange.top; row <= gridRange.bottom; row++) {
+      for (let col = gridRange.left; col <= gridRange.right; col++) {
+        cells.push({ row: data.rows.indexOf(processedData[row]), col: data.headers[col] });
+      }
+    }
+    return cells;
+  };
+
+  const clearGridRange = () => {
+    const cells = gridRangeCells();
+    writeCells(cells.map(cell => ({ ...cell, value: '' })), {
+      label: `Cleared ${countCells(cells.length)}`,
+      destructive: cells.length > 1
+    });
+  };
+
+  // Ctrl+D copies the top row of the range into the rows below it; on a
+  // single row it copies the row above, as Excel does
+  const fillDown = () => {
+    if (!gridRange) return;
+    const sourceRow = gridRange.top === gridRange.bottom ? gridRange.top - 1 : gridRange.top;
+    if (sourceRow < 0) return;
+    const source = processedData[sourceRow];
+    const updates = gridRangeCells()
+      .filter(cell => data.rows[cell.row] !== source)
+      .map(cell => ({ ...cell, value: source[cell.col] || '' }));
+    writeCells(updates, { label: `Filled down ${countCells(updates.length)}` });
+  };
+
+  const handleGridCopy = (e: React.ClipboardEvent<HTMLDivElement>, cut = false) => {
+    if (editingCell || e.target !== e.currentTarget || !gridRange) return;
+    e.preventDefault();
+    const cells: string[][] = [];
+    for (let row = gridRange.top; row <= gridRange.bottom; row++) {
+      cells.push(data.headers.slice(gridRange.left, gridRange.right + 1).map(col => processedData[row][col] || ''));
+    }
+    e.clipboardData.setData('text/plain', CSVService.toTSV(cells));
+    if (cut && onDataChange) clearGridRange();
+  };
+
+  // A single value fills the whole range; a block is written from the top
+  // left of the range, adding rows when it runs past the last one (only in
+  // stored order, since a sorted or filtered view has no place for them).
+  // Columns past the last are left out.
+  const handleGridPaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    if (editingCell || e.target !== e.currentTarget || !gridRange || !onDataChange) return;
+    const block = CSVService.parseTSV(e.clipboardData.getData('text/plain'));
+    if (block.length === 0) return;
+    e.preventDefault();
+
+    const single = block.length === 1 && block[0].length === 1;
+    const height = single ? gridRange.bottom - gridRange.top + 1 : block.length;
+    const width = single ? gridRange.right - gridRange.left + 1 : Math.max(...block.map(row => row.length));
+    const updates: Array<{ row: number; col: string; value: string }> = [];
+    let pastedRows = 0;
+
+    for (let r = 0; r < height; r++) {
+      const displayRow = gridRange.top + r;
+      let row: number;
+      if (displayRow < processedData.length) {
+        row = data.rows.indexOf(processedData[displayRow]);
+      } else if (canReorderRows) {
+        row = data.rows.length + displayRow - processedData.length;
+      } else {
+        break;
+      }
+      for (let c = 0; c < width && gridRange.left + c < data.headers.length; c++) {
+        const value = single ? block[0][0] : block[r][c];
+        if (value !== undefined) updates.push({ row, col: data.headers[gridRange.left + c], value });
+      }
+      pastedRows++;
+    }
+
+    writeCells(updates, { label: `Pasted ${countCells(updates.length)}`, destructive: updates.length > 1 });
+    setGridSelection({
+      anchor: { row: gridRange.top, col: gridRange.left },
+      cursor: {
+        row: gridRange.top + pastedRows - 1,
+        col: Math.min(gridRange.left + width - 1, data.headers.length - 1)
+      }
+    });
+  };
+
+  const handleGridKey = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (reviewMode) {
+      handleReviewKey(e);
+      return;
+    }
+    // Keys typed into the cell editor, the filters or a header being renamed
+    if (editingCell || e.target !== e.currentTarget || processedData.length === 0) return;
+
+    const cursor = gridRange?.cursor ?? { row: 0, col: 0 };
+    const mod = e.ctrlKey || e.metaKey;
+    const lastRow = processedData.length - 1;
+    const lastCol = data.headers.length - 1;
+    const moves: Record<string, GridPoint> = {
+      ArrowUp: { row: mod ? 0 : cursor.row - 1, col: cursor.col },
+      ArrowDown: { row: mod ? lastRow : cursor.row + 1, col: cursor.col },
+      ArrowLeft: { row: cursor.row, col: mod ? 0 : cursor.col - 1 },
+      ArrowRight: { row: cursor.row, col: mod ? lastCol : cursor.col + 1 },
+      Home: { row: mod ? 0 : cursor.row, col: 0 },
+      End: { row: mod ? lastRow : cursor.row, col: lastCol }
+    };
+
+    if (e.key in moves) {
+      e.preventDefault();
+      selectGridCell(moves[e.key], e.shiftKey);
+    } else if (e.key === 'Tab') {
+      // Tab runs along the row and wraps to the next one
+      e.preventDefault();
+      const index = cursor.row * (lastCol + 1) + cursor.col + (e.shiftKey ? -1 : 1);
+      if (index >= 0 && index <= (lastRow + 1) * (lastCol + 1) - 1) {
+        selectGridCell({ row: Math.floor(index / (lastCol + 1)), col: index % (lastCol + 1) });
+      }
+    } else if (mod && e.key.toLowerCase() === 'a') {
+      e.preventDefault();
+      setGridSelection({ anchor: { row: 0, col: 0 }, cursor: { row: lastRow, col: lastCol } });
+    } else if (!gridRange || !onDataChange) {
+      return;
+    } else if (mod && e.key.toLowerCase() === 'd') {
+      e.preventDefault();
+      fillDown();
+    } else if (e.key === 'Enter' || e.key === 'F2') {
+      e.preventDefault();
+      startGridEdit();
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      clearGridRange();
+    } else if (e.key === 'Escape') {
+      setGridSelection({ anchor: gridRange.cursor, cursor: gridRange.cursor });
+    } else if (e.key.length === 1 && !mod && !e.altKey) {
+      e.preventDefault();
+      startGridEdit(e.key);
+    }
+  };
+
+  const reviewToggle = data.cellConfidence && onDataChange && (
+    <Button
+      variant={reviewMode ? "default" : "outline"}
+      size="sm"
+      onClick={toggleReview}
+    >
+      <ShieldCheck className="h-4 w-4 mr-2" />
+      Review ({uncertainCells.length})
+    </Button>
+  );
+
+  const historyButtons = history && (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!history.canUndo}
+        onClick={history.onUndo}
+        title={history.undoLabel ? `Undo: ${history.undoLabel} (Ctrl+Z)` : "Undo (Ctrl+Z)"}
+      >
+        <Undo2 className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!history.canRedo}
+        onClick={history.onRedo}
+        title={history.redoLabel ? `Redo: ${history.redoLabel} (Ctrl+Shift+Z)` : "Redo (Ctrl+Shift+Z)"}
+      >
+        <Redo2 className="h-4 w-4" />
+      </Button>
+    </>
+  );
+
+  const reviewBar = reviewMode && (
+    <div className="border-b bg-amber-50 dark:bg-amber-950/30 px-4 py-2 flex items-center justify-between gap-4 text-sm">
+      <span className="text-muted-foreground">
+        {uncertainCells.length === 0
+          ? "All cells reviewed"
+          : `${uncertainCells.length} cell${uncertainCells.length === 1 ? '' : 's'} below ${reviewThreshold}% confidence`}
+        <span className="ml-2 hidden md:inline">
+          N / P next and previous • Enter accept • E edit • Esc exit
+        </span>
+      </span>
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" disabled={!focusedCell} onClick={() => focusedCell && acceptCell(focusedCell)}>
+          <Check className="h-3 w-3 mr-1" />
+          Accept
+        </Button>
+        <Button size="sm" variant="outline" disabled={uncertainCells.length === 0} onClick={() => moveReview(1)}>
+          <ArrowRight className="h-3 w-3 mr-1" />
+          Next
+        </Button>
+      </div>
+    </div>
+  );
+
   if (viewMode === 'spreadsheet') {
     return (
-      <div className={cn("border rounded-lg overflow-hidden", className)}>
+      <div
+        ref={containerRef}
+        tabIndex={-1}
+        onKeyDown={handleGridKey}
+        onCopy={handleGridCopy}
+        onCut={(e) => handleGridCopy(e, true)}
+        onPaste={handleGridPaste}
+        className={cn("border rounded-lg overflow-hidden outline-none", className)}
+      >
         {/* Spreadsheet Header */}
         <div className="border-b bg-muted/50 p-4 flex items-center justify-between">
           <div className="flex items-center gap-2">
             <Grid3X3 className="h-4 w-4" />
             <span className="font-medium">Spreadsheet View</span>
+            <span className="ml-2 hidden lg:inline text-sm text-muted-foreground">
+              Arrows move • Shift selects • Enter edits • Ctrl+C / Ctrl+V copy and paste • Ctrl+D fills down
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            {historyButtons}
+            {reviewToggle}
+            {showSpreadsheetToggle && (
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={() => setViewMode('table')}
+              >
+                <TableIcon className="h-4 w-4 mr-2" />
+                Table View
+              </Button>
+            )}
           </div>
-          {showSpreadsheetToggle && (
-            <Button 
-              variant="outline" 
-              size="sm"
-              onClick={() => setViewMode('table')}
-            >
-              <TableIcon className="h-4 w-4 mr-2" />
-              Table View
-            </Button>
-          )}
         </div>
+        {reviewBar}
 
         {/* Spreadsheet Grid */}
         <div className="overflow-auto max-h-[600px]">
           <div className="grid gap-0 border-collapse" style={{ gridTemplateColumns: `repeat(${data.headers.length}, minmax(120px, 1fr))` }}>
             {/* Headers */}
-            {data.headers.map((header, index) => (
+            {data.headers.map((header, index) => headerMenu(header, index,
               <div 
                 key={`header-${index}`}
-                className="bg-muted/30 border border-border p-2 font-medium text-sm sticky top-0 z-10"
+                className={cn(
+                  "bg-muted/30 border border-border p-2 font-medium text-sm sticky top-0 z-10",
+                  dragged?.kind === 'column' && dragged.index === index && "opacity-50"
+                )}
+                {...dragProps('column', index)}
               >
-                {header}
+                {headerLabel(header) || <div>{header}</div>}
+                {columnTypeMenu(header)}
               </div>
             ))}
             
             {/* Data Rows */}
             {processedData.map((row, rowIndex) => 
               data.headers.map((header, colIndex) => {
-                const isEditing = editingCell?.row === data.rows.findIndex(r => r === row) && editingCell?.col === header;
+                const actualRowIndex = data.rows.findIndex(r => r === row);
+                const isEditing = editingCell?.row === actualRowIndex && editingCell?.col === header;
                 
-                return (
+                return rowMenu(actualRowIndex, `cell-${rowIndex}-${colIndex}`,
                   <div 
                     key={`cell-${rowIndex}-${colIndex}`}
                     className="border border-border p-0 relative group hover:bg-muted/50"
@@ -157,9 +965,17 @@ export function EnhancedTable({
                           value={editValue}
                           onChange={(e) => setEditValue(e.target.value)}
                           onKeyDown={(e) => {
-                            if (e.key === 'Enter') saveEdit();
-                            if (e.key === 'Escape') cancelEdit();
+                            if (e.key === 'Enter') {
+                              e.preventDefault();
+                              finishGridEdit({ row: e.shiftKey ? -1 : 1, col: 0 });
+                            } else if (e.key === 'Tab') {
+                              e.preventDefault();
+                              finishGridEdit({ row: 0, col: e.shiftKey ? -1 : 1 });
+                            } else if (e.key === 'Escape') {
+                              cancelEdit();
+                            }
                           }}
+                          onFocus={(e) => e.currentTarget.setSelectionRange(editValue.length, editValue.length)}
                           className="h-8 text-sm border-0 focus:ring-1 focus:ring-primary"
                           autoFocus
                         />
@@ -174,8 +990,20 @@ export function EnhancedTable({
                       </div>
                     ) : (
                       <div 
-                        className="p-2 h-10 text-sm cursor-pointer flex items-center"
-                        onClick={() => startEdit(rowIndex, header)}
+                        className={cn(
+                          "p-2 h-10 text-sm cursor-cell flex items-center select-none",
+                          isInGridRange(rowIndex, colIndex) && "bg-primary/10",
+                          gridRange?.cursor.row === rowIndex && gridRange.cursor.col === colIndex && "ring-2 ring-inset ring-primary",
+                          getCellClassName(actualRowIndex, header)
+                        )}
+                        data-review-cell={`${actualRowIndex}:${header}`}
+                        data-grid-cell={`${rowIndex}:${colIndex}`}
+                        title={getCellTitle(actualRowIndex, header)}
+                        onClick={(e) => {
+                          selectGridCell({ row: rowIndex, col: colIndex }, e.shiftKey);
+                          containerRef.current?.focus();
+                        }}
+                        onDoubleClick={() => startEdit(rowIndex, header)}
                       >
                         {row[header] || ''}
                       </div>
@@ -191,7 +1019,12 @@ export function EnhancedTable({
   }
 
   return (
-    <div className={cn("border rounded-lg overflow-hidden", className)}>
+    <div
+      ref={containerRef}
+      tabIndex={-1}
+      onKeyDown={handleReviewKey}
+      className={cn("border rounded-lg overflow-hidden outline-none", className)}
+    >
       {/* Table Header with Controls */}
       <div className="border-b bg-muted/50 p-4">
         <div className="flex items-center justify-between mb-4">
@@ -199,16 +1032,26 @@ export function EnhancedTable({
             <TableIcon className="h-4 w-4" />
             <span className="font-medium">Enhanced Table View</span>
           </div>
-          {showSpreadsheetToggle && (
-            <Button 
-              variant="outline" 
-              size="sm"
-              onClick={() => setViewMode('spreadsheet')}
-            >
-              <Grid3X3 className="h-4 w-4 mr-2" />
-              Spreadsheet View
-            </Button>
-          )}
+          <div className="flex items-center gap-2">
+            {selectedRows.length > 0 && (
+              <Button variant="destructive" size="sm" onClick={() => removeRows(selectedRows)}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete {selectedRows.length} {selectedRows.length === 1 ? 'row' : 'rows'}
+              </Button>
+            )}
+            {historyButtons}
+            {reviewToggle}
+            {showSpreadsheetToggle && (
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={() => setViewMode('spreadsheet')}
+              >
+                <Grid3X3 className="h-4 w-4 mr-2" />
+                Spreadsheet View
+              </Button>
+            )}
+          </div>
         </div>
 
         {/* Filters */}
@@ -218,6 +1061,7 @@ export function EnhancedTable({
               <Filter className="h-3 w-3 absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground" />
               <Input
                 placeholder={`Filter ${header}...`}
+                title={acceptsComparisons(data.schema?.[header]) ? 'Also accepts > 1000, <= 500 or 100..500' : undefined}
                 value={filters[header] || ''}
                 onChange={(e) => handleFilter(header, e.target.value)}
                 className="pl-8 h-8 text-sm"
@@ -226,35 +1070,76 @@ export function EnhancedTable({
           ))}
         </div>
       </div>
+      {reviewBar}
 
       {/* Table */}
       <div className="overflow-auto max-h-[600px]">
         <table className="w-full">
           <thead className="sticky top-0 bg-background border-b">
             <tr>
-              {data.headers.map((header, index) => (
+              {onDataChange && (
+                <th className="w-14 p-3">
+                  <Checkbox
+                    aria-label="Select all shown rows"
+                    checked={processedData.length > 0 && selectedRows.length === processedData.length}
+                    onCheckedChange={(checked) => setSelectedRows(checked ? processedData.map(row => data.rows.indexOf(row)) : [])}
+                  />
+                </th>
+              )}
+              {data.headers.map((header, index) => headerMenu(header, index,
                 <th 
                   key={`${header}-${index}`}
-                  className="p-3 text-left font-medium cursor-pointer hover:bg-muted/50 transition-colors"
-                  onClick={() => handleSort(header)}
+                  className={cn(
+                    "p-3 text-left font-medium cursor-pointer hover:bg-muted/50 transition-colors",
+                    dragged?.kind === 'column' && dragged.index === index && "opacity-50"
+                  )}
+                  onClick={() => !renaming && handleSort(header)}
+                  {...dragProps('column', index)}
                 >
-                  <div className="flex items-center gap-2">
-                    {header}
-                    {sortConfig?.key === header && (
-                      sortConfig.direction === 'asc' ? 
-                        <ChevronUp className="h-3 w-3" /> : 
-                        <ChevronDown className="h-3 w-3" />
-                    )}
-                  </div>
+                  {headerLabel(header) || (
+                    <div className="flex items-center gap-2">
+                      {header}
+                      {sortConfig?.key === header && (
+                        sortConfig.direction === 'asc' ? 
+                          <ChevronUp className="h-3 w-3" /> : 
+                          <ChevronDown className="h-3 w-3" />
+                      )}
+                    </div>
+                  )}
+                  {columnTypeMenu(header)}
                 </th>
               ))}
             </tr>
           </thead>
           <tbody>
-            {processedData.map((row, rowIndex) => (
-              <tr key={rowIndex} className="border-b hover:bg-muted/25 transition-colors">
+            {processedData.map((row, rowIndex) => {
+              const actualRowIndex = data.rows.indexOf(row);
+              return rowMenu(actualRowIndex, rowIndex,
+              <tr
+                key={rowIndex}
+                className={cn(
+                  "border-b hover:bg-muted/25 transition-colors",
+                  selectedRows.includes(actualRowIndex) && "bg-muted/40",
+                  dragged?.kind === 'row' && dragged.index === actualRowIndex && "opacity-50"
+                )}
+                {...dragProps('row', actualRowIndex)}
+              >
+                {onDataChange && (
+                  <td className="p-3">
+                    <div className="flex items-center gap-1">
+                      <GripVertical
+                        className={cn("h-4 w-4 text-muted-foreground", canReorderRows ? "cursor-grab" : "opacity-30")}
+                        aria-label={canReorderRows ? "Drag to move the row" : "Clear sorting and filters to move rows"}
+                      />
+                      <Checkbox
+                        aria-label={`Select row ${actualRowIndex + 1}`}
+                        checked={selectedRows.includes(actualRowIndex)}
+                        onCheckedChange={(checked) => toggleRowSelection(actualRowIndex, checked === true)}
+                      />
+                    </div>
+                  </td>
+                )}
                 {data.headers.map((header, colIndex) => {
-                  const actualRowIndex = data.rows.findIndex(r => r === row);
                   const isEditing = editingCell?.row === actualRowIndex && editingCell?.col === header;
                   
                   return (
@@ -280,7 +1165,12 @@ export function EnhancedTable({
                         </div>
                       ) : (
                         <div 
-                          className="cursor-pointer hover:bg-muted/50 p-1 rounded min-h-[2rem] flex items-center"
+                          className={cn(
+                            "cursor-pointer hover:bg-muted/50 p-1 rounded min-h-[2rem] flex items-center",
+                            getCellClassName(actualRowIndex, header)
+                          )}
+                          data-review-cell={`${actualRowIndex}:${header}`}
+                          title={getCellTitle(actualRowIndex, header)}
                           onClick={() => startEdit(rowIndex, header)}
                         >
                           {row[header] || ''}
@@ -290,7 +1180,8 @@ export function EnhancedTable({
                   );
                 })}
               </tr>
-            ))}
+              );
+            })}
           </tbody>
         </table>
       </div>
@@ -0,0 +1,274 @@
+import * as React from "react";
+import { useEffect, useRef, useState } from "react";
+import { getDocument, GlobalWorkerOptions, type PDFDocumentProxy, type RenderTask } from "pdfjs-dist";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import type { CellPosition } from "@/components/ui/enhanced-table";
+import type { CellBox } from "@/lib/types";
+import {
+  ChevronLeft,
+  ChevronRight,
+  ZoomIn,
+  ZoomOut,
+  Loader2,
+  ImageOff
+} from "lucide-react";
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// PDF pages are rendered at this scale and shrunk with CSS, so zooming in stays sharp
+const PDF_RENDER_SCALE = 2;
+const ZOOM_LEVELS = [1, 1.5, 2, 3];
+
+interface SourceViewerProps {
+  // Signed URL of the uploaded document
+  fileUrl: string | null;
+  isPdf: boolean;
+  cellBoxes?: Array<Record<string, CellBox>>;
+  activeCell?: CellPosition | null;
+  onCellSelect?: (cell: CellPosition) => void;
+  className?: string;
+}
+
+export function SourceViewer({
+  fileUrl,
+  isPdf,
+  cellBoxes,
+  activeCell,
+  onCellSelect,
+  className
+}: SourceViewerProps) {
+  const [page, setPage] = useState(1);
+  const [pageCount, setPageCount] = useState(1);
+  const [zoom, setZoom] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Load the PDF once per URL
+  useEffect(() => {
+    if (!fileUrl || !isPdf) return;
+
+    let cancelled = false;
+    const task = getDocument(fileUrl);
+    setIsLoading(true);
+    setLoadError(null);
+
+    task.promise
+      .then(doc => {
+        if (cancelled) return;
+        setPdf(doc);
+        setPageCount(doc.numPages);
+        setPage(1);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Error loading PDF:', error);
+        setLoadError('Could not load the document');
+        setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      task.destroy();
+    };
+  }, [fileUrl, isPdf]);
+
+  // Render the current PDF page
+  useEffect(() => {
+    if (!pdf || !canvasRef.current) return;
+
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+    const canvas = canvasRef.current;
+    setIsLoading(true);
+
+    pdf.getPage(page).then(pdfPage => {
+      if (cancelled) return;
+      const viewport = pdfPage.getViewport({ scale: PDF_RENDER_SCALE });
+      const context = canvas.getContext('2d');
+      if (!context) return;
+
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      renderTask = pdfPage.render({ canvasContext: context, canvas, viewport });
+      return renderTask.promise;
+    })
+      .catch(error => {
+        // A newer render cancels this one
+        if (!cancelled) console.error('Error rendering PDF page:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, page]);
+
+  // Follow the selected cell: switch to its page and scroll its region into view
+  const activeBox = activeCell ? cellBoxes?.[activeCell.row]?.[activeCell.col] : undefined;
+  useEffect(() => {
+    if (!activeBox) return;
+    if (isPdf && activeBox.page && activeBox.page !== page) {
+      setPage(activeBox.page);
+      return;
+    }
+    scrollRef.current
+      ?.querySelector('[data-active-region="true"]')
+      ?.scrollIntoView({ block: 'center', inline: 'center', behavior: 'smooth' });
+  }, [activeBox, isPdf, page, zoom]);
+
+  const pageBoxes = React.useMemo(() => {
+    const boxes: Array<{ cell: CellPosition; box: CellBox }> = [];
+    (cellBoxes || []).forEach((row, rowIndex) => {
+      Object.entries(row || {}).forEach(([col, box]) => {
+        if ((box.page ?? 1) === page) {
+          boxes.push({ cell: { row: rowIndex, col }, box });
+        }
+      });
+    });
+    return boxes;
+  }, [cellBoxes, page]);
+
+  const hasBoxes = (cellBoxes || []).some(row => row && Object.keys(row).length > 0);
+
+  if (!fileUrl) {
+    return (
+      <div className={cn("border rounded-lg flex items-center justify-center text-muted-foreground", className)}>
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("border rounded-lg overflow-hidden flex flex-col bg-background", className)}>
+      {/* Toolbar */}
+      <div className="border-b bg-muted/50 px-3 py-2 flex items-center justify-between gap-2 text-sm">
+        <div className="flex items-center gap-1">
+          {isPdf && (
+            <>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 w-7 p-0"
+                disabled={page <= 1}
+                onClick={() => setPage(p => p - 1)}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-muted-foreground">
+                Page {page} of {pageCount}
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 w-7 p-0"
+                disabled={page >= pageCount}
+                onClick={() => setPage(p => p + 1)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          {!hasBoxes && (
+            <span className="text-xs text-muted-foreground ml-2">
+              Cell regions are not available for this extraction
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 w-7 p-0"
+            disabled={zoom === 0}
+            onClick={() => setZoom(z => z - 1)}
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <span className="w-10 text-center text-muted-foreground">{ZOOM_LEVELS[zoom] * 100}%</span>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 w-7 p-0"
+            disabled={zoom === ZOOM_LEVELS.length - 1}
+            onClick={() => setZoom(z => z + 1)}
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Document with clickable cell regions on top */}
+      <div ref={scrollRef} className="flex-1 overflow-auto bg-muted/30 p-2">
+        {loadError ? (
+          <div className="h-full flex flex-col items-center justify-center text-muted-foreground gap-2">
+            <ImageOff className="h-8 w-8" />
+            <span className="text-sm">{loadError}</span>
+          </div>
+        ) : (
+          <div
+            className={cn("relative mx-auto", isLoading && "min-h-[200px]")}
+            style={{ width: `${ZOOM_LEVELS[zoom] * 100}%` }}
+          >
+            {isPdf ? (
+              <canvas ref={canvasRef} className="block w-full h-auto shadow" />
+            ) : (
+              <img
+                src={fileUrl}
+                alt="Source document"
+                className="block w-full h-auto shadow"
+                onLoad={() => setIsLoading(false)}
+                onError={() => {
+                  setLoadError('Could not load the image');
+                  setIsLoading(false);
+                }}
+              />
+            )}
+
+            {!isLoading && (
+              <div className="absolute inset-0">
+                {pageBoxes.map(({ cell, box }) => {
+                  const isActive = activeCell?.row === cell.row && activeCell.col === cell.col;
+                  return (
+                    <button
+                      key={`${cell.row}:${cell.col}`}
+                      type="button"
+                      title={cell.col}
+                      data-active-region={isActive || undefined}
+                      onClick={() => onCellSelect?.(cell)}
+                      className={cn(
+                        "absolute rounded-sm transition-colors",
+                        isActive
+                          ? "border-2 border-primary bg-primary/20"
+                          : "border border-transparent hover:border-primary/60 hover:bg-primary/10"
+                      )}
+                      style={{
+                        left: `${box.x0 * 100}%`,
+                        top: `${box.y0 * 100}%`,
+                        width: `${(box.x1 - box.x0) * 100}%`,
+                        height: `${(box.y1 - box.y0) * 100}%`
+                      }}
+                    />
+                  );
+                })}
+              </div>
+            )}
+
+            {isLoading && (
+              <div className="absolute inset-0 flex items-center justify-center">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
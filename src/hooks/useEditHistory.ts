@@ -0,0 +1,80 @@
+import { useCallback, useRef, useState } from 'react';
+
+// An applied change, kept as the state before and after it so it can be
+// undone and redone whatever kind of edit it was
+export interface EditCommand<T> {
+  id: number;
+  label: string;
+  before: T;
+  after: T;
+}
+
+// Oldest commands are dropped beyond this
+const HISTORY_LIMIT = 100;
+
+// Undo/redo stack over a state the caller owns. Every change goes through
+// execute(), which applies it and records it; undo and redo apply the
+// recorded states again through the same callback, with a note saying so.
+export function useEditHistory<T>(apply: (state: T, note: string) => void) {
+  const applyRef = useRef(apply);
+  applyRef.current = apply;
+
+  const past = useRef<EditCommand<T>[]>([]);
+  const future = useRef<EditCommand<T>[]>([]);
+  const nextId = useRef(1);
+  // The stacks live in refs so the callbacks below stay stable; this only
+  // re-renders the caller when they change
+  const [, setChanges] = useState(0);
+  const refresh = () => setChanges(count => count + 1);
+
+  const execute = useCallback((label: string, before: T, after: T): EditCommand<T> => {
+    const command = { id: nextId.current++, label, before, after };
+    past.current = [...past.current, command].slice(-HISTORY_LIMIT);
+    future.current = [];
+    applyRef.current(after, label);
+    refresh();
+    return command;
+  }, []);
+
+  // With a commandId, undo only if that command is still the latest one,
+  // so an undo button on an old toast cannot undo a later change
+  const undo = useCallback((commandId?: number): boolean => {
+    const command = past.current[past.current.length - 1];
+    if (!command || (commandId !== undefined && command.id !== commandId)) return false;
+
+    past.current = past.current.slice(0, -1);
+    future.current = [command, ...future.current];
+    applyRef.current(command.before, `Undid: ${command.label}`);
+    refresh();
+    return true;
+  }, []);
+
+  const redo = useCallback((): boolean => {
+    const command = future.current[0];
+    if (!command) return false;
+
+    future.current = future.current.slice(1);
+    past.current = [...past.current, command];
+    applyRef.current(command.after, `Redid: ${command.label}`);
+    refresh();
+    return true;
+  }, []);
+
+  // For when the state is replaced from outside, e.g. another file is loaded
+  const clear = useCallback(() => {
+    past.current = [];
+    future.current = [];
+    refresh();
+  }, []);
+
+  return {
+    execute,
+    undo,
+    redo,
+    clear,
+    canUndo: past.current.length > 0,
+    canRedo: future.current.length > 0,
+    undoLabel: past.current[past.current.length - 1]?.label,
+    redoLabel: future.current[0]?.label
+  };
+}
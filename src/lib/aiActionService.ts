@@ -0,0 +1,254 @@
+import { supabase } from '@/integrations/supabase/client';
+import { AIActionData, AIOperation, Database } from './types';
+import { parseNumber } from './indianFormats';
+import { VERIFIED_CONFIDENCE } from './extractedData';
+import {
+  StructuredTable,
+  deleteRows,
+  getHeaderNameError,
+  insertColumn,
+  renameColumn,
+  sortRows
+} from './tableStructure';
+
+type AIAction = Database['public']['Tables']['ai_actions']['Row'];
+
+// What became of one action, as written back to its ai_actions row.
+// Rejected actions are those the user chose not to apply.
+export interface ActionOutcome {
+  actionId: string;
+  status: 'completed' | 'failed' | 'rejected';
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+type RowValue = (row: Record<string, string>) => number | null;
+
+// Operations that change which row a number names, and operations that name
+// rows by number
+const ROW_MOVING_OPS: Array<AIOperation['op']> = ['delete_rows', 'sort_rows'];
+const ROW_ADDRESSED_OPS: Array<AIOperation['op']> = ['set_cells', 'delete_rows'];
+
+// An add_column expression as a function of the row: numbers, [Column]
+// references, + - * /, unary minus and parentheses. Cells that are empty or
+// not numbers make the result empty, as does dividing by zero.
+function compileExpression(expression: string, headers: string[]): RowValue {
+  const tokens = expression.match(/\[[^\]]+\]|\d+(?:\.\d+)?|\.\d+|\S/g) || [];
+  let position = 0;
+
+  const combine = (left: RowValue, operator: string, right: RowValue): RowValue => row => {
+    const a = left(row);
+    const b = right(row);
+    if (a === null || b === null) return null;
+    if (operator === '+') return a + b;
+    if (operator === '-') return a - b;
+    if (operator === '*') return a * b;
+    return b === 0 ? null : a / b;
+  };
+
+  const parseOperand = (): RowValue => {
+    const token = tokens[position++];
+    if (token === undefined) throw new Error('The expression is incomplete');
+    if (token === '(') {
+      const inner = parseSum();
+      if (tokens[position++] !== ')') throw new Error('The expression is missing a closing parenthesis');
+      return inner;
+    }
+    if (token === '-') {
+      const operand = parseOperand();
+      return row => {
+        const value = operand(row);
+        return value === null ? null : -value;
+      };
+    }
+    if (token.startsWith('[')) {
+      const column = token.slice(1, -1);
+      if (!headers.includes(column)) throw new Error(`Column ${column} does not exist`);
+      return row => row[column]?.trim() ? parseNumber(row[column]) : null;
+    }
+    if (/^\.?\d/.test(token)) {
+      const value = Number(token);
+      return () => value;
+    }
+    throw new Error(`Unexpected "${token}" in the expression`);
+  };
+
+  const parseProduct = (): RowValue => {
+    let value = parseOperand();
+    while (tokens[position] === '*' || tokens[position] === '/') {
+      const operator = tokens[position++];
+      value = combine(value, operator, parseOperand());
+    }
+    return value;
+  };
+
+  const parseSum = (): RowValue => {
+    let value = parseProduct();
+    while (tokens[position] === '+' || tokens[position] === '-') {
+      const operator = tokens[position++];
+      value = combine(value, operator, parseProduct());
+    }
+    return value;
+  };
+
+  const compiled = parseSum();
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position]}" in the expression`);
+  return compiled;
+}
+
+// Up to two decimals, without trailing zeros
+function formatComputed(value: number | null): string {
+  if (value === null || !Number.isFinite(value)) return '';
+  return String(Math.round(value * 100) / 100);
+}
+
+// The table may have changed since the assistant saw it, so every row and
+// column an operation names is checked again here
+function checkRows(table: StructuredTable, rows: number[]) {
+  const missing = rows.find(row => !Number.isInteger(row) || row < 1 || row > table.rows.length);
+  if (missing !== undefined) throw new Error(`Row ${missing} does not exist`);
+}
+
+function checkColumn(table: StructuredTable, column: string) {
+  if (!table.headers.includes(column)) throw new Error(`Column ${column} does not exist`);
+}
+
+// Edits proposed by the AI assistant (see the ai-assistant function) are
+// stored as pending ai_actions. The user previews them and applies them
+// here, to the table in the workspace, so they go through the same undo and
+// save path as any edit. Each action's outcome is written back to its row.
+export class AIActionService {
+  static isPending(action: AIAction): boolean {
+    return action.status === 'pending' && !!(action.action_data as AIActionData | null)?.operation;
+  }
+
+  static applyOperation<T extends StructuredTable>(table: T, operation: AIOperation): { table: T; result: Record<string, unknown> } {
+    switch (operation.op) {
+      case 'set_cells': {
+        checkRows(table, operation.cells.map(cell => cell.row));
+        operation.cells.forEach(cell => checkColumn(table, cell.column));
+        const rows = [...table.rows];
+        // Cells the user accepted from a preview count as checked, as a
+        // manual edit does, so they are no longer flagged for review
+        const cellConfidence = table.cellConfidence && [...table.cellConfidence];
+        let changedCells = 0;
+        operation.cells.forEach(({ row, column, value }) => {
+          if ((rows[row - 1][column] || '') === value) return;
+          rows[row - 1] = { ...rows[row - 1], [column]: value };
+          if (cellConfidence) cellConfidence[row - 1] = { ...cellConfidence[row - 1], [column]: VERIFIED_CONFIDENCE };
+          changedCells++;
+        });
+        return { table: { ...table, rows, cellConfidence }, result: { changedCells } };
+      }
+
+      case 'add_column': {
+        const error = getHeaderNameError(table.headers, operation.name);
+        if (error) throw new Error(error);
+        const compute = compileExpression(operation.expression, table.headers);
+        let index = table.headers.length;
+        if (operation.after) {
+          checkColumn(table, operation.after);
+          index = table.headers.indexOf(operation.after) + 1;
+        }
+
+        const withColumn = insertColumn(table, index, operation.name.trim());
+        const rows = withColumn.rows.map(row => ({ ...row, [operation.name.trim()]: formatComputed(compute(row)) }));
+        const filledCells = rows.filter(row => row[operation.name.trim()] !== '').length;
+        return {
+          table: { ...withColumn, rows },
+          result: { column: operation.name.trim(), filledCells, emptyCells: rows.length - filledCells }
+        };
+      }
+
+      case 'delete_rows': {
+        checkRows(table, operation.rows);
+        const indexes = [...new Set(operation.rows)].map(row => row - 1);
+        if (indexes.length >= table.rows.length) throw new Error('Cannot delete every row');
+        return { table: deleteRows(table, indexes), result: { deletedRows: indexes.length } };
+      }
+
+      case 'rename_column': {
+        checkColumn(table, operation.from);
+        const error = getHeaderNameError(table.headers, operation.to, operation.from);
+        if (error) throw new Error(error);
+        return {
+          table: renameColumn(table, operation.from, operation.to),
+          result: { from: operation.from, to: operation.to.trim() }
+        };
+      }
+
+      case 'sort_rows': {
+        checkColumn(table, operation.column);
+        return {
+          table: sortRows(table, operation.column, operation.direction),
+          result: { column: operation.column, direction: operation.direction }
+        };
+      }
+
+      default:
+        throw new Error(`Unknown operation ${(operation as { op: string }).op}`);
+    }
+  }
+
+  private static inStepOrder(actions: AIAction[]): AIAction[] {
+    return actions
+      .filter(action => this.isPending(action))
+      .sort((a, b) => (a.action_data as AIActionData).step - (b.action_data as AIActionData).step);
+  }
+
+  // Row numbers of an action name rows of the table as left by the steps
+  // before it. Without an earlier delete or sort they would name other rows,
+  // with no error, so such an action can only be applied together with every
+  // earlier delete and sort. Returns those earlier actions' ids by action id.
+  static getPrerequisites(actions: AIAction[]): Map<string, string[]> {
+    const prerequisites = new Map<string, string[]>();
+    const moving: string[] = [];
+    this.inStepOrder(actions).forEach(action => {
+      const { op } = (action.action_data as AIActionData).operation;
+      if (ROW_ADDRESSED_OPS.includes(op) && moving.length > 0) prerequisites.set(action.id, [...moving]);
+      if (ROW_MOVING_OPS.includes(op)) moving.push(action.id);
+    });
+    return prerequisites;
+  }
+
+  // Apply pending actions in the order the assistant gave them. An action
+  // that fails leaves the table as it was, and the ones after it still run.
+  static applyActions<T extends StructuredTable>(table: T, actions: AIAction[]): { table: T; outcomes: ActionOutcome[] } {
+    const pending = this.inStepOrder(actions);
+
+    let current = table;
+    const outcomes = pending.map((action): ActionOutcome => {
+      try {
+        const applied = this.applyOperation(current, (action.action_data as AIActionData).operation);
+        current = applied.table;
+        return { actionId: action.id, status: 'completed', result: applied.result };
+      } catch (error) {
+        return {
+          actionId: action.id,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'The change could not be applied'
+        };
+      }
+    });
+
+    return { table: current, outcomes };
+  }
+
+  static async recordOutcomes(outcomes: ActionOutcome[]): Promise<void> {
+    const completedAt = new Date().toISOString();
+    const results = await Promise.all(outcomes.map(outcome =>
+      supabase
+        .from('ai_actions')
+        .update({
+          status: outcome.status,
+          result_data: outcome.result ?? null,
+          error_message: outcome.error ?? null,
+          completed_at: completedAt
+        })
+        .eq('id', outcome.actionId)
+    ));
+
+    const failed = results.find(({ error }) => error);
+    if (failed?.error) throw failed.error;
+  }
+}
@@ -0,0 +1,55 @@
+import { AIExport, AIRowCondition, ColumnSchema } from './types';
+import { parseDate, parseNumber } from './indianFormats';
+
+// The rows of a file prepared by the assistant's export tool. Only the
+// columns and conditions are stored with the reply, so the rows are picked
+// here from the table as it is at download, the way the tool
+// (supabase/functions/ai-assistant/tools.ts) picked them.
+
+interface ExportSource {
+  headers: string[];
+  rows: Array<Record<string, string>>;
+  schema?: Record<string, ColumnSchema>;
+}
+
+// Dates by date, numbers by value, anything else as text ignoring case
+function compareValues(a: string, b: string, schema?: ColumnSchema): number {
+  if (schema?.type === 'date') {
+    const dateA = parseDate(a, schema.format || 'DD/MM/YYYY');
+    const dateB = parseDate(b, schema.format || 'DD/MM/YYYY');
+    if (dateA && dateB) return dateA.getTime() - dateB.getTime();
+  }
+  const numberA = parseNumber(a);
+  const numberB = parseNumber(b);
+  if (numberA !== null && numberB !== null) return numberA - numberB;
+  return a.trim().localeCompare(b.trim(), undefined, { sensitivity: 'base' });
+}
+
+function meets(row: Record<string, string>, condition: AIRowCondition, schema?: ColumnSchema): boolean {
+  const cell = (row[condition.column] || '').trim();
+  const value = (condition.value || '').trim();
+  switch (condition.operator) {
+    case 'is_empty': return cell === '';
+    case 'not_empty': return cell !== '';
+    case 'equals': return compareValues(cell, value, schema) === 0;
+    case 'not_equals': return compareValues(cell, value, schema) !== 0;
+    case 'contains': return cell.toLowerCase().includes(value.toLowerCase());
+    case 'greater_than': return cell !== '' && compareValues(cell, value, schema) > 0;
+    case 'less_than': return cell !== '' && compareValues(cell, value, schema) < 0;
+    default: throw new Error(`Unknown operator ${condition.operator}`);
+  }
+}
+
+// Throws when a column the export names has since been renamed or deleted
+export function getExportRows(file: AIExport, table: ExportSource): Array<Record<string, string>> {
+  if (file.rows) return file.rows;
+
+  const where = file.where || [];
+  const missing = [...file.headers, ...where.map(condition => condition.column)]
+    .find(column => !table.headers.includes(column));
+  if (missing) throw new Error(`Column ${missing} is no longer in the table`);
+
+  return table.rows
+    .filter(row => where.every(condition => meets(row, condition, table.schema?.[condition.column])))
+    .map(row => Object.fromEntries(file.headers.map(header => [header, row[header] || ''])));
+}
@@ -1,4 +1,6 @@
 import { supabase } from '@/integrations/supabase/client';
+import { TableSchema, getTableSchema, getValidationMessage, isNumericType } from './columnTypes';
+import { parseNumber } from './indianFormats';
 
 interface AnalysisResult {
   insights: string[];
@@ -6,15 +8,60 @@ interface AnalysisResult {
   summary: string;
 }
 
+interface TableInput {
+  headers: string[];
+  rows: Array<Record<string, string>>;
+  // Column types; inferred from the rows when missing
+  schema?: TableSchema;
+}
+
 interface FormulaResult {
   formula: string;
   description: string;
   result?: any;
 }
 
+export interface AssistantRequest {
+  conversationId: string;
+  message: string;
+  fileData: TableInput;
+  chatMode: boolean;
+}
+
+// Where a streamed reply goes as it is generated
+export interface AssistantStreamHandlers {
+  onText: (text: string) => void;
+  // The model called a tool to work something out
+  onTool?: (name: string) => void;
+}
+
+// Events of a server-sent event stream as they arrive, until the stream
+// ends or the reader is cancelled
+async function* readServerSentEvents(reader: ReadableStreamDefaultReader<string>) {
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() || '';
+    for (const block of blocks) {
+      let event = 'message';
+      const data: string[] = [];
+      block.split(/\r?\n/).forEach(line => {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+      });
+      if (data.length > 0) yield { event, data: data.join('\n') };
+    }
+  }
+}
+
 export class AIService {
   // Analyze data and provide insights
-  static analyzeData(data: { headers: string[]; rows: Array<Record<string, string>> }): AnalysisResult {
+  static analyzeData(data: TableInput): AnalysisResult {
     const { headers, rows } = data;
     const insights: string[] = [];
     const suggestions: string[] = [];
@@ -29,12 +76,8 @@ export class AIService {
     insights.push(`Data completeness: ${completeness.toFixed(1)}% of cells contain data`);
     
     // Find numeric columns
-    const numericColumns = headers.filter(header => {
-      return rows.some(row => {
-        const value = row[header];
-        return value && !isNaN(Number(value.replace(/[,\s]/g, '')));
-      });
-    });
+    const schema = getTableSchema(data);
+    const numericColumns = headers.filter(header => isNumericType(schema[header]?.type));
     
     if (numericColumns.length > 0) {
       insights.push(`Found ${numericColumns.length} numeric columns: ${numericColumns.join(', ')}`);
@@ -78,22 +121,18 @@ export class AIService {
   }
   
   // Suggest formulas based on data
-  static suggestFormulas(data: { headers: string[]; rows: Array<Record<string, string>> }): FormulaResult[] {
+  static suggestFormulas(data: TableInput): FormulaResult[] {
     const { headers, rows } = data;
     const formulas: FormulaResult[] = [];
     
     // Find numeric columns
-    const numericColumns = headers.filter(header => {
-      return rows.some(row => {
-        const value = row[header];
-        return value && !isNaN(Number(value.replace(/[,\s]/g, '')));
-      });
-    });
+    const schema = getTableSchema(data);
+    const numericColumns = headers.filter(header => isNumericType(schema[header]?.type));
     
     numericColumns.forEach(column => {
       const values = rows
-        .map(row => Number(row[column]?.replace(/[,\s]/g, '') || 0))
-        .filter(val => !isNaN(val));
+        .map(row => parseNumber(row[column] || ''))
+        .filter((val): val is number => val !== null);
       
       if (values.length > 0) {
         const sum = values.reduce((a, b) => a + b, 0);
@@ -218,7 +257,7 @@ Try asking: "Analyze my data", "How many unique values in [column name]?", or "C
   }
   
   // Validate and clean data
-  static validateData(data: { headers: string[]; rows: Array<Record<string, string>> }): {
+  static validateData(data: TableInput): {
     errors: string[];
     warnings: string[];
     suggestions: string[];
@@ -249,20 +288,61 @@ Try asking: "Analyze my data", "How many unique values in [column name]?", or "C
       suggestions.push('Consider removing empty rows to clean up your data');
     }
     
-    // Check data consistency for each column
+    // Check each column against its type
+    const schema = getTableSchema(data);
     headers.forEach(header => {
-      const values = rows.map(row => row[header]).filter(val => val && val.trim());
+      const columnSchema = schema[header];
+      const invalidValues = rows.filter(row => getValidationMessage(row[header], columnSchema));
       
-      // Check if column appears to be numeric but has non-numeric values
-      const numericValues = values.filter(val => !isNaN(Number(val.replace(/[,\s]/g, ''))));
-      const nonNumericValues = values.filter(val => isNaN(Number(val.replace(/[,\s]/g, ''))));
-      
-      if (numericValues.length > values.length * 0.7 && nonNumericValues.length > 0) {
-        warnings.push(`Column "${header}" appears mostly numeric but contains ${nonNumericValues.length} non-numeric values`);
+      if (invalidValues.length > 0) {
+        warnings.push(`Column "${header}" is typed ${columnSchema.type} but contains ${invalidValues.length} values that do not fit`);
         suggestions.push(`Consider validating data in "${header}" column for consistency`);
       }
     });
     
     return { errors, warnings, suggestions };
   }
+
+  // Send a message to the assistant and read its reply as it is generated.
+  // Resolves once the reply is stored, or as soon as the signal aborts; the
+  // function then stops generating and stores the reply so far itself.
+  static async streamAssistantReply(
+    request: AssistantRequest,
+    handlers: AssistantStreamHandlers,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const { data, error } = await supabase.functions.invoke('ai-assistant', {
+      body: { ...request, messageType: 'text', stream: true }
+    });
+
+    if (error) {
+      throw new Error(`AI service error: ${error.message}`);
+    }
+
+    // A function deployed before streaming answers once, with JSON
+    if (!(data instanceof Response) || !data.body) {
+      if (!data?.success) throw new Error(data?.error || 'AI processing failed');
+      return;
+    }
+
+    // Cancelling the reader closes the connection, which is what stops the function
+    const reader = data.body.pipeThrough(new TextDecoderStream()).getReader();
+    const stop = () => {
+      reader.cancel().catch(() => undefined);
+    };
+    if (signal?.aborted) stop();
+    else signal?.addEventListener('abort', stop, { once: true });
+
+    try {
+      for await (const { event, data: payload } of readServerSentEvents(reader)) {
+        const content = JSON.parse(payload);
+        if (event === 'delta') handlers.onText(content.text);
+        else if (event === 'tool') handlers.onTool?.(content.name);
+        else if (event === 'error') throw new Error(content.error || 'AI processing failed');
+        else if (event === 'done') break;
+      }
+    } finally {
+      signal?.removeEventListener('abort', stop);
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,232 @@
+import { ColumnSchema, ColumnType, DateFormat, ExtractedTable } from './types';
+import { normalizeDigits } from './languages';
+import { DATE_FORMATS, detectDateFormat, hasCurrencyMark, normalizeNumberText, parseDate, parseNumber } from './indianFormats';
+
+export type TableSchema = Record<string, ColumnSchema>;
+
+// A cell value read according to its column type; null for an empty cell.
+// Values that do not fit the type stay strings.
+export type TypedValue = number | Date | boolean | string | null;
+
+// Choices for the column type menu
+export const COLUMN_TYPES: Array<{ value: ColumnType; label: string }> = [
+  { value: 'text', label: 'Text' },
+  { value: 'integer', label: 'Whole number' },
+  { value: 'decimal', label: 'Decimal' },
+  { value: 'currency', label: 'Amount (₹)' },
+  { value: 'date', label: 'Date' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'gstin', label: 'GSTIN' },
+  { value: 'boolean', label: 'Yes / No' }
+];
+
+const NUMERIC_TYPES: ColumnType[] = ['integer', 'decimal', 'currency'];
+
+// Share of the filled cells that must fit a type for a column to get it
+const INFERENCE_THRESHOLD = 0.8;
+
+// Headers of money columns in English and the supported scripts
+const CURRENCY_HEADER = /amount|amt|rate|price|total|balance|debit|credit|fee|cost|paid|due|\brs\b|₹|राशि|रकम|रुपये|जमा|नामे|बाकी|शेष|कुल|રકમ|જમા|ઉધાર|தொகை|வரவு|செலவு/i;
+
+const TRUE_VALUES = ['yes', 'y', 'true', '✓', '✔', 'हाँ', 'हां', 'हो'];
+const FALSE_VALUES = ['no', 'n', 'false', '✗', '✘', 'नहीं', 'ना'];
+
+const GSTIN_SHAPE = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+export function isNumericType(type: ColumnType | undefined): boolean {
+  return type !== undefined && NUMERIC_TYPES.includes(type);
+}
+
+export function parseBoolean(value: string): boolean | null {
+  const normalized = value.trim().toLowerCase();
+  if (TRUE_VALUES.includes(normalized)) return true;
+  if (FALSE_VALUES.includes(normalized)) return false;
+  return null;
+}
+
+// Indian mobile numbers with an optional +91 or 0, or landlines with an STD code
+export function isPhone(value: string): boolean {
+  const cleaned = normalizeDigits(value).replace(/[\s().-]/g, '');
+  return /^(\+?91|0)?[6-9]\d{9}$/.test(cleaned) || /^0\d{9,10}$/.test(cleaned);
+}
+
+function hasGSTINShape(value: string): boolean {
+  return GSTIN_SHAPE.test(value.replace(/\s/g, '').toUpperCase());
+}
+
+// 15 characters: state code, PAN, entity number, 'Z' and a check character
+export function isGSTIN(value: string): boolean {
+  const gstin = value.replace(/\s/g, '').toUpperCase();
+  if (!GSTIN_SHAPE.test(gstin)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARS.indexOf(gstin[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARS[(36 - (sum % 36)) % 36] === gstin[14];
+}
+
+export function toTypedValue(value: string | undefined, schema?: ColumnSchema): TypedValue {
+  if (!value || !value.trim()) return null;
+
+  switch (schema?.type) {
+    case 'integer':
+    case 'decimal':
+    case 'currency':
+      return parseNumber(value) ?? value;
+    case 'date':
+      return parseDate(value, schema.format || DATE_FORMATS[0]) ?? value;
+    case 'boolean':
+      return parseBoolean(value) ?? value;
+    default:
+      return value;
+  }
+}
+
+// Why a filled cell does not fit its column type, or null when it does
+export function getValidationMessage(value: string | undefined, schema?: ColumnSchema): string | null {
+  if (!value || !value.trim() || !schema) return null;
+
+  switch (schema.type) {
+    case 'integer': {
+      const number = parseNumber(value);
+      return number === null || !Number.isInteger(number) ? 'Not a whole number' : null;
+    }
+    case 'decimal':
+      return parseNumber(value) === null ? 'Not a number' : null;
+    case 'currency':
+      return parseNumber(value) === null ? 'Not an amount' : null;
+    case 'date':
+      return parseDate(value, schema.format || DATE_FORMATS[0]) ? null : `Not a date in ${schema.format || DATE_FORMATS[0]} format`;
+    case 'phone':
+      return isPhone(value) ? null : 'Not a phone number';
+    case 'gstin':
+      return isGSTIN(value) ? null : 'Not a valid GSTIN';
+    case 'boolean':
+      return parseBoolean(value) === null ? 'Not yes or no' : null;
+    default:
+      return null;
+  }
+}
+
+// Guess a column's type from its filled cells. GSTINs and dates are matched
+// by shape, so a misread check character or day still infers the type and
+// then shows up as invalid.
+export function inferColumnSchema(header: string, values: Array<string | undefined>): ColumnSchema {
+  const filled = values.map(value => value?.trim()).filter(Boolean);
+  const fits = (test: (value: string) => boolean) =>
+    filled.length > 0 && filled.filter(test).length / filled.length >= INFERENCE_THRESHOLD;
+
+  if (filled.length === 0) return { type: 'text', inferred: true };
+  if (fits(value => parseBoolean(value) !== null)) return { type: 'boolean', inferred: true };
+  if (fits(hasGSTINShape)) return { type: 'gstin', inferred: true };
+  if (fits(isPhone)) return { type: 'phone', inferred: true };
+
+  const dateFormat = detectDateFormat(filled);
+  if (dateFormat.matches / filled.length >= INFERENCE_THRESHOLD) {
+    return { type: 'date', format: dateFormat.format, inferred: true };
+  }
+
+  if (fits(value => parseNumber(value) !== null)) {
+    if (CURRENCY_HEADER.test(header) || filled.some(hasCurrencyMark)) {
+      return { type: 'currency', inferred: true };
+    }
+    const isWhole = filled.every(value => {
+      const text = normalizeNumberText(value);
+      return text === null || !text.includes('.');
+    });
+    return { type: isWhole ? 'integer' : 'decimal', inferred: true };
+  }
+
+  return { type: 'text', inferred: true };
+}
+
+// Column types picked by the user, with the rest inferred again from the
+// current rows so they follow edits
+export function inferSchema(
+  headers: string[],
+  rows: Array<Record<string, string>>,
+  existing: TableSchema = {}
+): TableSchema {
+  const schema: TableSchema = {};
+  headers.forEach(header => {
+    schema[header] = existing[header] && !existing[header].inferred
+      ? existing[header]
+      : inferColumnSchema(header, rows.map(row => row[header]));
+  });
+  return schema;
+}
+
+export function getTableSchema(table: Pick<ExtractedTable, 'headers' | 'rows' | 'schema'>): TableSchema {
+  return inferSchema(table.headers, table.rows, table.schema);
+}
+
+// Typed comparison for sorting. Empty cells sort after values, and values
+// that do not fit the column type after those that do.
+export function compareCells(a: string | undefined, b: string | undefined, schema?: ColumnSchema): number {
+  const left = toTypedValue(a, schema);
+  const right = toTypedValue(b, schema);
+
+  if (left === null || right === null) {
+    return left === right ? 0 : left === null ? 1 : -1;
+  }
+
+  const leftIsText = typeof left === 'string';
+  const rightIsText = typeof right === 'string';
+  if (leftIsText !== rightIsText) return leftIsText ? 1 : -1;
+
+  if (left instanceof Date && right instanceof Date) return left.getTime() - right.getTime();
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+  if (typeof left === 'boolean' && typeof right === 'boolean') return Number(left) - Number(right);
+  return String(left).localeCompare(String(right), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+function parseOperand(value: string, schema: ColumnSchema): number | null {
+  if (schema.type === 'date') {
+    return parseDate(value, schema.format || DATE_FORMATS[0])?.getTime() ?? null;
+  }
+  return parseNumber(value);
+}
+
+// Number and date columns accept "> 1000", "<= 31/03/2024" and ranges like
+// "100..500"; any other filter, or one that does not parse, matches as text
+export function matchesFilter(value: string | undefined, filter: string, schema?: ColumnSchema): boolean {
+  const query = filter.trim();
+  if (!query) return true;
+
+  if (schema && (isNumericType(schema.type) || schema.type === 'date')) {
+    const cell = value ? parseOperand(value, schema) : null;
+    const range = query.match(/^(.+?)\s*\.\.\s*(.+)$/);
+    const comparison = query.match(/^(>=|<=|>|<|=)\s*(.+)$/);
+
+    if (range) {
+      const [from, to] = [parseOperand(range[1], schema), parseOperand(range[2], schema)];
+      if (from !== null && to !== null) return cell !== null && cell >= from && cell <= to;
+    } else if (comparison) {
+      const operand = parseOperand(comparison[2], schema);
+      if (operand !== null) {
+        if (cell === null) return false;
+        switch (comparison[1]) {
+          case '>=': return cell >= operand;
+          case '<=': return cell <= operand;
+          case '>': return cell > operand;
+          case '<': return cell < operand;
+          default: return cell === operand;
+        }
+      }
+    }
+  }
+
+  return (value || '').toLowerCase().includes(query.toLowerCase());
+}
+
+// Short description of the columns for the AI assistant
+export function describeSchema(headers: string[], schema: TableSchema): Array<{ name: string; type: ColumnType; format?: DateFormat }> {
+  return headers.map(header => ({
+    name: header,
+    type: schema[header]?.type || 'text',
+    ...(schema[header]?.format ? { format: schema[header].format } : {})
+  }));
+}
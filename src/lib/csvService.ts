@@ -26,8 +26,9 @@ export class CSVService {
       )
     ].join('\n');
 
-    // Create and download file
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    // Create and download file. The byte order mark makes Excel read the file
+    // as UTF-8; without it Devanagari and other scripts open as mojibake.
+    const blob = new Blob(['\uFEFF' + csvContent], { type: 'text/csv;charset=utf-8;' });
     const link = document.createElement('a');
     
     if (link.download !== undefined) {
@@ -64,4 +65,54 @@ export class CSVService {
 
     this.generateCSVFile(combinedData, filename);
   }
+
+  // Tab-separated text as Excel and Google Sheets put on the clipboard.
+  // Values with a tab, newline or quote are quoted, with quotes doubled.
+  static toTSV(cells: string[][]): string {
+    return cells.map(row =>
+      row.map(value => /[\t\n\r"]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value).join('\t')
+    ).join('\n');
+  }
+
+  // Rows of cells from clipboard text; a trailing newline does not add an
+  // empty row
+  static parseTSV(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let value = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          value += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          value += char;
+        }
+      } else if (char === '"' && value === '') {
+        quoted = true;
+      } else if (char === '\t') {
+        row.push(value);
+        value = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        row.push(value);
+        rows.push(row);
+        row = [];
+        value = '';
+      } else {
+        value += char;
+      }
+    }
+
+    if (value !== '' || row.length > 0) {
+      row.push(value);
+      rows.push(row);
+    }
+    return rows;
+  }
 } 
\ No newline at end of file
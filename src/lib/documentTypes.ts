@@ -0,0 +1,13 @@
+import { DocumentType } from './types';
+
+// Choices for the upload selector; the edge function picks the extraction
+// prompt by `value`
+export const DOCUMENT_TYPES: Array<{ value: DocumentType; label: string }> = [
+  { value: 'general', label: 'सामान्य तालिका / General table' },
+  { value: 'ledger', label: 'हस्तलिखित बही-खाता / Handwritten ledger' },
+  { value: 'invoice', label: 'छपा बिल / Printed invoice' },
+  { value: 'bank_statement', label: 'बैंक स्टेटमेंट / Bank statement' },
+  { value: 'receipt', label: 'रसीद / Receipt' }
+];
+
+export const DEFAULT_DOCUMENT_TYPE: DocumentType = 'general';
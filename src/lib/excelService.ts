@@ -1,6 +1,7 @@
 import * as XLSX from 'xlsx';
 import { saveAs } from 'file-saver';
 import { TableRow as DataRow } from './ocrService';
+import { TableSchema, toTypedValue } from './columnTypes';
 
 export interface ExcelOptions {
   sheetName?: string;
@@ -94,6 +95,92 @@ export class ExcelService {
     saveAs(blob, fileName);
   }
 
+  static generateMultiSheetExcelFile(
+    sheets: Array<{ name: string; headers?: string[]; data: DataRow[]; schema?: TableSchema }>,
+    options: ExcelOptions = {}
+  ): void {
+    const {
+      fileName = 'register_data.xlsx'
+    } = options;
+
+    const workbook = XLSX.utils.book_new();
+    const usedNames = new Set<string>();
+
+    sheets.forEach(({ name, headers, data, schema }, index) => {
+      if (data.length === 0) return;
+
+      const worksheet = schema
+        ? this.createTypedSheet(data, headers || Object.keys(data[0]), schema)
+        : XLSX.utils.json_to_sheet(data, headers ? { header: headers } : undefined);
+      worksheet['!cols'] = this.calculateColumnWidths(data);
+
+      XLSX.utils.book_append_sheet(workbook, worksheet, this.uniqueSheetName(name || `Sheet${index + 1}`, usedNames));
+    });
+
+    if (workbook.SheetNames.length === 0) {
+      throw new Error('No data to export');
+    }
+
+    const excelBuffer = XLSX.write(workbook, { 
+      bookType: 'xlsx', 
+      type: 'array' 
+    });
+    
+    const blob = new Blob([excelBuffer], { 
+      type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' 
+    });
+    
+    saveAs(blob, fileName);
+  }
+
+  // Numbers, amounts, dates and yes/no columns become real Excel values so
+  // they can be summed and sorted; cells that do not fit their type stay text
+  private static createTypedSheet(data: DataRow[], headers: string[], schema: TableSchema): XLSX.WorkSheet {
+    const typedRows = data.map(row => {
+      const typedRow: Record<string, unknown> = {};
+      headers.forEach(header => {
+        typedRow[header] = toTypedValue(String(row[header] ?? ''), schema[header]) ?? '';
+      });
+      return typedRow;
+    });
+
+    const worksheet = XLSX.utils.json_to_sheet(typedRows, { header: headers, dateNF: 'dd/mm/yyyy' });
+
+    // Amounts keep the rupee sign and two decimals
+    headers.forEach((header, col) => {
+      if (schema[header]?.type !== 'currency') return;
+
+      typedRows.forEach((_, row) => {
+        const cell = worksheet[XLSX.utils.encode_cell({ r: row + 1, c: col })];
+        if (cell?.t === 'n') cell.z = '"₹"#,##0.00';
+      });
+    });
+
+    return worksheet;
+  }
+
+  // Excel sheet names are limited to 31 characters, must be unique and
+  // cannot contain : \ / ? * [ ]
+  private static uniqueSheetName(name: string, usedNames: Set<string>): string {
+    const base = name.replace(/[:\\/?*[\]]/g, ' ').trim().slice(0, 31) || 'Sheet';
+    let candidate = base;
+    let suffix = 2;
+
+    while (usedNames.has(candidate.toLowerCase())) {
+      const tail = ` (${suffix++})`;
+      candidate = base.slice(0, 31 - tail.length) + tail;
+    }
+
+    usedNames.add(candidate.toLowerCase());
+    return candidate;
+  }
+
+  // Vowel signs and viramas in Indic scripts combine with the preceding letter
+  // and take no width of their own, so they are not counted
+  private static displayLength(value: string): number {
+    return value.replace(/\p{M}/gu, '').length;
+  }
+
   private static calculateColumnWidths(data: DataRow[]): Array<{ width: number }> {
     if (data.length === 0) return [];
 
@@ -101,12 +188,12 @@ export class ExcelService {
     const columnWidths: Array<{ width: number }> = [];
 
     headers.forEach(header => {
-      let maxLength = header.length;
+      let maxLength = this.displayLength(header);
       
       data.forEach(row => {
-        const cellValue = String(row[header] || '');
-        if (cellValue.length > maxLength) {
-          maxLength = cellValue.length;
+        const cellLength = this.displayLength(String(row[header] || ''));
+        if (cellLength > maxLength) {
+          maxLength = cellLength;
         }
       });
       
@@ -118,6 +205,13 @@ export class ExcelService {
     return columnWidths;
   }
 
+  // Spreadsheets are imported as they are rather than read with OCR
+  static isExcelFile(fileName: string, fileType?: string | null): boolean {
+    return Boolean(fileType?.includes('spreadsheet')) ||
+      fileName.endsWith('.xlsx') ||
+      fileName.endsWith('.xls');
+  }
+
   static parseExcelFile(file: File): Promise<DataRow[]> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
@@ -0,0 +1,119 @@
+import { ExtractedDataContent, ExtractedTable, LedgerMismatch } from './types';
+
+// What may be found in extracted_data.data: the current multi-table shape or
+// the legacy single table
+type StoredExtractedData = {
+  tables?: Array<Partial<ExtractedTable>>;
+  headers?: string[];
+  rows?: Array<Record<string, string>>;
+  pages?: number[];
+} | null;
+
+// Cells below this confidence are flagged for review in the workspace
+export const LOW_CONFIDENCE_THRESHOLD = 80;
+
+// Confidence given to a cell once someone has accepted or edited it
+export const VERIFIED_CONFIDENCE = 100;
+
+function createTableId(): string {
+  return typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `table-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function createTable(
+  headers: string[],
+  rows: Array<Record<string, string>>,
+  options: { name?: string; confidence?: number } = {}
+): ExtractedTable {
+  return {
+    id: createTableId(),
+    name: options.name || 'Table 1',
+    headers,
+    rows,
+    confidence: options.confidence ?? 100
+  };
+}
+
+// Normalise extracted_data.data into a list of tables, upgrading the legacy
+// single-table shape. Always returns at least one (possibly empty) table.
+export function getTables(data: StoredExtractedData, fallbackConfidence = 0): ExtractedTable[] {
+  if (data && Array.isArray(data.tables) && data.tables.length > 0) {
+    return data.tables.map((table, index) => ({
+      ...table,
+      id: table.id || `table-${index + 1}`,
+      name: table.name || `Table ${index + 1}`,
+      headers: table.headers || [],
+      rows: table.rows || [],
+      confidence: table.confidence ?? fallbackConfidence
+    }));
+  }
+
+  return [{
+    id: 'table-1',
+    name: 'Table 1',
+    headers: data?.headers || [],
+    rows: data?.rows || [],
+    confidence: fallbackConfidence,
+    ...(data?.pages ? { pages: data.pages } : {})
+  }];
+}
+
+export function countUncertainCells(table: ExtractedTable, threshold = LOW_CONFIDENCE_THRESHOLD): number {
+  return (table.cellConfidence || []).reduce(
+    (count, cells, rowIndex) => count + table.headers.filter(header =>
+      cells?.[header] !== undefined && cells[header] < threshold && table.rows[rowIndex]
+    ).length,
+    0
+  );
+}
+
+// Balance mismatches found at extraction that nobody has edited or accepted yet
+export function getOpenLedgerMismatches(table: ExtractedTable, threshold = LOW_CONFIDENCE_THRESHOLD): LedgerMismatch[] {
+  const ledger = table.ledger;
+  if (!ledger) return [];
+  return ledger.mismatches.filter(mismatch =>
+    table.rows[mismatch.row] &&
+    (table.cellConfidence?.[mismatch.row]?.[ledger.balanceColumn] ?? 0) < threshold
+  );
+}
+
+// Cell tooltips explaining each open mismatch, aligned with rows
+export function getLedgerNotes(table: ExtractedTable): Array<Record<string, string>> | undefined {
+  const mismatches = getOpenLedgerMismatches(table);
+  if (mismatches.length === 0) return undefined;
+
+  const format = (value: number) => value.toLocaleString('en-IN', { maximumFractionDigits: 2 });
+  const notes: Array<Record<string, string>> = table.rows.map(() => ({}));
+  mismatches.forEach(({ row, written, expected }) => {
+    notes[row][table.ledger.balanceColumn] = `Balance does not add up: written ${format(written)}, expected ${format(expected)}`;
+  });
+  return notes;
+}
+
+// "page 3" or "pages 2, 5 and 7", for notes about PDF pages
+export function describePages(pages: number[]): string {
+  if (pages.length === 1) return `page ${pages[0]}`;
+  return `pages ${pages.slice(0, -1).join(', ')} and ${pages[pages.length - 1]}`;
+}
+
+export function getTotalRows(data: StoredExtractedData): number {
+  return getTables(data).reduce((sum, table) => sum + table.rows.length, 0);
+}
+
+// Row-weighted confidence across all tables, matching the edge function
+export function getOverallConfidence(tables: ExtractedTable[]): number {
+  const totalRows = tables.reduce((sum, table) => sum + table.rows.length, 0);
+  if (totalRows === 0) return tables[0]?.confidence ?? 0;
+  return Math.round(tables.reduce((sum, table) => sum + table.confidence * table.rows.length, 0) / totalRows);
+}
+
+export function replaceTable(
+  tables: ExtractedTable[],
+  tableId: string,
+  changes: Partial<ExtractedTable>
+): ExtractedDataContent {
+  return {
+    tables: tables.map(table => table.id === tableId ? { ...table, ...changes } : table)
+  };
+}
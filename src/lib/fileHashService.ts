@@ -0,0 +1,73 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// An earlier upload with the same content that has extracted data
+export interface ProcessedDocument {
+  documentId: string;
+  filename: string;
+  createdAt: string;
+  extractedDataId: string;
+}
+
+// Uploads are identified by the SHA-256 of their content. The hash is stored
+// on the document, used to warn about files that were already processed, and
+// by the OCR worker as its cache key.
+export class FileHashService {
+  static async hash(file: File): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  // Files that cannot be hashed (e.g. outside a secure context) are left out
+  // and upload without duplicate detection
+  static async hashAll(files: File[]): Promise<Map<File, string>> {
+    const hashes = new Map<File, string>();
+    for (const file of files) {
+      try {
+        hashes.set(file, await this.hash(file));
+      } catch (error) {
+        console.error(`Could not hash ${file.name}:`, error);
+      }
+    }
+    return hashes;
+  }
+
+  // Earliest processed upload for each hash that has one
+  static async findProcessed(userId: string, hashes: string[]): Promise<Map<string, ProcessedDocument>> {
+    const processed = new Map<string, ProcessedDocument>();
+    if (hashes.length === 0) return processed;
+
+    const { data, error } = await supabase
+      .from('documents')
+      .select(`
+        id, filename, created_at, content_hash,
+        extracted:extracted_data (
+          id
+        )
+      `)
+      .eq('user_id', userId)
+      .in('content_hash', hashes)
+      .eq('extracted.is_active', true)
+      .order('created_at', { ascending: true })
+      .returns<Array<{
+        id: string;
+        filename: string;
+        created_at: string;
+        content_hash: string;
+        extracted: Array<{ id: string }>;
+      }>>();
+
+    if (error) throw error;
+
+    (data || []).forEach(document => {
+      if (processed.has(document.content_hash) || document.extracted.length === 0) return;
+      processed.set(document.content_hash, {
+        documentId: document.id,
+        filename: document.filename,
+        createdAt: document.created_at,
+        extractedDataId: document.extracted[0].id
+      });
+    });
+
+    return processed;
+  }
+}
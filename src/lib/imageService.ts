@@ -0,0 +1,351 @@
+import { DocumentPreprocessing } from './types';
+
+// Rectangle as fractions (0-1) of the image it was measured on
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PreprocessOptions {
+  // Extra clockwise turn after EXIF orientation: 0, 90, 180 or 270
+  rotation?: number;
+  // Crop of the rotated image; undefined detects the page, null keeps everything
+  crop?: CropRect | null;
+  deskew?: boolean;
+  enhance?: boolean;
+}
+
+export interface PreprocessResult {
+  blob: Blob;
+  info: DocumentPreprocessing;
+}
+
+// Longest side of the derived image; larger phone photos only slow OCR down
+const MAX_DIMENSION = 2400;
+// Longest side of the copy used for page and skew detection
+const ANALYSIS_DIMENSION = 800;
+const MAX_SKEW_DEGREES = 10;
+
+type ImageSource = ImageBitmap | HTMLCanvasElement;
+
+function createCanvas(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+}
+
+function getContext(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas is not supported in this browser');
+  return context;
+}
+
+export class ImageService {
+  // Formats the browser can decode; anything else (HEIC, TIFF, PDF) is uploaded as is
+  static isPreprocessable(file: File): boolean {
+    return ['image/jpeg', 'image/png', 'image/webp'].includes(file.type);
+  }
+
+  // Decode with the EXIF orientation applied, so sideways phone photos come out upright
+  static loadOriented(file: File): Promise<ImageBitmap> {
+    return createImageBitmap(file, { imageOrientation: 'from-image' });
+  }
+
+  // Draw the image turned clockwise by a multiple of 90°, scaled so that its
+  // longest side is at most maxDimension
+  static renderRotated(source: ImageSource, rotation: number, maxDimension = Infinity): HTMLCanvasElement {
+    const quarter = ((Math.round(rotation / 90) % 4) + 4) % 4;
+    const scale = Math.min(1, maxDimension / Math.max(source.width, source.height));
+    const width = Math.round(source.width * scale);
+    const height = Math.round(source.height * scale);
+    const canvas = quarter % 2 ? createCanvas(height, width) : createCanvas(width, height);
+    const context = getContext(canvas);
+
+    context.imageSmoothingQuality = 'high';
+    context.translate(canvas.width / 2, canvas.height / 2);
+    context.rotate(quarter * Math.PI / 2);
+    context.drawImage(source, -width / 2, -height / 2, width, height);
+    return canvas;
+  }
+
+  // Find the sheet of paper: the largest bright region against a darker
+  // background (table, floor). Returns null when the page already fills the
+  // frame or no clear page is found.
+  static detectPageCrop(source: HTMLCanvasElement): CropRect | null {
+    const { values, width, height } = this.getLuminance(source);
+    const threshold = this.otsuThreshold(values);
+
+    const rowShare = new Array(height).fill(0);
+    for (let y = 0; y < height; y++) {
+      let bright = 0;
+      for (let x = 0; x < width; x++) {
+        if (values[y * width + x] > threshold) bright++;
+      }
+      rowShare[y] = bright / width;
+    }
+    const rows = this.longestRun(rowShare, 0.5);
+    if (!rows) return null;
+
+    const colShare = new Array(width).fill(0);
+    for (let x = 0; x < width; x++) {
+      let bright = 0;
+      for (let y = rows.start; y <= rows.end; y++) {
+        if (values[y * width + x] > threshold) bright++;
+      }
+      colShare[x] = bright / (rows.end - rows.start + 1);
+    }
+    const cols = this.longestRun(colShare, 0.5);
+    if (!cols) return null;
+
+    // Keep a small margin so page edges and marginal notes survive
+    const margin = 0.01;
+    const x = Math.max(0, cols.start / width - margin);
+    const y = Math.max(0, rows.start / height - margin);
+    const crop = {
+      x,
+      y,
+      width: Math.min(1, (cols.end + 1) / width + margin) - x,
+      height: Math.min(1, (rows.end + 1) / height + margin) - y
+    };
+
+    const area = crop.width * crop.height;
+    return area < 0.3 || area > 0.92 ? null : crop;
+  }
+
+  // Estimate how far text lines are tilted, in degrees (positive = sloping
+  // down to the right). Uses the projection profile: ink projected onto the
+  // vertical axis is most sharply peaked when projected along the lines.
+  static detectSkew(source: HTMLCanvasElement): number {
+    const { values, width } = this.getLuminance(source);
+    const threshold = this.otsuThreshold(values);
+    const ink: number[] = [];
+
+    for (let i = 0; i < values.length; i++) {
+      if (values[i] < threshold) ink.push(i);
+    }
+    // Mostly dark means the binarisation failed (e.g. a photo of a photo)
+    if (ink.length === 0 || ink.length > values.length * 0.4) return 0;
+
+    const stride = Math.max(1, Math.floor(ink.length / 30000));
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (let i = 0; i < ink.length; i += stride) {
+      xs.push(ink[i] % width);
+      ys.push(Math.floor(ink[i] / width));
+    }
+
+    const score = (degrees: number) => {
+      const radians = degrees * Math.PI / 180;
+      const sin = Math.sin(radians);
+      const cos = Math.cos(radians);
+      const bins = new Map<number, number>();
+      for (let i = 0; i < xs.length; i++) {
+        const bin = Math.round(ys[i] * cos - xs[i] * sin);
+        bins.set(bin, (bins.get(bin) || 0) + 1);
+      }
+      let sum = 0;
+      bins.forEach(count => { sum += count * count; });
+      return sum;
+    };
+
+    const search = (from: number, to: number, step: number) => {
+      let best = 0;
+      let bestScore = -1;
+      for (let degrees = from; degrees <= to + 1e-9; degrees += step) {
+        const value = score(degrees);
+        if (value > bestScore) {
+          bestScore = value;
+          best = degrees;
+        }
+      }
+      return best;
+    };
+
+    const coarse = search(-MAX_SKEW_DEGREES, MAX_SKEW_DEGREES, 0.5);
+    const fine = search(coarse - 0.5, coarse + 0.5, 0.1);
+    return Math.abs(fine) < 0.2 ? 0 : Math.round(fine * 10) / 10;
+  }
+
+  // Flatten uneven lighting (shadows, curled pages) by dividing out a blurred
+  // background estimate, then stretch the result to the full range
+  static normalizeContrast(canvas: HTMLCanvasElement): void {
+    const { width, height } = canvas;
+    const context = getContext(canvas);
+
+    // Shrinking to a few dozen pixels and scaling back up with smoothing is a
+    // cheap large blur that keeps the lighting and loses the writing
+    const small = createCanvas(width / 48, height / 48);
+    getContext(small).drawImage(canvas, 0, 0, small.width, small.height);
+    const background = createCanvas(width, height);
+    const backgroundContext = getContext(background);
+    backgroundContext.imageSmoothingQuality = 'high';
+    backgroundContext.drawImage(small, 0, 0, width, height);
+
+    const image = context.getImageData(0, 0, width, height);
+    const pixels = image.data;
+    const light = backgroundContext.getImageData(0, 0, width, height).data;
+    const histogram = new Array(256).fill(0);
+
+    for (let i = 0; i < pixels.length; i += 4) {
+      for (let c = 0; c < 3; c++) {
+        pixels[i + c] = Math.min(255, pixels[i + c] * 255 / Math.max(light[i + c], 1));
+      }
+      histogram[Math.round(0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2])]++;
+    }
+
+    // Stretch between the 1st and 99th luminance percentiles
+    const total = pixels.length / 4;
+    let low = 0;
+    let high = 255;
+    for (let count = 0; low < 255 && count + histogram[low] < total * 0.01; low++) count += histogram[low];
+    for (let count = 0; high > 0 && count + histogram[high] < total * 0.01; high--) count += histogram[high];
+    if (high - low < 32) {
+      context.putImageData(image, 0, 0);
+      return;
+    }
+
+    const range = high - low;
+    for (let i = 0; i < pixels.length; i += 4) {
+      for (let c = 0; c < 3; c++) {
+        pixels[i + c] = (pixels[i + c] - low) * 255 / range;
+      }
+    }
+    context.putImageData(image, 0, 0);
+  }
+
+  // Run the whole stage: EXIF orientation -> manual rotation -> page crop ->
+  // downsize -> deskew -> contrast. Returns a JPEG and what was done to it.
+  static async preprocess(file: File, options: PreprocessOptions = {}): Promise<PreprocessResult> {
+    const steps: string[] = ['orient'];
+    const rotation = (((options.rotation || 0) % 360) + 360) % 360;
+
+    const bitmap = await this.loadOriented(file);
+    let canvas = this.renderRotated(bitmap, rotation);
+    bitmap.close();
+    if (rotation) steps.push(`rotate:${rotation}`);
+
+    const crop = options.crop === undefined ? this.detectPageCrop(canvas) : options.crop;
+    if (crop) {
+      canvas = this.cropCanvas(canvas, crop);
+      steps.push('crop');
+    }
+
+    if (Math.max(canvas.width, canvas.height) > MAX_DIMENSION) {
+      canvas = this.renderRotated(canvas, 0, MAX_DIMENSION);
+      steps.push('downsize');
+    }
+
+    let skewAngle = 0;
+    if (options.deskew !== false) {
+      skewAngle = this.detectSkew(canvas);
+      if (skewAngle) {
+        canvas = this.rotateFine(canvas, -skewAngle);
+        steps.push('deskew');
+      }
+    }
+
+    if (options.enhance !== false) {
+      this.normalizeContrast(canvas);
+      steps.push('contrast');
+    }
+
+    const blob = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(result => result ? resolve(result) : reject(new Error('Failed to encode image')), 'image/jpeg', 0.92);
+    });
+
+    return {
+      blob,
+      info: {
+        steps,
+        rotation,
+        crop: crop || null,
+        skewAngle,
+        width: canvas.width,
+        height: canvas.height
+      }
+    };
+  }
+
+  static cropCanvas(source: HTMLCanvasElement, crop: CropRect): HTMLCanvasElement {
+    const sx = Math.round(crop.x * source.width);
+    const sy = Math.round(crop.y * source.height);
+    const canvas = createCanvas(crop.width * source.width, crop.height * source.height);
+    getContext(canvas).drawImage(source, sx, sy, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  }
+
+  // Rotate by a small angle around the centre, keeping the size; uncovered
+  // corners are filled white like paper
+  private static rotateFine(source: HTMLCanvasElement, degrees: number): HTMLCanvasElement {
+    const canvas = createCanvas(source.width, source.height);
+    const context = getContext(canvas);
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.imageSmoothingQuality = 'high';
+    context.translate(canvas.width / 2, canvas.height / 2);
+    context.rotate(degrees * Math.PI / 180);
+    context.drawImage(source, -source.width / 2, -source.height / 2);
+    return canvas;
+  }
+
+  // Grayscale copy scaled down to ANALYSIS_DIMENSION
+  private static getLuminance(source: HTMLCanvasElement): { values: Uint8Array; width: number; height: number } {
+    const small = this.renderRotated(source, 0, ANALYSIS_DIMENSION);
+    const { width, height } = small;
+    const pixels = getContext(small).getImageData(0, 0, width, height).data;
+    const values = new Uint8Array(width * height);
+
+    for (let i = 0; i < values.length; i++) {
+      values[i] = Math.round(0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2]);
+    }
+    return { values, width, height };
+  }
+
+  // Threshold that best separates the luminance histogram into two classes
+  private static otsuThreshold(values: Uint8Array): number {
+    const histogram = new Array(256).fill(0);
+    values.forEach(value => { histogram[value]++; });
+
+    const total = values.length;
+    const sum = histogram.reduce((acc, count, level) => acc + count * level, 0);
+    let sumBackground = 0;
+    let weightBackground = 0;
+    let best = 0;
+    let threshold = 127;
+
+    for (let level = 0; level < 256; level++) {
+      weightBackground += histogram[level];
+      if (weightBackground === 0) continue;
+      const weightForeground = total - weightBackground;
+      if (weightForeground === 0) break;
+
+      sumBackground += level * histogram[level];
+      const meanBackground = sumBackground / weightBackground;
+      const meanForeground = (sum - sumBackground) / weightForeground;
+      const between = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+      if (between > best) {
+        best = between;
+        threshold = level;
+      }
+    }
+    return threshold;
+  }
+
+  private static longestRun(shares: number[], minimum: number): { start: number; end: number } | null {
+    let best: { start: number; end: number } | null = null;
+    let start = -1;
+
+    shares.forEach((share, index) => {
+      if (share >= minimum) {
+        if (start < 0) start = index;
+        if (!best || index - start > best.end - best.start) best = { start, end: index };
+      } else {
+        start = -1;
+      }
+    });
+    return best;
+  }
+}
@@ -0,0 +1,148 @@
+import { DateFormat } from './types';
+import { normalizeDigits } from './languages';
+
+// Day-first is listed first: it wins ties, as in Indian registers
+export const DATE_FORMATS: DateFormat[] = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'];
+
+// Dates are written back in this format when a table is normalised
+export const NORMALIZED_DATE_FORMAT: DateFormat = 'DD/MM/YYYY';
+
+const CURRENCY_MARKS = /₹|\bRs\.?|\bINR\b|रु\.?|रू\.?/gi;
+// "2,500/-" and "2,500/=" are how amounts are closed off in Indian registers
+const AMOUNT_SUFFIX = /\/[-=]\s*$/;
+const PLAIN_NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)$/;
+
+// "2.5 lakh", "3 लाख", "1 करोड" (the nukta is removed before matching)
+const NUMBER_UNITS: Array<{ pattern: RegExp; scale: number }> = [
+  { pattern: /^(lakhs?|lacs?|लाख|લાખ)$/i, scale: 100000 },
+  { pattern: /^(crores?|करोड|कोटी|કરોડ)$/i, scale: 10000000 }
+];
+
+const NUMERIC_DATE = /^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})$/;
+// "12 मार्च 2024", "12-Mar-24", "5th January" and "March 5, 2024"
+const DAY_MONTH_DATE = /^(\d{1,2})(?:st|nd|rd|th)?[\s./-]*([\p{L}\p{M}]+)\.?(?:[\s.,/-]+(\d{4}|\d{2}))?$/u;
+const MONTH_DAY_DATE = /^([\p{L}\p{M}]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}|\d{2}))?$/u;
+
+// Month names in English, Hindi, Marathi and Gujarati, with common spellings
+const MONTH_NAMES: string[][] = [
+  ['jan', 'january', 'जनवरी', 'जानेवारी', 'જાન્યુઆરી'],
+  ['feb', 'february', 'फरवरी', 'फेब्रुवारी', 'ફેબ્રુઆરી'],
+  ['mar', 'march', 'मार्च', 'માર્ચ'],
+  ['apr', 'april', 'अप्रैल', 'अप्रेल', 'एप्रिल', 'એપ્રિલ'],
+  ['may', 'मई', 'मे', 'મે'],
+  ['jun', 'june', 'जून', 'જૂન'],
+  ['jul', 'july', 'जुलाई', 'जुलै', 'જુલાઈ'],
+  ['aug', 'august', 'अगस्त', 'ऑगस्ट', 'ઓગસ્ટ', 'ઑગસ્ટ'],
+  ['sep', 'sept', 'september', 'सितंबर', 'सितम्बर', 'सप्टेंबर', 'સપ્ટેમ્બર'],
+  ['oct', 'october', 'अक्टूबर', 'अक्तूबर', 'ऑक्टोबर', 'ઓક્ટોબર', 'ઑક્ટોબર'],
+  ['nov', 'november', 'नवंबर', 'नवम्बर', 'नोव्हेंबर', 'નવેમ્બર'],
+  ['dec', 'december', 'दिसंबर', 'दिसम्बर', 'डिसेंबर', 'ડિસેમ્બર']
+];
+
+const MONTHS = new Map<string, number>(
+  MONTH_NAMES.flatMap((names, index) => names.map(name => [name, index + 1] as [string, number]))
+);
+
+// Digits in ASCII, without the nukta, so "फ़रवरी" and "फरवरी" match alike
+function clean(value: string): string {
+  return normalizeDigits(value).replace(/़/g, '').trim();
+}
+
+export function hasCurrencyMark(value: string): boolean {
+  return new RegExp(CURRENCY_MARKS.source, 'i').test(value) || AMOUNT_SUFFIX.test(value);
+}
+
+// The number in a cell as plain digits: "1,25,000" -> "125000",
+// "₹ 2,500/-" -> "2500", "Rs. 300.50" -> "300.50", "2.5 lakh" -> "250000".
+// Leading zeros are kept, so "007" stays a bill number. Null when the cell
+// is not a number.
+export function normalizeNumberText(value: string): string | null {
+  const text = clean(value)
+    .replace(CURRENCY_MARKS, '')
+    .replace(AMOUNT_SUFFIX, '')
+    .replace(/,/g, '')
+    .trim();
+
+  const unit = text.match(/^([-+]?\d+\.?\d*)\s*([\p{L}\p{M}]+)$/u);
+  if (unit) {
+    const scale = NUMBER_UNITS.find(({ pattern }) => pattern.test(unit[2]))?.scale;
+    return scale ? String(Math.round(Number(unit[1]) * scale * 100) / 100) : null;
+  }
+
+  if (!PLAIN_NUMBER.test(text)) return null;
+  return text.replace(/^\+/, '').replace(/\.$/, '');
+}
+
+export function parseNumber(value: string): number | null {
+  const text = normalizeNumberText(value);
+  return text === null ? null : Number(text);
+}
+
+// "24" -> 2024 and "98" -> 1998: two-digit years up to ten years ahead are
+// taken as this century
+function expandYear(year: string): number {
+  if (year.length !== 2) return Number(year);
+  const shortYear = Number(year);
+  return 2000 + shortYear <= new Date().getFullYear() + 10 ? 2000 + shortYear : 1900 + shortYear;
+}
+
+function buildDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+// Dates are local midnight so they land on the same day in Excel. The format
+// gives the order of numeric dates; dates with a month name are read whatever
+// the format. referenceYear fills in dates written without one ("12 मार्च").
+export function parseDate(value: string, format: DateFormat, referenceYear?: number): Date | null {
+  const text = clean(value).toLowerCase();
+
+  const numeric = text.match(NUMERIC_DATE);
+  if (numeric) {
+    const [, first, second, third] = numeric;
+    if (format === 'YYYY-MM-DD') {
+      return first.length === 4 ? buildDate(Number(first), Number(second), Number(third)) : null;
+    }
+    if (third.length !== 2 && third.length !== 4) return null;
+    const [day, month] = format === 'DD/MM/YYYY' ? [first, second] : [second, first];
+    return buildDate(expandYear(third), Number(month), Number(day));
+  }
+
+  const dayMonth = text.match(DAY_MONTH_DATE);
+  const monthDay = dayMonth ? null : text.match(MONTH_DAY_DATE);
+  const [day, monthName, year] = dayMonth
+    ? [dayMonth[1], dayMonth[2], dayMonth[3]]
+    : monthDay
+    ? [monthDay[2], monthDay[1], monthDay[3]]
+    : [];
+  const month = monthName ? MONTHS.get(monthName) : undefined;
+  if (!day || !month) return null;
+
+  const fullYear = year ? expandYear(year) : referenceYear;
+  return fullYear ? buildDate(fullYear, month, Number(day)) : null;
+}
+
+// A date written with a month name but no year, such as "12 मार्च"
+export function isYearlessDate(value: string): boolean {
+  return parseDate(value, NORMALIZED_DATE_FORMAT) === null && parseDate(value, NORMALIZED_DATE_FORMAT, 2000) !== null;
+}
+
+export function formatDate(date: Date, format: DateFormat): string {
+  const day = String(date.getDate()).padStart(2, '0');
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const year = String(date.getFullYear());
+  if (format === 'YYYY-MM-DD') return `${year}-${month}-${day}`;
+  return format === 'DD/MM/YYYY' ? `${day}/${month}/${year}` : `${month}/${day}/${year}`;
+}
+
+// The order that reads most of a column's dates. "03/04/2024" fits both
+// day-first and month-first, so columns are decided by their unambiguous
+// dates such as "13/04/2024"; ties go to day-first.
+export function detectDateFormat(values: string[]): { format: DateFormat; matches: number } {
+  return DATE_FORMATS
+    .map(format => ({
+      format,
+      matches: values.filter(value => parseDate(value, format) || isYearlessDate(value)).length
+    }))
+    .reduce((best, candidate) => candidate.matches > best.matches ? candidate : best);
+}
@@ -0,0 +1,130 @@
+import { supabase } from '@/integrations/supabase/client';
+import { JobStatus, OCRJobOptions } from './types';
+
+// A processing_jobs row as shown in the dashboard queue
+export interface QueuedJob {
+  id: string;
+  document_id: string;
+  job_type: string;
+  status: JobStatus;
+  progress: number;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  error_message: string | null;
+  created_at: string;
+  document?: {
+    filename: string;
+  };
+}
+
+// Jobs still worth showing: waiting, running, or stopped and retryable
+const OPEN_STATUSES: JobStatus[] = ['pending', 'processing', 'dead', 'cancelled'];
+
+// OCR runs through the processing_jobs queue: uploads add a pending job and
+// wake the process-ocr worker, which claims jobs, retries failures with
+// backoff and marks jobs dead after max_attempts.
+export class JobQueueService {
+  static async enqueue(
+    userId: string,
+    documentId: string,
+    options?: OCRJobOptions,
+    jobType: 'new_table' | 'reextract' = 'new_table'
+  ): Promise<string> {
+    const { data, error } = await supabase
+      .from('processing_jobs')
+      .insert({
+        user_id: userId,
+        document_id: documentId,
+        job_type: jobType,
+        status: 'pending',
+        options: options ?? null
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    return data.id;
+  }
+
+  // OCR an existing document again. The result is stored as a new, inactive
+  // version of its extracted data for the user to compare and keep or discard.
+  static async reextract(userId: string, documentId: string, options: OCRJobOptions): Promise<string> {
+    const jobId = await this.enqueue(userId, documentId, options, 'reextract');
+    await this.wakeWorker(jobId);
+    return jobId;
+  }
+
+  // The worker replies at once and keeps going in the background. A failed
+  // wake-up is not fatal: the job stays queued for the next call or the cron run.
+  static async wakeWorker(jobId?: string): Promise<void> {
+    const { error } = await supabase.functions.invoke('process-ocr', { body: { jobId } });
+    if (error) {
+      console.error('Could not wake the OCR worker:', error);
+    }
+  }
+
+  static async listOpenJobs(userId: string): Promise<QueuedJob[]> {
+    const { data, error } = await supabase
+      .from('processing_jobs')
+      .select(`
+        id, document_id, job_type, status, progress, attempts, max_attempts, run_after, error_message, created_at,
+        document:documents (
+          filename
+        )
+      `)
+      .eq('user_id', userId)
+      .in('status', OPEN_STATUSES)
+      .not('document_id', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(50)
+      .returns<QueuedJob[]>();
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // A running job finishes its current attempt, but the worker discards the result
+  static async cancel(job: QueuedJob): Promise<void> {
+    const { error } = await supabase
+      .from('processing_jobs')
+      .update({ status: 'cancelled' })
+      .eq('id', job.id)
+      .in('status', ['pending', 'processing']);
+
+    if (error) throw error;
+    // A re-extraction does not change the document, which keeps its current data
+    if (job.job_type === 'reextract') return;
+
+    await supabase
+      .from('documents')
+      .update({ processing_status: 'cancelled' })
+      .eq('id', job.document_id);
+  }
+
+  // Start over with a fresh set of attempts
+  static async retry(job: QueuedJob): Promise<void> {
+    const { error } = await supabase
+      .from('processing_jobs')
+      .update({
+        status: 'pending',
+        attempts: 0,
+        progress: 0,
+        run_after: new Date().toISOString(),
+        error_message: null
+      })
+      .eq('id', job.id)
+      .in('status', ['dead', 'cancelled']);
+
+    if (error) throw error;
+
+    if (job.job_type !== 'reextract') {
+      await supabase
+        .from('documents')
+        .update({ processing_status: 'pending' })
+        .eq('id', job.document_id);
+    }
+
+    await this.wakeWorker(job.id);
+  }
+}
@@ -0,0 +1,42 @@
+// Languages a document can be read in. `code` is the ISO code stored on
+// documents and profiles; `tesseract` is the traineddata name for local OCR.
+export interface OCRLanguage {
+  code: string;
+  label: string;
+  tesseract: string;
+}
+
+export const OCR_LANGUAGES: OCRLanguage[] = [
+  { code: 'en', label: 'English', tesseract: 'eng' },
+  { code: 'hi', label: 'हिन्दी / Hindi', tesseract: 'hin' },
+  { code: 'mr', label: 'मराठी / Marathi', tesseract: 'mar' },
+  { code: 'gu', label: 'ગુજરાતી / Gujarati', tesseract: 'guj' },
+  { code: 'ta', label: 'தமிழ் / Tamil', tesseract: 'tam' }
+];
+
+export const DEFAULT_LANGUAGE = 'en';
+
+export function isOCRLanguage(code: string | null | undefined): boolean {
+  return OCR_LANGUAGES.some(language => language.code === code);
+}
+
+// Languages sent with a document. English is always included because
+// headers, amounts and printed forms are often in Latin script.
+export function getDocumentLanguages(code: string): string[] {
+  return code === DEFAULT_LANGUAGE ? [DEFAULT_LANGUAGE] : [code, DEFAULT_LANGUAGE];
+}
+
+// The language picked for a document, the reverse of getDocumentLanguages
+export function getPrimaryLanguage(languages: string[] | null | undefined): string {
+  return languages?.find(code => code !== DEFAULT_LANGUAGE && isOCRLanguage(code)) || DEFAULT_LANGUAGE;
+}
+
+// Decimal digits of the Indic scripts (Devanagari, Bengali, Gurmukhi, Gujarati,
+// Oriya, Tamil, Telugu, Kannada, Malayalam). Each block starts its digits at
+// U+0xx66 or U+0xxE6, so the low nibble minus 6 is the digit value.
+const INDIC_DIGITS = /[०-९০-৯੦-੯૦-૯୦-୯௦-௯౦-౯೦-೯൦-൯]/g;
+
+// "१२३" -> "123"; other characters are left alone
+export function normalizeDigits(value: string): string {
+  return value.replace(INDIC_DIGITS, digit => String((digit.charCodeAt(0) & 0xF) - 6));
+}
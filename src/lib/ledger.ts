@@ -0,0 +1,109 @@
+import { LedgerCheck, LedgerMismatch } from './types';
+import { normalizeDigits } from './languages';
+
+// The running balance check of the OCR worker
+// (supabase/functions/process-ocr/ledger.ts), redone in the workspace when
+// rows are added, removed or reordered. The columns and the side that raises
+// the balance were found at extraction and are kept; only the walk over the
+// rows is repeated.
+
+// Rounding noise allowed when comparing balances
+const BALANCE_TOLERANCE = 0.01;
+
+// The confidence the worker stores for mismatched balance cells, below the
+// review threshold
+const MISMATCH_CELL_CONFIDENCE = 40;
+
+interface Amount {
+  value: number;
+  // Dr/Cr written next to a balance
+  marker?: 'dr' | 'cr';
+}
+
+const CURRENCY = /₹|रु\.?|rs\.?|inr/g;
+const DEBIT_MARKER = /(?:^|[^a-z])dr\.?$|(?:नामे|नावे|ઉધાર)$/;
+const CREDIT_MARKER = /(?:^|[^a-z])cr\.?$|(?:जमा|જમા)$/;
+
+// "१,२५,०००.५०" -> 125000.5, "(500)" -> -500, "1,200 Dr" -> 1200 marked dr.
+// Empty cells and dashes are null.
+function parseAmount(text: string | undefined): Amount | null {
+  let value = normalizeDigits(text || '').trim().toLowerCase().replace(CURRENCY, '').trim();
+  if (!value || /^[-–—.]+$/.test(value)) return null;
+
+  let marker: Amount['marker'];
+  if (DEBIT_MARKER.test(value)) {
+    marker = 'dr';
+    value = value.replace(DEBIT_MARKER, '').trim();
+  } else if (CREDIT_MARKER.test(value)) {
+    marker = 'cr';
+    value = value.replace(CREDIT_MARKER, '').trim();
+  }
+
+  const negative = /^\(.*\)$/.test(value) || value.startsWith('-');
+  const number = parseFloat(value.replace(/[^\d.]/g, ''));
+  if (isNaN(number)) return null;
+  return { value: negative ? -number : number, marker };
+}
+
+// A written balance in the sign convention of `increasesWith`: a balance on
+// the side that the movement raises is positive
+function signedBalance(amount: Amount, increasesWith: LedgerCheck['balanceIncreasesWith']): number {
+  if (!amount.marker) return amount.value;
+  return amount.marker === (increasesWith === 'credit' ? 'cr' : 'dr') ? amount.value : -amount.value;
+}
+
+// The check made again on rearranged rows, or undefined when no row has a
+// balance left to check. Each row is compared with the previous written
+// balance, as at extraction.
+export function recheckLedger(ledger: LedgerCheck, rows: Array<Record<string, string>>): LedgerCheck | undefined {
+  const { debitColumn, creditColumn, balanceColumn, balanceIncreasesWith } = ledger;
+  const mismatches: LedgerMismatch[] = [];
+  let checkedRows = 0;
+  let previous: number | null = null;
+
+  rows.forEach((row, index) => {
+    const debit = debitColumn ? parseAmount(row[debitColumn])?.value ?? 0 : 0;
+    const credit = creditColumn ? parseAmount(row[creditColumn])?.value ?? 0 : 0;
+    const movement = balanceIncreasesWith === 'credit' ? credit - debit : debit - credit;
+    const written = parseAmount(row[balanceColumn]);
+
+    if (previous === null) {
+      if (written) previous = signedBalance(written, balanceIncreasesWith);
+      return;
+    }
+
+    const expected = Math.round((previous + movement) * 100) / 100;
+    if (!written) {
+      previous = expected;
+      return;
+    }
+
+    const balance = signedBalance(written, balanceIncreasesWith);
+    checkedRows++;
+    if (Math.abs(balance - expected) > BALANCE_TOLERANCE) {
+      mismatches.push({ row: index, written: balance, expected });
+    }
+    previous = balance;
+  });
+
+  return checkedRows > 0 ? { ...ledger, checkedRows, mismatches } : undefined;
+}
+
+// Balance cells that stop adding up once the rows are rearranged get the
+// mismatch confidence, so they show as open. Cells flagged before keep
+// theirs, so the ones the user accepted stay accepted.
+export function flagNewMismatches(
+  ledger: LedgerCheck,
+  cellConfidence: Array<Record<string, number>> | undefined,
+  wasFlagged: (row: number) => boolean
+): Array<Record<string, number>> | undefined {
+  if (!cellConfidence) return cellConfidence;
+
+  const flagged = [...cellConfidence];
+  ledger.mismatches.forEach(({ row }) => {
+    const confidence = flagged[row]?.[ledger.balanceColumn];
+    if (wasFlagged(row) || confidence === undefined) return;
+    flagged[row] = { ...flagged[row], [ledger.balanceColumn]: Math.min(confidence, MISMATCH_CELL_CONFIDENCE) };
+  });
+  return flagged;
+}
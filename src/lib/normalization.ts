@@ -0,0 +1,99 @@
+import { ColumnSchema, ExtractedTable } from './types';
+import { normalizeDigits } from './languages';
+import { getTableSchema, isNumericType } from './columnTypes';
+import {
+  DATE_FORMATS,
+  NORMALIZED_DATE_FORMAT,
+  formatDate,
+  normalizeNumberText,
+  parseDate
+} from './indianFormats';
+
+export interface NormalizationResult {
+  tables: ExtractedTable[];
+  // Cells whose value was rewritten
+  changedCells: number;
+}
+
+// Dates of a column in NORMALIZED_DATE_FORMAT. A date written without a year
+// takes the year of the nearest dated row above it, or below it when there
+// is none, as registers run in date order.
+function normalizeDateColumn(values: string[], columnSchema: ColumnSchema): string[] {
+  const format = columnSchema.format || DATE_FORMATS[0];
+  const dates = values.map(value => value.trim() ? parseDate(value, format) : null);
+
+  return values.map((value, index) => {
+    if (!value.trim()) return value;
+
+    let date = dates[index];
+    if (!date) {
+      const previous = dates.slice(0, index).reverse().find(Boolean);
+      const next = dates.slice(index + 1).find(Boolean);
+      const referenceYear = (previous || next)?.getFullYear();
+      date = referenceYear ? parseDate(value, format, referenceYear) : null;
+    }
+    return date ? formatDate(date, NORMALIZED_DATE_FORMAT) : value;
+  });
+}
+
+function normalizeColumn(values: string[], columnSchema: ColumnSchema): string[] {
+  if (isNumericType(columnSchema.type)) {
+    return values.map(value => normalizeNumberText(value) ?? value);
+  }
+
+  switch (columnSchema.type) {
+    case 'date':
+      return normalizeDateColumn(values, columnSchema);
+    case 'phone':
+      return values.map(normalizeDigits);
+    case 'gstin':
+      return values.map(value => value.replace(/\s/g, '').toUpperCase());
+    default:
+      return values;
+  }
+}
+
+// Rewrite the numbers, amounts and dates of a table in one plain form
+// ("₹ 1,25,000/-" -> "125000", "12-3-24" -> "12/03/2024") according to the
+// column types. The value each changed cell had before is kept in
+// originalValues; a cell normalised twice keeps its first reading.
+export function normalizeTable(table: ExtractedTable): { table: ExtractedTable; changedCells: number } {
+  const schema = getTableSchema(table);
+  const rows = table.rows.map(row => ({ ...row }));
+  const originalValues = table.rows.map((_, index) => ({ ...table.originalValues?.[index] }));
+  let changedCells = 0;
+
+  table.headers.forEach(header => {
+    const values = table.rows.map(row => row[header] || '');
+    const normalized = normalizeColumn(values, schema[header]);
+
+    normalized.forEach((value, index) => {
+      if (value === values[index]) return;
+      rows[index][header] = value;
+      originalValues[index][header] = originalValues[index][header] ?? values[index];
+      changedCells++;
+    });
+
+    // Dates are now day-first whatever order they were read in
+    if (schema[header].type === 'date') {
+      schema[header] = { ...schema[header], format: NORMALIZED_DATE_FORMAT };
+    }
+  });
+
+  if (changedCells === 0) return { table, changedCells };
+
+  return {
+    table: { ...table, rows, originalValues, schema },
+    changedCells
+  };
+}
+
+export function normalizeTables(tables: ExtractedTable[]): NormalizationResult {
+  let changedCells = 0;
+  const normalized = tables.map(table => {
+    const result = normalizeTable(table);
+    changedCells += result.changedCells;
+    return result.table;
+  });
+  return { tables: normalized, changedCells };
+}
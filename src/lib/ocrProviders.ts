@@ -0,0 +1,12 @@
+// OCR engines a document can be re-extracted with; `value` is the provider id
+// in the process-ocr registry. 'default' leaves the choice to the user's
+// provider settings.
+export const OCR_PROVIDERS: Array<{ value: string; label: string }> = [
+  { value: 'default', label: 'Default (provider settings)' },
+  { value: 'gemini', label: 'Google Gemini' },
+  { value: 'document-ai', label: 'Google Document AI' },
+  { value: 'vision', label: 'Google Cloud Vision' },
+  { value: 'tesseract', label: 'Tesseract (local worker)' }
+];
+
+export const DEFAULT_OCR_PROVIDER = 'default';
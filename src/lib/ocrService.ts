@@ -1,4 +1,5 @@
 import { createWorker } from 'tesseract.js';
+import { DEFAULT_LANGUAGE, OCR_LANGUAGES, normalizeDigits } from './languages';
 
 export interface TableRow {
   [key: string]: string;
@@ -14,12 +15,17 @@ export interface OCRResult {
 export class OCRService {
   private worker: any;
 
+  // ISO codes, see OCR_LANGUAGES
+  constructor(private languages: string[] = [DEFAULT_LANGUAGE]) {}
+
   async initialize() {
     try {
-      this.worker = await createWorker('eng+hin');
-      await this.worker.setParameters({
-        tessedit_char_whitelist: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyzअआइईउऊऋएऐओऔकखगघङचछजझञटठडढणतथदधनपफबभमयरलवशषसहक्षत्रज्ञ।,:;/-()₹.+ ',
-      });
+      const traineddata = OCR_LANGUAGES
+        .filter(language => this.languages.includes(language.code))
+        .map(language => language.tesseract);
+      // No character whitelist: Tesseract applies it per code point, which
+      // drops the vowel signs and conjuncts that Indic words are built from
+      this.worker = await createWorker(traineddata.length > 0 ? traineddata.join('+') : 'eng');
       return true;
     } catch (error) {
       console.error('Failed to initialize OCR worker:', error);
@@ -61,8 +67,9 @@ export class OCRService {
       const cleanLine = line.trim();
       if (cleanLine.length === 0) continue;
       
-      // Try different parsing strategies for Indian business records
-      const rowData = this.parseLineToRow(cleanLine);
+      // Try different parsing strategies for Indian business records.
+      // The patterns below match ASCII digits only.
+      const rowData = this.parseLineToRow(normalizeDigits(cleanLine));
       if (Object.keys(rowData).length > 0) {
         tableData.push(rowData);
       }
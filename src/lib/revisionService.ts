@@ -0,0 +1,38 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database, ExtractedTable } from './types';
+import { getTables } from './extractedData';
+
+type RevisionRow = Database['public']['Tables']['extracted_data_revisions']['Row'];
+
+// A revision as listed in the history panel, without its data
+export type RevisionSummary = Omit<RevisionRow, 'data' | 'user_id'>;
+
+// Revisions of extracted_data are written by a database trigger on every
+// save and cannot be changed. Restoring one saves its data again, which
+// adds a new revision, so nothing is lost by restoring.
+export class RevisionService {
+  static async list(extractedDataId: string): Promise<RevisionSummary[]> {
+    const { data, error } = await supabase
+      .from('extracted_data_revisions')
+      .select('id, extracted_data_id, revision_number, confidence, source, note, created_by, created_at')
+      .eq('extracted_data_id', extractedDataId)
+      .order('revision_number', { ascending: false })
+      .returns<RevisionSummary[]>();
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Tables of a revision; revisions saved before multi-table support hold
+  // the legacy single-table shape
+  static async getTables(revisionId: string): Promise<ExtractedTable[]> {
+    const { data, error } = await supabase
+      .from('extracted_data_revisions')
+      .select('data, confidence')
+      .eq('id', revisionId)
+      .single();
+
+    if (error) throw error;
+    return getTables(data.data, data.confidence ?? 0);
+  }
+}
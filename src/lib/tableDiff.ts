@@ -0,0 +1,266 @@
+import { ExtractedTable } from './types';
+
+export type DiffStatus = 'same' | 'changed' | 'added' | 'removed';
+
+export interface CellDiff {
+  before?: string;
+  after?: string;
+  status: DiffStatus;
+}
+
+// One row of the comparison. A matched row keeps its index on both sides; an
+// added row exists only in the new extraction and a removed one only in the current.
+export interface RowDiff {
+  status: DiffStatus;
+  beforeIndex?: number;
+  afterIndex?: number;
+  cells: Record<string, CellDiff>;
+}
+
+export interface TableDiff {
+  name: string;
+  status: DiffStatus;
+  // Current columns first, then those only the new extraction has
+  columns: string[];
+  addedColumns: string[];
+  removedColumns: string[];
+  rows: RowDiff[];
+  changedCells: number;
+  addedRows: number;
+  removedRows: number;
+}
+
+export interface ExtractionDiff {
+  tables: TableDiff[];
+  changedCells: number;
+  addedRows: number;
+  removedRows: number;
+}
+
+// Rows at least this similar are treated as the same row read differently
+const ROW_MATCH_THRESHOLD = 0.5;
+
+// Above this many row pairs the alignment falls back to matching by position
+const MAX_ALIGNMENT_CELLS = 1_000_000;
+
+function normalizeValue(value: string | undefined): string {
+  return (value ?? '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function sameValue(a: string | undefined, b: string | undefined): boolean {
+  return normalizeValue(a) === normalizeValue(b);
+}
+
+// Share of the columns with a value on either side that read the same
+function rowSimilarity(a: Record<string, string>, b: Record<string, string>, columns: string[]): number {
+  let filled = 0;
+  let equal = 0;
+  columns.forEach(column => {
+    if (!normalizeValue(a[column]) && !normalizeValue(b[column])) return;
+    filled++;
+    if (sameValue(a[column], b[column])) equal++;
+  });
+  return filled === 0 ? 1 : equal / filled;
+}
+
+// Pair rows of the two versions in order, maximising total similarity, so an
+// inserted or dropped row does not show every following row as changed
+function alignRows(
+  before: Array<Record<string, string>>,
+  after: Array<Record<string, string>>,
+  columns: string[]
+): Array<[number | undefined, number | undefined]> {
+  const pairs: Array<[number | undefined, number | undefined]> = [];
+
+  if (before.length * after.length > MAX_ALIGNMENT_CELLS) {
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      pairs.push([i < before.length ? i : undefined, i < after.length ? i : undefined]);
+    }
+    return pairs;
+  }
+
+  const width = after.length + 1;
+  const similarity = new Float64Array(before.length * after.length);
+  const score = new Float64Array((before.length + 1) * width);
+
+  for (let i = 1; i <= before.length; i++) {
+    for (let j = 1; j <= after.length; j++) {
+      const sim = rowSimilarity(before[i - 1], after[j - 1], columns);
+      similarity[(i - 1) * after.length + (j - 1)] = sim;
+      score[i * width + j] = Math.max(
+        score[(i - 1) * width + j],
+        score[i * width + j - 1],
+        sim >= ROW_MATCH_THRESHOLD ? score[(i - 1) * width + j - 1] + sim : 0
+      );
+    }
+  }
+
+  let i = before.length;
+  let j = after.length;
+  while (i > 0 || j > 0) {
+    const sim = i > 0 && j > 0 ? similarity[(i - 1) * after.length + (j - 1)] : 0;
+    if (i > 0 && j > 0 && sim >= ROW_MATCH_THRESHOLD && score[i * width + j] === score[(i - 1) * width + j - 1] + sim) {
+      pairs.push([--i, --j]);
+    } else if (j > 0 && (i === 0 || score[i * width + j] === score[i * width + j - 1])) {
+      pairs.push([undefined, --j]);
+    } else {
+      pairs.push([--i, undefined]);
+    }
+  }
+
+  return pairs.reverse();
+}
+
+const EMPTY_TABLE: Pick<ExtractedTable, 'headers' | 'rows'> = { headers: [], rows: [] };
+
+// Compare two versions of one table; diffExtractions pairs up the tables
+// of two extractions and compares each pair with this
+export function diffTable(
+  name: string,
+  before: Pick<ExtractedTable, 'headers' | 'rows'>,
+  after: Pick<ExtractedTable, 'headers' | 'rows'>
+): TableDiff {
+  const addedColumns = after.headers.filter(header => !before.headers.includes(header));
+  const removedColumns = before.headers.filter(header => !after.headers.includes(header));
+  const columns = [...before.headers, ...addedColumns];
+  const sharedColumns = before.headers.filter(header => after.headers.includes(header));
+
+  let changedCells = 0;
+  let addedRows = 0;
+  let removedRows = 0;
+
+  const rows = alignRows(before.rows, after.rows, sharedColumns).map(([beforeIndex, afterIndex]): RowDiff => {
+    const beforeRow = beforeIndex !== undefined ? before.rows[beforeIndex] : undefined;
+    const afterRow = afterIndex !== undefined ? after.rows[afterIndex] : undefined;
+    const cells: Record<string, CellDiff> = {};
+    let rowChanged = false;
+
+    columns.forEach(column => {
+      const cell: CellDiff = {
+        before: beforeRow && before.headers.includes(column) ? beforeRow[column] ?? '' : undefined,
+        after: afterRow && after.headers.includes(column) ? afterRow[column] ?? '' : undefined,
+        status: 'same'
+      };
+
+      if (cell.before === undefined && cell.after !== undefined) {
+        cell.status = 'added';
+      } else if (cell.after === undefined && cell.before !== undefined) {
+        cell.status = 'removed';
+      } else if (!sameValue(cell.before, cell.after)) {
+        cell.status = 'changed';
+      }
+
+      if (beforeRow && afterRow && cell.status !== 'same' && (normalizeValue(cell.before) || normalizeValue(cell.after))) {
+        changedCells++;
+        rowChanged = true;
+      }
+      cells[column] = cell;
+    });
+
+    if (!beforeRow) {
+      addedRows++;
+      return { status: 'added', afterIndex, cells };
+    }
+    if (!afterRow) {
+      removedRows++;
+      return { status: 'removed', beforeIndex, cells };
+    }
+    return { status: rowChanged ? 'changed' : 'same', beforeIndex, afterIndex, cells };
+  });
+
+  const status: DiffStatus = before === EMPTY_TABLE ? 'added'
+    : after === EMPTY_TABLE ? 'removed'
+    : changedCells + addedRows + removedRows + addedColumns.length + removedColumns.length > 0 ? 'changed'
+    : 'same';
+
+  return { name, status, columns, addedColumns, removedColumns, rows, changedCells, addedRows, removedRows };
+}
+
+// Compare the current extraction of a document with a new one. Tables are
+// paired by name, then the rest by position; rows are aligned by content and
+// compared cell by cell, ignoring case and whitespace.
+export function diffExtractions(current: ExtractedTable[], next: ExtractedTable[]): ExtractionDiff {
+  const pairs: Array<[ExtractedTable | undefined, ExtractedTable | undefined]> = [];
+  const unmatched = [...next];
+
+  current.forEach(table => {
+    const index = unmatched.findIndex(candidate => candidate.name === table.name);
+    pairs.push([table, index >= 0 ? unmatched.splice(index, 1)[0] : undefined]);
+  });
+  pairs.forEach(pair => {
+    if (!pair[1] && unmatched.length > 0) pair[1] = unmatched.shift();
+  });
+  unmatched.forEach(table => pairs.push([undefined, table]));
+
+  const tables = pairs.map(([before, after]) =>
+    diffTable(before?.name || after?.name || '', before || EMPTY_TABLE, after || EMPTY_TABLE)
+  );
+
+  return {
+    tables,
+    changedCells: tables.reduce((sum, table) => sum + table.changedCells, 0),
+    addedRows: tables.reduce((sum, table) => sum + table.addedRows, 0),
+    removedRows: tables.reduce((sum, table) => sum + table.removedRows, 0)
+  };
+}
+
+// One line for a revision note: the cell when a single one changed,
+// otherwise counts of what changed. Notes are written on every save, so rows
+// are compared by position rather than aligned as in diffExtractions, and
+// only when the row count is unchanged, since rows added or removed shift
+// every row after them.
+export function summarizeChange(current: ExtractedTable[], next: ExtractedTable[]): string {
+  let changedCells = 0;
+  let addedRows = 0;
+  let removedRows = 0;
+  let addedColumns = 0;
+  let removedColumns = 0;
+  let editedCell = '';
+
+  const unmatched = [...next];
+  const pairs = current.map((table): [ExtractedTable, ExtractedTable | undefined] => {
+    const index = unmatched.findIndex(candidate => candidate.name === table.name);
+    return [table, index >= 0 ? unmatched.splice(index, 1)[0] : unmatched.shift()];
+  });
+  unmatched.forEach(table => {
+    addedRows += table.rows.length;
+    addedColumns += table.headers.length;
+  });
+
+  pairs.forEach(([before, after]) => {
+    if (!after) {
+      removedRows += before.rows.length;
+      removedColumns += before.headers.length;
+      return;
+    }
+    const sharedColumns = before.headers.filter(header => after.headers.includes(header));
+    addedColumns += after.headers.length - sharedColumns.length;
+    removedColumns += before.headers.length - sharedColumns.length;
+    addedRows += Math.max(0, after.rows.length - before.rows.length);
+    removedRows += Math.max(0, before.rows.length - after.rows.length);
+
+    if (before.rows.length !== after.rows.length) return;
+    for (let row = 0; row < after.rows.length; row++) {
+      if (before.rows[row] === after.rows[row]) continue;
+      sharedColumns.forEach(column => {
+        if (sameValue(before.rows[row][column], after.rows[row][column])) return;
+        changedCells++;
+        const where = next.length > 1 ? ` of ${after.name}` : '';
+        editedCell = `Edited ${column} in row ${row + 1}${where}`;
+      });
+    }
+  });
+
+  if (changedCells === 1 && addedRows + removedRows === 0) return editedCell;
+
+  const count = (value: number, noun: string) => `${value} ${noun}${value === 1 ? '' : 's'}`;
+  const parts = [
+    changedCells > 0 && `${count(changedCells, 'cell')} changed`,
+    addedRows > 0 && `${count(addedRows, 'row')} added`,
+    removedRows > 0 && `${count(removedRows, 'row')} removed`,
+    addedColumns > 0 && `${count(addedColumns, 'column')} added`,
+    removedColumns > 0 && `${count(removedColumns, 'column')} removed`
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(', ') : 'Updated review marks or column settings';
+}
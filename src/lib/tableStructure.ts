@@ -0,0 +1,175 @@
+import { CellBox, ColumnSchema, LedgerCheck } from './types';
+import { compareCells, inferColumnSchema } from './columnTypes';
+import { flagNewMismatches, recheckLedger } from './ledger';
+
+// The parts of a table that depend on its rows and columns. Row-aligned
+// arrays move with their rows and everything keyed by header follows its
+// column, so confidence, source regions, values as read and column types
+// stay with the cells they describe.
+export interface StructuredTable {
+  headers: string[];
+  rows: Array<Record<string, string>>;
+  cellConfidence?: Array<Record<string, number>>;
+  cellBoxes?: Array<Record<string, CellBox>>;
+  originalValues?: Array<Record<string, string>>;
+  schema?: Record<string, ColumnSchema>;
+  ledger?: LedgerCheck;
+}
+
+// Also used for a new column's name
+const DEFAULT_COLUMN_NAME = 'Column';
+
+function moveItem<V>(list: V[], from: number, to: number): V[] {
+  const moved = [...list];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+}
+
+// Rebuild the rows from their old indexes; null makes an empty row. Each
+// balance is checked against the row above it, so the ledger check is made
+// again on the new order.
+function arrangeRows<T extends StructuredTable>(table: T, order: Array<number | null>): T {
+  const pick = <V extends object>(list?: V[]) =>
+    list && order.map(index => (index === null ? undefined : list[index]) ?? ({} as V));
+  const rows = order.map(index => index === null
+    ? Object.fromEntries(table.headers.map(header => [header, '']))
+    : { ...table.rows[index] });
+  const flagged = new Set(table.ledger?.mismatches.map(mismatch => mismatch.row));
+  const ledger = table.ledger && recheckLedger(table.ledger, rows);
+
+  return {
+    ...table,
+    rows,
+    cellConfidence: ledger
+      ? flagNewMismatches(ledger, pick(table.cellConfidence), row => order[row] !== null && flagged.has(order[row]))
+      : pick(table.cellConfidence),
+    cellBoxes: pick(table.cellBoxes),
+    originalValues: pick(table.originalValues),
+    ledger
+  };
+}
+
+// Give every header-keyed value its new column; columns renamed to null are
+// removed
+function rekeyColumns<T extends StructuredTable>(
+  table: T,
+  headers: string[],
+  renames: Record<string, string | null>
+): T {
+  const rekey = <V>(record: Record<string, V>) => {
+    const result: Record<string, V> = {};
+    Object.entries(record).forEach(([key, value]) => {
+      const target = key in renames ? renames[key] : key;
+      if (target !== null) result[target] = value;
+    });
+    return result;
+  };
+  const rekeyAll = <V>(list?: Array<Record<string, V>>) => list?.map(rekey);
+
+  const ledger = table.ledger;
+  const ledgerColumns = ledger
+    ? [ledger.balanceColumn, ledger.debitColumn, ledger.creditColumn].filter((column): column is string => !!column)
+    : [];
+  const keepsLedger = ledgerColumns.every(column => renames[column] !== null);
+  const renamed = (column?: string) => column && column in renames ? renames[column] ?? undefined : column;
+
+  return {
+    ...table,
+    headers,
+    rows: table.rows.map(rekey),
+    cellConfidence: rekeyAll(table.cellConfidence),
+    cellBoxes: rekeyAll(table.cellBoxes),
+    originalValues: rekeyAll(table.originalValues),
+    schema: table.schema && rekey(table.schema),
+    ledger: ledger && keepsLedger ? {
+      ...ledger,
+      balanceColumn: renamed(ledger.balanceColumn) as string,
+      debitColumn: renamed(ledger.debitColumn),
+      creditColumn: renamed(ledger.creditColumn)
+    } : undefined
+  };
+}
+
+// Why a header name cannot be used, or null when it can. Rows are keyed by
+// header, so names must be unique.
+export function getHeaderNameError(headers: string[], name: string, current?: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Column name cannot be empty';
+  if (trimmed !== current && headers.includes(trimmed)) return `There is already a column named "${trimmed}"`;
+  return null;
+}
+
+// "Column 4", or the next free number
+export function getNewHeaderName(headers: string[]): string {
+  let number = headers.length + 1;
+  while (headers.includes(`${DEFAULT_COLUMN_NAME} ${number}`)) number++;
+  return `${DEFAULT_COLUMN_NAME} ${number}`;
+}
+
+export function renameColumn<T extends StructuredTable>(table: T, from: string, to: string): T {
+  const name = to.trim();
+  if (name === from) return table;
+  return rekeyColumns(table, table.headers.map(header => header === from ? name : header), { [from]: name });
+}
+
+// An empty column at the given position
+export function insertColumn<T extends StructuredTable>(table: T, index: number, name = getNewHeaderName(table.headers)): T {
+  const headers = [...table.headers];
+  headers.splice(index, 0, name);
+  return {
+    ...table,
+    headers,
+    rows: table.rows.map(row => ({ ...row, [name]: '' }))
+  };
+}
+
+export function deleteColumns<T extends StructuredTable>(table: T, columns: string[]): T {
+  return rekeyColumns(
+    table,
+    table.headers.filter(header => !columns.includes(header)),
+    Object.fromEntries(columns.map(column => [column, null]))
+  );
+}
+
+export function moveColumn<T extends StructuredTable>(table: T, from: number, to: number): T {
+  if (from === to) return table;
+  return { ...table, headers: moveItem(table.headers, from, to) };
+}
+
+// An empty row at the given position
+export function insertRow<T extends StructuredTable>(table: T, index: number): T {
+  const order: Array<number | null> = table.rows.map((_, row) => row);
+  order.splice(index, 0, null);
+  return arrangeRows(table, order);
+}
+
+// A copy of the row, with its confidence and regions, right below it
+export function duplicateRow<T extends StructuredTable>(table: T, index: number): T {
+  const order = table.rows.map((_, row) => row);
+  order.splice(index + 1, 0, index);
+  return arrangeRows(table, order);
+}
+
+export function deleteRows<T extends StructuredTable>(table: T, indexes: number[]): T {
+  return arrangeRows(table, table.rows.map((_, row) => row).filter(row => !indexes.includes(row)));
+}
+
+export function moveRow<T extends StructuredTable>(table: T, from: number, to: number): T {
+  if (from === to) return table;
+  return arrangeRows(table, moveItem(table.rows.map((_, row) => row), from, to));
+}
+
+// Rows in the order of a column's values, compared by the column's type
+// (inferred when it has none). Empty cells go last either way, and rows
+// with equal values keep their order.
+export function sortRows<T extends StructuredTable>(table: T, column: string, direction: 'asc' | 'desc'): T {
+  const schema = table.schema?.[column] ?? inferColumnSchema(column, table.rows.map(row => row[column]));
+  const isEmpty = (row: number) => !table.rows[row][column]?.trim();
+  const order = table.rows.map((_, row) => row).sort((a, b) => {
+    if (isEmpty(a) !== isEmpty(b)) return isEmpty(a) ? 1 : -1;
+    const compared = compareCells(table.rows[a][column], table.rows[b][column], schema);
+    return (direction === 'asc' ? compared : -compared) || a - b;
+  });
+  return arrangeRows(table, order);
+}
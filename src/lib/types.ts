@@ -42,6 +42,11 @@ export interface Database {
           file_path: string
           file_size: number | null
           file_type: string | null
+          processed_file_path: string | null
+          preprocessing: DocumentPreprocessing | null
+          content_hash: string | null
+          languages: string[]
+          document_type: DocumentType
           upload_status: string
           processing_status: string
           created_at: string
@@ -54,6 +59,11 @@ export interface Database {
           file_path: string
           file_size?: number | null
           file_type?: string | null
+          processed_file_path?: string | null
+          preprocessing?: DocumentPreprocessing | null
+          content_hash?: string | null
+          languages?: string[]
+          document_type?: DocumentType
           upload_status?: string
           processing_status?: string
           created_at?: string
@@ -66,6 +76,11 @@ export interface Database {
           file_path?: string
           file_size?: number | null
           file_type?: string | null
+          processed_file_path?: string | null
+          preprocessing?: DocumentPreprocessing | null
+          content_hash?: string | null
+          languages?: string[]
+          document_type?: DocumentType
           upload_status?: string
           processing_status?: string
           created_at?: string
@@ -81,6 +96,10 @@ export interface Database {
           data: any
           confidence: number
           is_edited: boolean
+          version: number
+          is_active: boolean
+          change_note: string | null
+          failed_pages: number[]
           created_at: string
           updated_at: string
         }
@@ -92,6 +111,10 @@ export interface Database {
           data: any
           confidence?: number
           is_edited?: boolean
+          version?: number
+          is_active?: boolean
+          change_note?: string | null
+          failed_pages?: number[]
           created_at?: string
           updated_at?: string
         }
@@ -103,10 +126,31 @@ export interface Database {
           data?: any
           confidence?: number
           is_edited?: boolean
+          version?: number
+          is_active?: boolean
+          change_note?: string | null
+          failed_pages?: number[]
           created_at?: string
           updated_at?: string
         }
       }
+      extracted_data_revisions: {
+        Row: {
+          id: string
+          extracted_data_id: string
+          user_id: string
+          revision_number: number
+          data: unknown
+          confidence: number | null
+          source: RevisionSource
+          note: string | null
+          created_by: string | null
+          created_at: string
+        }
+        // Written only by a trigger on extracted_data
+        Insert: never
+        Update: never
+      }
       processing_jobs: {
         Row: {
           id: string
@@ -114,10 +158,16 @@ export interface Database {
           document_id: string | null
           excel_sheet_id: string | null
           job_type: string
-          status: string
+          status: JobStatus
           progress: number
           result_data: any | null
           error_message: string | null
+          attempts: number
+          max_attempts: number
+          run_after: string
+          locked_at: string | null
+          locked_by: string | null
+          options: OCRJobOptions | null
           created_at: string
           updated_at: string
         }
@@ -127,10 +177,16 @@ export interface Database {
           document_id?: string | null
           excel_sheet_id?: string | null
           job_type: string
-          status?: string
+          status?: JobStatus
           progress?: number
           result_data?: any | null
           error_message?: string | null
+          attempts?: number
+          max_attempts?: number
+          run_after?: string
+          locked_at?: string | null
+          locked_by?: string | null
+          options?: OCRJobOptions | null
           created_at?: string
           updated_at?: string
         }
@@ -140,13 +196,109 @@ export interface Database {
           document_id?: string | null
           excel_sheet_id?: string | null
           job_type?: string
-          status?: string
+          status?: JobStatus
           progress?: number
           result_data?: any | null
           error_message?: string | null
+          attempts?: number
+          max_attempts?: number
+          run_after?: string
+          locked_at?: string | null
+          locked_by?: string | null
+          options?: OCRJobOptions | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      ocr_provider_settings: {
+        Row: {
+          id: string
+          user_id: string
+          file_kind: 'image' | 'pdf' | '*'
+          document_type: DocumentType | '*'
+          provider_chain: string[]
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          file_kind?: 'image' | 'pdf' | '*'
+          document_type?: DocumentType | '*'
+          provider_chain: string[]
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          file_kind?: 'image' | 'pdf' | '*'
+          document_type?: DocumentType | '*'
+          provider_chain?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      ocr_result_cache: {
+        Row: {
+          id: string
+          user_id: string
+          cache_key: string
+          content_hash: string
+          provider_chain: string[]
+          tables: unknown
+          failed_pages: number[]
+          hit_count: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          cache_key: string
+          content_hash: string
+          provider_chain: string[]
+          tables: unknown
+          failed_pages?: number[]
+          hit_count?: number
           created_at?: string
           updated_at?: string
         }
+        Update: {
+          id?: string
+          user_id?: string
+          cache_key?: string
+          content_hash?: string
+          provider_chain?: string[]
+          tables?: unknown
+          failed_pages?: number[]
+          hit_count?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      processing_job_pages: {
+        Row: {
+          job_id: string
+          page_number: number
+          page_count: number
+          tables: unknown
+          created_at: string
+        }
+        Insert: {
+          job_id: string
+          page_number: number
+          page_count: number
+          tables: unknown
+          created_at?: string
+        }
+        Update: {
+          job_id?: string
+          page_number?: number
+          page_count?: number
+          tables?: unknown
+          created_at?: string
+        }
       }
       ai_conversations: {
         Row: {
@@ -216,7 +368,7 @@ export interface Database {
           message_id: string | null
           action_type: 'cell_edit' | 'formula_add' | 'data_transform' | 'export' | 'analysis'
           action_data: any
-          status: 'pending' | 'completed' | 'failed'
+          status: 'pending' | 'completed' | 'failed' | 'rejected'
           result_data: any | null
           error_message: string | null
           created_at: string
@@ -228,7 +380,7 @@ export interface Database {
           message_id?: string | null
           action_type: 'cell_edit' | 'formula_add' | 'data_transform' | 'export' | 'analysis'
           action_data?: any
-          status?: 'pending' | 'completed' | 'failed'
+          status?: 'pending' | 'completed' | 'failed' | 'rejected'
           result_data?: any | null
           error_message?: string | null
           created_at?: string
@@ -240,7 +392,7 @@ export interface Database {
           message_id?: string | null
           action_type?: 'cell_edit' | 'formula_add' | 'data_transform' | 'export' | 'analysis'
           action_data?: any
-          status?: 'pending' | 'completed' | 'failed'
+          status?: 'pending' | 'completed' | 'failed' | 'rejected'
           result_data?: any | null
           error_message?: string | null
           created_at?: string
@@ -249,4 +401,171 @@ export interface Database {
       }
     }
   }
-}
\ No newline at end of file
+}
+// One table extracted from a document
+// How the stored derived image (documents.processed_file_path) was produced
+export interface DocumentPreprocessing {
+  steps: string[]
+  // Manual quarter turns applied after EXIF orientation, clockwise
+  rotation: number
+  // Page crop as fractions of the oriented image, null when not cropped
+  crop: { x: number; y: number; width: number; height: number } | null
+  // Degrees the content was rotated back to level
+  skewAngle: number
+  width: number
+  height: number
+}
+
+// Source region of a cell as fractions (0-1) of the page; page is 1-based for PDFs
+export interface CellBox {
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+  page?: number
+}
+
+// How a revision of extracted data came about: the first OCR result, a
+// spreadsheet import, or a later save (edits, AI changes, restores)
+export type RevisionSource = 'ocr' | 'import' | 'edit'
+
+// processing_jobs.status. Failed attempts go back to 'pending' with a later
+// run_after; 'dead' jobs used up max_attempts and keep the last error_message.
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'dead' | 'cancelled'
+
+// Optional per-job settings in processing_jobs.options; a re-extraction uses
+// them to override the document's own languages and type
+export interface OCRJobOptions {
+  providers?: string[]
+  languages?: string[]
+  documentType?: DocumentType
+}
+
+// Chosen on upload; selects the extraction prompt and post-processing
+export type DocumentType = 'general' | 'ledger' | 'invoice' | 'bank_statement' | 'receipt'
+
+// A written balance that does not equal the previous balance plus the row's movement
+export interface LedgerMismatch {
+  row: number
+  written: number
+  expected: number
+}
+
+// Running balance check of a ledger or bank statement, done at extraction
+export interface LedgerCheck {
+  debitColumn?: string
+  creditColumn?: string
+  balanceColumn: string
+  balanceIncreasesWith: 'credit' | 'debit'
+  checkedRows: number
+  mismatches: LedgerMismatch[]
+}
+
+// Kind of value a column holds; drives sorting, filtering, validation and
+// typed Excel cells
+export type ColumnType = 'text' | 'integer' | 'decimal' | 'currency' | 'date' | 'phone' | 'gstin' | 'boolean'
+
+// Order of day, month and year in a date column, whatever the separator
+export type DateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD'
+
+export interface ColumnSchema {
+  type: ColumnType
+  // Date columns only
+  format?: DateFormat
+  // Guessed from the values; false once the user picks the type
+  inferred: boolean
+}
+
+export interface ExtractedTable {
+  id: string
+  name: string
+  headers: string[]
+  rows: Array<Record<string, string>>
+  confidence: number
+  // Per-cell confidence (0-100) aligned with rows; accepted cells are set to 100
+  cellConfidence?: Array<Record<string, number>>
+  // Per-cell source regions aligned with rows, for the source viewer
+  cellBoxes?: Array<Record<string, CellBox>>
+  pages?: number[]
+  provider?: string
+  ledger?: LedgerCheck
+  // Cells as read before normalisation, aligned with rows; only changed
+  // cells are present
+  originalValues?: Array<Record<string, string>>
+  // Column types by header. Only the ones picked by the user are kept as
+  // they are; the others are inferred again from the rows when read.
+  schema?: Record<string, ColumnSchema>
+}
+
+// An edit proposed by the AI assistant, stored in ai_actions.action_data.
+// Rows are numbered from 1 as shown to the user; operations of one reply run
+// in order, each on the table left by the one before.
+export type AIOperation =
+  | { op: 'set_cells'; cells: Array<{ row: number; column: string; value: string }> }
+  | { op: 'add_column'; name: string; expression: string; after?: string }
+  | { op: 'delete_rows'; rows: number[] }
+  | { op: 'rename_column'; from: string; to: string }
+  | { op: 'sort_rows'; column: string; direction: 'asc' | 'desc' }
+
+export interface AIActionData {
+  operation: AIOperation
+  description: string
+  // Position in the reply, from 1
+  step: number
+}
+
+// A chart drawn by the assistant's create_chart tool, one value per label
+export interface AIChart {
+  type: 'bar' | 'line' | 'pie'
+  title: string
+  labelColumn: string
+  valueLabel: string
+  points: Array<{ label: string; value: number }>
+}
+
+// A condition of one of the assistant's tool calls, as in its where input
+export interface AIRowCondition {
+  column: string
+  operator: string
+  value?: string
+}
+
+// A file prepared by the assistant's export tool, downloaded on request.
+// The rows are picked from the table at download by the conditions; exports
+// stored before that hold the rows themselves.
+export interface AIExport {
+  format: 'csv' | 'xlsx'
+  filename: string
+  headers: string[]
+  where?: AIRowCondition[]
+  // Rows that met the conditions when the tool ran
+  rowCount?: number
+  rows?: Array<Record<string, string>>
+}
+
+// A tool the assistant ran on the table while answering, with its result
+export interface AIToolCall {
+  name: string
+  input: unknown
+  result?: unknown
+  error?: string
+}
+
+// ai_messages.metadata of an assistant reply
+export interface AIMessageMetadata {
+  toolCalls?: AIToolCall[]
+  charts?: AIChart[]
+  exports?: AIExport[]
+  // How much of the table the model was given; large tables are cut down
+  // to the rows matching the question and a sample
+  context?: { includedRows: number; totalRows: number; matchedRows: number }
+  // The user stopped the reply; it holds what was generated until then
+  stopped?: boolean
+  timestamp?: string
+}
+
+// Shape of extracted_data.data. Rows written before multi-table support hold
+// a single `{ headers, rows }` table instead; read them through getTables().
+export interface ExtractedDataContent {
+  tables: ExtractedTable[]
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { Navigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
@@ -9,6 +9,17 @@ import { CSVService } from '@/lib/csvService';
 import DashboardSidebar from '@/components/dashboard/DashboardSidebar';
 import DashboardHome from '@/components/dashboard/DashboardHome';
 import DashboardFiles from '@/components/dashboard/DashboardFiles';
+import ImagePreprocessDialog from '@/components/dashboard/ImagePreprocessDialog';
+import ReextractDialog from '@/components/dashboard/ReextractDialog';
+import DuplicateFilesDialog, { DuplicateFile } from '@/components/dashboard/DuplicateFilesDialog';
+import { FileHashService } from '@/lib/fileHashService';
+import { ImageService, PreprocessOptions, PreprocessResult } from '@/lib/imageService';
+import { DEFAULT_LANGUAGE, getDocumentLanguages, isOCRLanguage } from '@/lib/languages';
+import { DEFAULT_DOCUMENT_TYPE } from '@/lib/documentTypes';
+import { JobQueueService, QueuedJob } from '@/lib/jobQueueService';
+import { DocumentType, ExtractedDataContent, OCRJobOptions } from '@/lib/types';
+import { createTable, getTables } from '@/lib/extractedData';
+import { getTableSchema } from '@/lib/columnTypes';
 import { 
   FileText, 
   LogOut
@@ -17,16 +28,17 @@ import {
 interface ExtractedData {
   id: string;
   document_id: string;
-  data: {
-    headers: string[];
-    rows: Array<Record<string, string>>;
-  };
+  data: ExtractedDataContent;
   confidence: number;
   is_edited: boolean;
+  failed_pages: number[];
   created_at: string;
   updated_at: string;
   document?: {
     filename: string;
+    file_type: string | null;
+    languages: string[] | null;
+    document_type: DocumentType | null;
   };
 }
 
@@ -39,7 +51,24 @@ export default function Dashboard() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingProgress, setProcessingProgress] = useState(0);
   const [processingFiles, setProcessingFiles] = useState<Map<string, number>>(new Map());
+  // OCR jobs that are queued, running, dead or cancelled
+  const [queuedJobs, setQueuedJobs] = useState<QueuedJob[]>([]);
   const [activeTab, setActiveTab] = useState<'home' | 'files'>('home');
+  // Language of the next upload, defaults to the profile language
+  const [ocrLanguage, setOcrLanguage] = useState(DEFAULT_LANGUAGE);
+  const [documentType, setDocumentType] = useState<DocumentType>(DEFAULT_DOCUMENT_TYPE);
+  // Content hashes of the files being uploaded
+  const [fileHashes, setFileHashes] = useState<Map<File, string>>(new Map());
+  // Selection with files that were already processed, waiting for the user
+  const [duplicateCheck, setDuplicateCheck] = useState<{ files: File[]; duplicates: DuplicateFile[] } | null>(null);
+  // Photos waiting for the user to confirm rotation/crop before upload
+  const [pendingFiles, setPendingFiles] = useState<File[] | null>(null);
+  // File whose document is about to be read again
+  const [reextractFile, setReextractFile] = useState<ExtractedData | null>(null);
+  const pendingImages = useMemo(
+    () => (pendingFiles || []).filter(file => ImageService.isPreprocessable(file)),
+    [pendingFiles]
+  );
   
   // Redirect if not authenticated
   if (!user) {
@@ -48,6 +77,8 @@ export default function Dashboard() {
 
   useEffect(() => {
     loadExtractedData();
+    loadJobs();
+    loadProfileLanguage();
     
     // Set up realtime subscription for processing updates
     const subscription = supabase
@@ -73,14 +104,20 @@ export default function Dashboard() {
     if (payload.new && payload.new.document_id) {
       const progress = payload.new.progress || 0;
       setProcessingFiles(prev => new Map(prev).set(payload.new.document_id, progress));
+      updateQueuedJob(payload.new);
       
-      if (payload.new.status === 'completed') {
+      if (payload.new.status === 'completed' && payload.new.job_type === 'reextract') {
+        toast({
+          title: "नया संस्करण तैयार / New Version Ready",
+          description: "फाइल खोलकर तुलना करें / Open the file to compare it with the current data",
+        });
+      } else if (payload.new.status === 'completed') {
         loadExtractedData();
         toast({
           title: "प्रोसेसिंग पूर्ण / Processing Complete",
           description: "आपका डेटा तैयार है / Your data is ready",
         });
-      } else if (payload.new.status === 'failed') {
+      } else if (payload.new.status === 'dead') {
         toast({
           title: "प्रोसेसिंग असफल / Processing Failed",
           description: payload.new.error_message || "कुछ गलत हुआ / Something went wrong",
@@ -90,6 +127,70 @@ export default function Dashboard() {
     }
   };
 
+  // Keep the queue list in step with realtime job updates
+  const updateQueuedJob = (job: QueuedJob) => {
+    setQueuedJobs(prev => {
+      if (!prev.some(item => item.id === job.id)) {
+        if (job.status !== 'completed') loadJobs();
+        return prev;
+      }
+      return job.status === 'completed'
+        ? prev.filter(item => item.id !== job.id)
+        : prev.map(item => item.id === job.id ? { ...item, ...job, document: item.document } : item);
+    });
+  };
+
+  const loadJobs = async () => {
+    try {
+      setQueuedJobs(await JobQueueService.listOpenJobs(user.id));
+    } catch (error) {
+      console.error('Error loading jobs:', error);
+    }
+  };
+
+  const cancelJob = async (job: QueuedJob) => {
+    try {
+      await JobQueueService.cancel(job);
+      loadJobs();
+    } catch (error) {
+      toast({
+        title: "त्रुटि / Error",
+        description: "रद्द करने में असफल / Failed to cancel processing",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const retryJob = async (job: QueuedJob) => {
+    try {
+      await JobQueueService.retry(job);
+      loadJobs();
+    } catch (error) {
+      toast({
+        title: "त्रुटि / Error",
+        description: "दोबारा शुरू करने में असफल / Failed to retry processing",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const loadProfileLanguage = async () => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('language')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading profile:', error);
+      return;
+    }
+
+    if (isOCRLanguage(data?.language)) {
+      setOcrLanguage(data.language);
+    }
+  };
+
   const loadExtractedData = async () => {
     setIsLoading(true);
     try {
@@ -98,15 +199,22 @@ export default function Dashboard() {
         .select(`
           *,
           document:documents (
-            filename
+            filename,
+            file_type,
+            languages,
+            document_type
           )
         `)
         .eq('user_id', user.id)
+        .eq('is_active', true)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
       
-      setExtractedDataList(data || []);
+      setExtractedDataList((data || []).map(item => ({
+        ...item,
+        data: { tables: getTables(item.data, item.confidence) }
+      })));
     } catch (error) {
       console.error('Error loading data:', error);
       toast({
@@ -120,10 +228,66 @@ export default function Dashboard() {
   };
 
   const processFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (!files || files.length === 0) return;
+    const files = Array.from(event.target.files || []);
+    event.target.value = ''; // Reset file input
+    if (files.length === 0) return;
+
+    // Warn about files whose content was processed before; if the lookup
+    // fails the files are uploaded as usual
+    const hashes = await FileHashService.hashAll(files);
+    setFileHashes(hashes);
+    try {
+      const processed = await FileHashService.findProcessed(user.id, Array.from(new Set(hashes.values())));
+      const duplicates = files
+        .filter(file => processed.has(hashes.get(file)))
+        .map(file => ({ file, existing: processed.get(hashes.get(file)) }));
+
+      if (duplicates.length > 0) {
+        setDuplicateCheck({ files, duplicates });
+        return;
+      }
+    } catch (error) {
+      console.error('Error checking for duplicates:', error);
+    }
+
+    startUpload(files, hashes);
+  };
+
+  const confirmDuplicates = (skipDuplicates: boolean) => {
+    if (!duplicateCheck) return;
+    const duplicateFiles = duplicateCheck.duplicates.map(duplicate => duplicate.file);
+    setDuplicateCheck(null);
+    startUpload(
+      skipDuplicates ? duplicateCheck.files.filter(file => !duplicateFiles.includes(file)) : duplicateCheck.files,
+      fileHashes
+    );
+  };
+
+  const startUpload = (files: File[], hashes: Map<File, string>) => {
+    if (files.length === 0) return;
+
+    // Photos get a chance to be adjusted before upload
+    if (files.some(file => ImageService.isPreprocessable(file))) {
+      setPendingFiles(files);
+      return;
+    }
+
+    uploadFiles(files, new Map(), hashes);
+  };
+
+  const confirmPreprocessing = (options: Map<File, PreprocessOptions>) => {
+    const files = pendingFiles || [];
+    setPendingFiles(null);
+    uploadFiles(files, options, fileHashes);
+  };
 
+  const uploadFiles = async (
+    files: File[],
+    preprocessOptions: Map<File, PreprocessOptions> = new Map(),
+    hashes: Map<File, string> = new Map()
+  ) => {
     setIsProcessing(true);
+    let queuedCount = 0;
     setProcessingProgress(0);
 
     try {
@@ -132,11 +296,7 @@ export default function Dashboard() {
 
       for (const file of files) {
         // Check if it's an Excel file
-        const isExcelFile = file.type.includes('spreadsheet') || 
-                           file.name.endsWith('.xlsx') || 
-                           file.name.endsWith('.xls');
-
-        if (isExcelFile) {
+        if (ExcelService.isExcelFile(file.name, file.type)) {
           // Process Excel file directly without OCR
           try {
             const excelData = await ExcelService.parseExcelFile(file);
@@ -158,6 +318,7 @@ export default function Dashboard() {
                 file_path: fileName,
                 file_size: file.size,
                 file_type: file.type,
+                content_hash: hashes.get(file) ?? null,
                 processing_status: 'completed'
               })
               .select()
@@ -174,8 +335,7 @@ export default function Dashboard() {
                 document_id: document.id,
                 processing_job_id: null,
                 data: {
-                  headers,
-                  rows: excelData
+                  tables: [createTable(headers, excelData, { name: file.name.replace(/\.[^/.]+$/, "") })]
                 },
                 confidence: 100, // Excel parsing is 100% accurate
                 is_edited: false
@@ -201,6 +361,26 @@ export default function Dashboard() {
 
         if (uploadError) throw uploadError;
 
+        // Clean up photos before OCR; the original stays untouched next to the derived copy
+        let processed: PreprocessResult | null = null;
+        let processedFileName: string | null = null;
+        if (ImageService.isPreprocessable(file)) {
+          try {
+            processed = await ImageService.preprocess(file, preprocessOptions.get(file));
+            processedFileName = `${fileName.replace(/\.[^/.]+$/, "")}.processed.jpg`;
+
+            const { error: processedUploadError } = await supabase.storage
+              .from('documents')
+              .upload(processedFileName, processed.blob, { contentType: 'image/jpeg' });
+
+            if (processedUploadError) throw processedUploadError;
+          } catch (error) {
+            console.error('Image preprocessing error:', error);
+            processed = null;
+            processedFileName = null;
+          }
+        }
+
         // Save document record
         const { data: document, error: dbError } = await supabase
           .from('documents')
@@ -210,6 +390,11 @@ export default function Dashboard() {
             file_path: fileName,
             file_size: file.size,
             file_type: file.type,
+            processed_file_path: processedFileName,
+            preprocessing: processed?.info ?? null,
+            content_hash: hashes.get(file) ?? null,
+            languages: getDocumentLanguages(ocrLanguage),
+            document_type: documentType,
             processing_status: 'pending'
           })
           .select()
@@ -217,25 +402,18 @@ export default function Dashboard() {
 
         if (dbError) throw dbError;
 
-        // Get signed URL for the file (valid for 1 hour)
-        const { data: signedUrlData, error: urlError } = await supabase.storage
-          .from('documents')
-            .createSignedUrl(fileName, 3600);
-        
-        if (urlError) throw urlError;
-
-        // Call Edge Function for OCR processing
-        const { data: functionData, error: functionError } = await supabase.functions
-          .invoke('process-ocr', {
-            body: {
-              fileUrl: signedUrlData.signedUrl,
-              documentId: document.id,
-                userId: user.id,
-                fileType: file.type
-            }
-          });
-
-        if (functionError) throw functionError;
+        // Queue OCR; the worker picks the job up in the background. Without a
+        // job nothing moves the document on from 'pending', so mark it failed.
+        try {
+          await JobQueueService.enqueue(user.id, document.id);
+        } catch (error) {
+          await supabase
+            .from('documents')
+            .update({ processing_status: 'failed' })
+            .eq('id', document.id);
+          throw error;
+        }
+        queuedCount++;
         }
 
         processedCount++;
@@ -256,42 +434,18 @@ export default function Dashboard() {
       });
     } finally {
       setIsProcessing(false);
-      event.target.value = ''; // Reset file input
-    }
-  };
-
-  const updateData = async (id: string, updatedData: any) => {
-    try {
-      const { error } = await supabase
-        .from('extracted_data')
-        .update({
-          data: updatedData,
-          is_edited: true
-        })
-        .eq('id', id);
-
-      if (error) throw error;
-
-      setExtractedDataList(prev =>
-        prev.map(item => item.id === id ? { ...item, data: updatedData, is_edited: true } : item)
-      );
-      
-      toast({
-        title: "सहेजा गया / Saved",
-        description: "परिवर्तन सफलतापूर्वक सहेजे गए / Changes saved successfully",
-      });
-    } catch (error) {
-      toast({
-        title: "त्रुटि / Error",
-        description: "परिवर्तन सहेजने में असफल / Failed to save changes",
-        variant: "destructive"
-      });
+      // Files queued before an error still need the worker
+      if (queuedCount > 0) {
+        loadJobs();
+        await JobQueueService.wakeWorker();
+      }
     }
   };
 
   const downloadCSV = (data: ExtractedData) => {
     try {
-      CSVService.generateCSVFile(data.data.rows, `${data.document?.filename?.replace(/\.[^/.]+$/, "") || 'data'}.csv`);
+      // CSV holds a single table, so export the first one
+      CSVService.generateCSVFile(data.data.tables[0].rows, `${data.document?.filename?.replace(/\.[^/.]+$/, "") || 'data'}.csv`);
       toast({
         title: "CSV डाउनलोड / CSV Download",
         description: "CSV फाइल सफलतापूर्वक डाउनलोड हुई / CSV file downloaded successfully",
@@ -307,10 +461,16 @@ export default function Dashboard() {
 
   const downloadExcel = (data: ExtractedData) => {
     try {
-      ExcelService.generateExcelFile(data.data.rows, {
-        fileName: `${data.document?.filename?.replace(/\.[^/.]+$/, "") || 'data'}.xlsx`,
-        sheetName: 'Register Data'
-      });
+      const { tables } = data.data;
+      ExcelService.generateMultiSheetExcelFile(
+        tables.map(table => ({
+          name: tables.length === 1 ? 'Register Data' : table.name,
+          headers: table.headers,
+          data: table.rows,
+          schema: getTableSchema(table)
+        })),
+        { fileName: `${data.document?.filename?.replace(/\.[^/.]+$/, "") || 'data'}.xlsx` }
+      );
       toast({
         title: "Excel डाउनलोड / Excel Download",
         description: "Excel फाइल सफलतापूर्वक डाउनलोड हुई / Excel file downloaded successfully",
@@ -324,16 +484,40 @@ export default function Dashboard() {
     }
   };
 
+  const reextractData = async (options: OCRJobOptions) => {
+    if (!reextractFile) return;
+
+    try {
+      await JobQueueService.reextract(user.id, reextractFile.document_id, options);
+      setReextractFile(null);
+      loadJobs();
+      toast({
+        title: "दोबारा निकाला जा रहा है / Re-extraction Queued",
+        description: "मौजूदा डेटा तब तक नहीं बदलेगा / The current data stays until you choose the new version",
+      });
+    } catch (error) {
+      toast({
+        title: "त्रुटि / Error",
+        description: "दोबारा निकालने में असफल / Failed to start re-extraction",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Removes every version of the file's data, not only the one listed
   const deleteData = async (id: string) => {
+    const item = extractedDataList.find(data => data.id === id);
+    if (!item) return;
+
     try {
       const { error } = await supabase
         .from('extracted_data')
         .delete()
-        .eq('id', id);
+        .eq('document_id', item.document_id);
 
       if (error) throw error;
 
-      setExtractedDataList(prev => prev.filter(item => item.id !== id));
+      setExtractedDataList(prev => prev.filter(data => data.id !== id));
 
       toast({
         title: "हटाया गया / Deleted",
@@ -407,16 +591,52 @@ export default function Dashboard() {
                 isProcessing={isProcessing}
                 processingProgress={processingProgress}
                 onFileUpload={processFiles}
+                language={ocrLanguage}
+                onLanguageChange={setOcrLanguage}
+                documentType={documentType}
+                onDocumentTypeChange={setDocumentType}
+                queuedJobs={queuedJobs}
+                onCancelJob={cancelJob}
+                onRetryJob={retryJob}
               />
             ) : (
               <DashboardFiles
                 extractedDataList={extractedDataList}
                 onDeleteFile={deleteData}
+                onReextractFile={setReextractFile}
               />
             )}
           </main>
               </div>
       </div>
+
+      {pendingFiles && (
+        <ImagePreprocessDialog
+          files={pendingImages}
+          onCancel={() => setPendingFiles(null)}
+          onConfirm={confirmPreprocessing}
+        />
+      )}
+
+      {duplicateCheck && (
+        <DuplicateFilesDialog
+          duplicates={duplicateCheck.duplicates}
+          newFileCount={duplicateCheck.files.length - duplicateCheck.duplicates.length}
+          onCancel={() => setDuplicateCheck(null)}
+          onSkipDuplicates={() => confirmDuplicates(true)}
+          onUploadAll={() => confirmDuplicates(false)}
+        />
+      )}
+
+      {reextractFile && (
+        <ReextractDialog
+          filename={reextractFile.document?.filename || 'Unnamed'}
+          languages={reextractFile.document?.languages}
+          documentType={reextractFile.document?.document_type}
+          onCancel={() => setReextractFile(null)}
+          onConfirm={reextractData}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,16 +1,39 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { EnhancedTable } from '@/components/ui/enhanced-table';
+import { CellPosition, EnhancedTable, TableChange } from '@/components/ui/enhanced-table';
+import { SourceViewer } from '@/components/ui/source-viewer';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Input } from '@/components/ui/input';
 import { toast } from '@/hooks/use-toast';
+import { useEditHistory } from '@/hooks/useEditHistory';
+import { ToastAction } from '@/components/ui/toast';
 import { supabase } from '@/integrations/supabase/client';
 import { ExcelService } from '@/lib/excelService';
 import { CSVService } from '@/lib/csvService';
 import AIAssistant from '@/components/ai/AIAssistant';
+import ReextractDialog from '@/components/dashboard/ReextractDialog';
+import ExtractionDiffDialog from '@/components/dashboard/ExtractionDiffDialog';
+import RevisionHistoryDialog from '@/components/dashboard/RevisionHistoryDialog';
+import { RevisionSummary } from '@/lib/revisionService';
+import { summarizeChange } from '@/lib/tableDiff';
+import { JobQueueService, QueuedJob } from '@/lib/jobQueueService';
+import { CellBox, DocumentType, ExtractedDataContent, ExtractedTable, LedgerCheck, OCRJobOptions } from '@/lib/types';
+import { TableSchema, getTableSchema } from '@/lib/columnTypes';
+import { normalizeTables } from '@/lib/normalization';
+import {
+  countUncertainCells,
+  describePages,
+  getLedgerNotes,
+  getOpenLedgerMismatches,
+  getOverallConfidence,
+  getTables,
+  replaceTable
+} from '@/lib/extractedData';
 import { 
   ArrowLeft,
   FileText, 
@@ -23,25 +46,77 @@ import {
   Sparkles,
   Share2,
   Download,
-  Settings
+  Settings,
+  Image as ImageIcon,
+  RefreshCw,
+  GitCompare,
+  Wand2,
+  History
 } from 'lucide-react';
 
 interface ExtractedData {
   id: string;
   document_id: string;
-  data: {
-    headers: string[];
-    rows: Array<Record<string, string>>;
-  };
+  data: ExtractedDataContent;
   confidence: number;
   is_edited: boolean;
+  version: number;
+  is_active: boolean;
+  // PDF pages the extraction got no rows from
+  failed_pages: number[];
   created_at: string;
   updated_at: string;
   document?: {
     filename: string;
+    file_path: string;
+    file_type: string | null;
+    processed_file_path: string | null;
+    languages: string[] | null;
+    document_type: DocumentType | null;
   };
 }
 
+// Re-extractions are stored as inactive versions above the active one; the
+// newest is offered for comparison
+async function fetchCandidate(userId: string, documentId: string, currentVersion: number): Promise<ExtractedData | null> {
+  const { data, error } = await supabase
+    .from('extracted_data')
+    .select('*')
+    .eq('document_id', documentId)
+    .eq('user_id', userId)
+    .eq('is_active', false)
+    .gt('version', currentVersion)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? { ...data, data: { tables: getTables(data.data, data.confidence) } } : null;
+}
+
+async function hasPendingReextraction(documentId: string): Promise<boolean> {
+  const { count, error } = await supabase
+    .from('processing_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('document_id', documentId)
+    .eq('job_type', 'reextract')
+    .in('status', ['pending', 'processing']);
+
+  if (error) throw error;
+  return (count || 0) > 0;
+}
+
+// Edits made within this many milliseconds of each other are saved together
+const SAVE_DELAY_MS = 1000;
+
+// Changes shown in the workspace but not yet written to extracted_data
+interface PendingSave {
+  id: string;
+  data: ExtractedDataContent;
+  // Notes of the changes in this save
+  notes: string[];
+}
+
 interface EditingCell {
   rowIndex: number;
   column: string;
@@ -57,12 +132,97 @@ export default function FileWorkspace() {
   const [isLoading, setIsLoading] = useState(true);
   const [editingCell, setEditingCell] = useState<EditingCell | null>(null);
   const [showAI, setShowAI] = useState(true);
+  const [activeTableId, setActiveTableId] = useState<string | null>(null);
+  const [showSource, setShowSource] = useState(false);
+  const [sourceUrl, setSourceUrl] = useState<string | null>(null);
+  const [activeCell, setActiveCell] = useState<CellPosition | null>(null);
+  // A newer, not yet accepted extraction of the same document
+  const [candidate, setCandidate] = useState<ExtractedData | null>(null);
+  const [isReextracting, setIsReextracting] = useState(false);
+  const [showReextract, setShowReextract] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [saveState, setSaveState] = useState<'saved' | 'pending' | 'saving' | 'error'>('saved');
+  const pendingSave = useRef<PendingSave | null>(null);
+  const saveTimer = useRef<number>();
+  const isSaving = useRef(false);
+  // The tables as last written, for the note of a save that batches changes
+  const savedTables = useRef<ExtractedTable[]>([]);
+
+  const tables = fileData?.data.tables || [];
+  const activeTable = tables.find(table => table.id === activeTableId) || tables[0];
+  const uncertainCount = activeTable ? countUncertainCells(activeTable) : 0;
+  const mismatchCount = activeTable ? getOpenLedgerMismatches(activeTable).length : 0;
+  const activeSchema = useMemo(() => activeTable ? getTableSchema(activeTable) : {}, [activeTable]);
+  const sourceType = fileData?.document?.file_type || '';
+  const canShowSource = sourceType.startsWith('image/') || sourceType === 'application/pdf';
+  // Spreadsheets were imported, not read with OCR; older versions cannot be re-extracted
+  const canReextract = !!fileData?.document && fileData.is_active &&
+    !ExcelService.isExcelFile(fileData.document.filename, fileData.document.file_type);
 
   useEffect(() => {
     if (!user || !fileId) return;
     loadFileData();
   }, [user, fileId]);
 
+  // Offer newer extractions of the document while its current version is
+  // open, including re-extractions the worker finishes meanwhile
+  const documentId = fileData?.is_active ? fileData.document_id : undefined;
+  const version = fileData?.version;
+  useEffect(() => {
+    setCandidate(null);
+    setIsReextracting(false);
+    if (!user || !documentId || version === undefined) return;
+
+    const loadCandidate = () => {
+      fetchCandidate(user.id, documentId, version)
+        .then(setCandidate)
+        .catch(error => console.error('Error loading new extraction:', error));
+    };
+
+    loadCandidate();
+    hasPendingReextraction(documentId)
+      .then(setIsReextracting)
+      .catch(error => console.error('Error loading re-extraction jobs:', error));
+
+    const subscription = supabase
+      .channel(`reextract_${documentId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'processing_jobs',
+          filter: `document_id=eq.${documentId}`
+        },
+        (payload: { new: Partial<QueuedJob> }) => {
+          if (payload.new?.job_type !== 'reextract') return;
+          if (payload.new.status === 'completed') {
+            setIsReextracting(false);
+            loadCandidate();
+            toast({
+              title: "Re-extraction Complete",
+              description: "Compare the new extraction with the current data",
+            });
+          } else if (payload.new.status === 'dead' || payload.new.status === 'cancelled') {
+            setIsReextracting(false);
+            if (payload.new.status === 'dead') {
+              toast({
+                title: "Re-extraction Failed",
+                description: payload.new.error_message || "The document could not be read again",
+                variant: "destructive"
+              });
+            }
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [user, documentId, version]);
+
   const loadFileData = async () => {
     if (!fileId) return;
     
@@ -73,7 +233,12 @@ export default function FileWorkspace() {
         .select(`
           *,
           document:documents (
-            filename
+            filename,
+            file_path,
+            file_type,
+            processed_file_path,
+            languages,
+            document_type
           )
         `)
         .eq('id', fileId)
@@ -93,7 +258,14 @@ export default function FileWorkspace() {
         throw error;
       }
 
-      setFileData(data);
+      // Upgrade single-table rows to the multi-table shape in memory;
+      // the next save persists it
+      const tables = getTables(data.data, data.confidence);
+      setFileData({ ...data, data: { tables } });
+      savedTables.current = tables;
+      history.clear();
+      setActiveTableId(tables[0].id);
+      setShowCompare(false);
     } catch (error) {
       console.error('Error loading file:', error);
       toast({
@@ -107,59 +279,318 @@ export default function FileWorkspace() {
     }
   };
 
-  const updateFileData = async (updatedData: any) => {
-    if (!fileData) return;
+  const startReextraction = async (options: OCRJobOptions) => {
+    if (!fileData || !user) return;
+
+    try {
+      await JobQueueService.reextract(user.id, fileData.document_id, options);
+      setIsReextracting(true);
+      setShowReextract(false);
+      toast({
+        title: "Re-extraction Queued",
+        description: "The current data stays as it is until you choose the new version",
+      });
+    } catch (error) {
+      console.error('Error queuing re-extraction:', error);
+      toast({
+        title: "Error",
+        description: "Failed to start re-extraction",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const discardCandidate = async () => {
+    if (!candidate) return;
 
     try {
       const { error } = await supabase
         .from('extracted_data')
-        .update({
-          data: updatedData,
-          is_edited: true
-        })
-        .eq('id', fileData.id);
+        .delete()
+        .eq('id', candidate.id);
 
       if (error) throw error;
 
-      setFileData(prev => prev ? {
-        ...prev,
-        data: updatedData,
-        is_edited: true
-      } : null);
+      setCandidate(null);
+      setShowCompare(false);
+      toast({
+        title: "Kept Current Data",
+        description: "The new extraction was discarded",
+      });
+    } catch (error) {
+      console.error('Error discarding extraction:', error);
+      toast({
+        title: "Error",
+        description: "Failed to discard the new extraction",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // The new version becomes the one listed on the dashboard; the current one
+  // is kept, inactive, with any edits made to it
+  const acceptCandidate = async () => {
+    if (!fileData || !candidate) return;
+
+    try {
+      // One call, so the document never ends up with both or neither active
+      const { error } = await supabase.rpc('activate_extraction', {
+        p_extracted_data_id: candidate.id
+      });
+
+      if (error) throw error;
 
       toast({
-        title: "Saved",
-        description: "Changes saved successfully",
+        title: "New Extraction in Use",
+        description: `Version ${candidate.version} is now the current data`,
       });
+      navigate(`/files/${candidate.id}`);
+    } catch (error) {
+      console.error('Error switching extraction:', error);
+      toast({
+        title: "Error",
+        description: "Failed to switch to the new extraction",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // The documents bucket is private, so the viewer gets a short-lived signed URL.
+  // Cell regions were measured on the preprocessed image, so show that one when it exists.
+  const loadSourceUrl = async () => {
+    if (!fileData?.document?.file_path || sourceUrl) return;
+
+    const { data, error } = await supabase.storage
+      .from('documents')
+      .createSignedUrl(fileData.document.processed_file_path || fileData.document.file_path, 3600);
+
+    if (error) {
+      console.error('Error creating source URL:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the source document",
+        variant: "destructive"
+      });
+      setShowSource(false);
+      return;
+    }
+
+    setSourceUrl(data.signedUrl);
+  };
+
+  const toggleSource = () => {
+    if (!showSource) loadSourceUrl();
+    setShowSource(!showSource);
+  };
+
+  const selectTable = (tableId: string) => {
+    setActiveTableId(tableId);
+    setActiveCell(null);
+  };
+
+  // Changes show at once and are saved after a short pause, so a burst of
+  // edits becomes one save and one revision (written by a database trigger).
+  // The revision note is the change's own when there is one, otherwise a
+  // summary of the cell differences since the last save.
+  const flushSave = useCallback(async () => {
+    window.clearTimeout(saveTimer.current);
+    const pending = pendingSave.current;
+    if (!pending || isSaving.current) return;
+
+    pendingSave.current = null;
+    isSaving.current = true;
+    setSaveState('saving');
+    try {
+      const { error } = await supabase
+        .from('extracted_data')
+        .update({
+          data: pending.data,
+          confidence: getOverallConfidence(pending.data.tables),
+          is_edited: true,
+          change_note: pending.notes.length === 1
+            ? pending.notes[0]
+            : summarizeChange(savedTables.current, pending.data.tables)
+        })
+        .eq('id', pending.id);
+
+      if (error) throw error;
+      savedTables.current = pending.data.tables;
+      setSaveState(pendingSave.current ? 'pending' : 'saved');
     } catch (error) {
       console.error('Error updating file:', error);
+      // Keep the unsaved changes; the next edit or Retry sends them again
+      pendingSave.current = pendingSave.current
+        ? { ...pendingSave.current, notes: [...pending.notes, ...pendingSave.current.notes] }
+        : pending;
+      setSaveState('error');
       toast({
         title: "Error",
         description: "Failed to save changes",
         variant: "destructive"
       });
+      return;
+    } finally {
+      isSaving.current = false;
+    }
+
+    if (pendingSave.current) {
+      saveTimer.current = window.setTimeout(flushSave, SAVE_DELAY_MS);
+    }
+  }, []);
+
+  const applyTables = (updatedTables: ExtractedTable[], note: string) => {
+    if (!fileData) return;
+    const updatedData = { tables: updatedTables };
+
+    setFileData(prev => prev ? {
+      ...prev,
+      data: updatedData,
+      confidence: getOverallConfidence(updatedTables),
+      is_edited: true
+    } : null);
+
+    pendingSave.current = {
+      id: fileData.id,
+      data: updatedData,
+      notes: [...(pendingSave.current?.notes || []), note]
+    };
+    setSaveState('pending');
+    window.clearTimeout(saveTimer.current);
+    saveTimer.current = window.setTimeout(flushSave, SAVE_DELAY_MS);
+  };
+
+  const history = useEditHistory<ExtractedTable[]>(applyTables);
+
+  // Every change to the data goes through here so it can be undone. Changes
+  // that replace a lot at once get a toast with an Undo button.
+  const commitTables = (updatedTables: ExtractedTable[], note: string, destructive = false) => {
+    const command = history.execute(note, tables, updatedTables);
+    if (destructive) {
+      toast({
+        title: note,
+        description: "Press Ctrl+Z to undo",
+        action: (
+          <ToastAction altText="Undo" onClick={() => history.undo(command.id)}>
+            Undo
+          </ToastAction>
+        )
+      });
+    }
+  };
+
+  // EnhancedTable and the AI assistant work on the active table only. Cell
+  // confidence, regions, original values and the ledger check are aligned by
+  // row index; EnhancedTable sends them back rearranged with structural
+  // edits, and for callers that do not they are kept only while the row
+  // count is unchanged.
+  const updateActiveTable = (tableData: {
+    headers: string[];
+    rows: Array<Record<string, string>>;
+    cellConfidence?: Array<Record<string, number>>;
+    cellBoxes?: Array<Record<string, CellBox>>;
+    originalValues?: Array<Record<string, string>>;
+    ledger?: LedgerCheck;
+    schema?: TableSchema;
+  }, change?: Partial<TableChange>) => {
+    if (!fileData || !activeTable) return;
+    const sameRows = tableData.rows.length === activeTable.rows.length;
+    const carried = <K extends 'cellBoxes' | 'originalValues' | 'ledger'>(key: K) =>
+      key in tableData ? tableData[key] : sameRows ? activeTable[key] : undefined;
+
+    const updated = replaceTable(tables, activeTable.id, {
+      headers: tableData.headers,
+      rows: tableData.rows,
+      cellConfidence: tableData.cellConfidence ?? (sameRows ? activeTable.cellConfidence : undefined),
+      cellBoxes: carried('cellBoxes'),
+      originalValues: carried('originalValues'),
+      ledger: carried('ledger'),
+      schema: getTableSchema({ ...tableData, schema: tableData.schema ?? activeSchema })
+    });
+
+    // Without a label of its own, a change is named by the cells it changed,
+    // compared by position
+    const note = change?.label || summarizeChange(tables, updated.tables);
+    commitTables(updated.tables, note, change?.destructive);
+  };
+
+  // Rewrite amounts and dates in every table in one plain form; the values
+  // as read stay in originalValues
+  const normalizeData = () => {
+    const { tables: normalized, changedCells } = normalizeTables(tables);
+    if (changedCells === 0) {
+      toast({
+        title: "Nothing to normalize",
+        description: "Amounts and dates are already in a standard form",
+      });
+      return;
     }
+
+    commitTables(normalized, `Normalized ${changedCells} cell${changedCells === 1 ? '' : 's'}`, true);
   };
 
+  // Restoring saves the old data again, so it becomes the newest revision
+  const restoreRevision = async (revision: RevisionSummary, restored: ExtractedTable[]) => {
+    setShowHistory(false);
+    setActiveTableId(null);
+    commitTables(restored, `Restored version ${revision.revision_number}`, true);
+  };
+
+  // Unsaved changes are sent first so the history ends with them
+  const openHistory = async () => {
+    await flushSave();
+    setShowHistory(true);
+  };
+
+  // Send what is left before another file opens or the page goes away
+  useEffect(() => () => { flushSave(); }, [fileId, flushSave]);
+
+  useEffect(() => {
+    const warnUnsaved = (event: BeforeUnloadEvent) => {
+      if (!pendingSave.current && !isSaving.current) return;
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', warnUnsaved);
+    return () => window.removeEventListener('beforeunload', warnUnsaved);
+  }, []);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS, or Ctrl+Y) undo and redo changes to
+  // the data, except while typing in a field, which has its own undo
+  const { undo, redo } = history;
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        if (undo()) event.preventDefault();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        if (redo()) event.preventDefault();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
   const startEditingCell = (rowIndex: number, column: string, value: string) => {
     setEditingCell({ rowIndex, column, value });
   };
 
-  const saveEdit = async () => {
-    if (!editingCell || !fileData) return;
+  const saveEdit = () => {
+    if (!editingCell || !activeTable) return;
 
-    const updatedRows = [...fileData.data.rows];
+    const updatedRows = [...activeTable.rows];
     updatedRows[editingCell.rowIndex] = {
       ...updatedRows[editingCell.rowIndex],
       [editingCell.column]: editingCell.value
     };
 
-    const updatedData = {
-      ...fileData.data,
-      rows: updatedRows
-    };
-
-    await updateFileData(updatedData);
+    updateActiveTable(
+      { headers: activeTable.headers, rows: updatedRows },
+      { label: `Edited ${editingCell.column} in row ${editingCell.rowIndex + 1}` }
+    );
     setEditingCell(null);
   };
 
@@ -171,10 +602,16 @@ export default function FileWorkspace() {
     if (!fileData) return;
     
     try {
-      ExcelService.generateExcelFile(fileData.data.rows, {
-        fileName: `${fileData.document?.filename?.replace(/\.[^/.]+$/, "") || 'data'}.xlsx`,
-        sheetName: 'Register Data'
-      });
+      // One sheet per table
+      ExcelService.generateMultiSheetExcelFile(
+        tables.map(table => ({
+          name: tables.length === 1 ? 'Register Data' : table.name,
+          headers: table.headers,
+          data: table.rows,
+          schema: getTableSchema(table)
+        })),
+        { fileName: `${fileData.document?.filename?.replace(/\.[^/.]+$/, "") || 'data'}.xlsx` }
+      );
       toast({
         title: "Excel Download",
         description: "Excel file downloaded successfully",
@@ -189,10 +626,12 @@ export default function FileWorkspace() {
   };
 
   const downloadCSV = () => {
-    if (!fileData) return;
+    if (!fileData || !activeTable) return;
     
     try {
-      CSVService.generateCSVFile(fileData.data.rows, `${fileData.document?.filename?.replace(/\.[^/.]+$/, "") || 'data'}.csv`);
+      const baseName = fileData.document?.filename?.replace(/\.[^/.]+$/, "") || 'data';
+      const suffix = tables.length > 1 ? `_${activeTable.name.replace(/[^\w-]+/g, '_')}` : '';
+      CSVService.generateCSVFile(activeTable.rows, `${baseName}${suffix}.csv`);
       toast({
         title: "CSV Download",
         description: "CSV file downloaded successfully",
@@ -233,6 +672,49 @@ export default function FileWorkspace() {
     );
   }
 
+  const tableCard = (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          {tables.length > 1 ? activeTable.name : 'Data Table'}
+        </CardTitle>
+        <CardDescription>
+          Click on any cell to edit. Changes are saved automatically.
+          {uncertainCount > 0 && ' Use Review to step through the cells the OCR was unsure about.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        <EnhancedTable
+          key={activeTable.id}
+          data={{
+            headers: activeTable.headers,
+            rows: activeTable.rows,
+            cellConfidence: activeTable.cellConfidence,
+            cellNotes: getLedgerNotes(activeTable),
+            originalValues: activeTable.originalValues,
+            schema: activeSchema,
+            cellBoxes: activeTable.cellBoxes,
+            ledger: activeTable.ledger
+          }}
+          onDataChange={updateActiveTable}
+          history={{
+            canUndo: history.canUndo,
+            canRedo: history.canRedo,
+            undoLabel: history.undoLabel,
+            redoLabel: history.redoLabel,
+            onUndo: () => history.undo(),
+            onRedo: history.redo
+          }}
+          activeCell={activeCell}
+          onCellSelect={setActiveCell}
+          showSpreadsheetToggle={true}
+          className="border-0 rounded-none"
+        />
+      </CardContent>
+    </Card>
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-primary-glow/5">
       {/* Header */}
@@ -258,14 +740,75 @@ export default function FileWorkspace() {
                     {fileData.document?.filename || 'Unnamed File'}
                   </h1>
                   <p className="text-sm text-muted-foreground">
-                    {fileData.data.rows.length} rows • {fileData.data.headers.length} columns • {Math.round(fileData.confidence)}% accuracy
+                    {tables.length > 1 && `${tables.length} tables • `}
+                    {activeTable.rows.length} rows • {activeTable.headers.length} columns • {Math.round(activeTable.confidence)}% accuracy
+                    {uncertainCount > 0 && (
+                      <span className="ml-2 text-amber-600">• {uncertainCount} cells to review</span>
+                    )}
+                    {mismatchCount > 0 && (
+                      <span className="ml-2 text-destructive">
+                        • {mismatchCount} {mismatchCount === 1 ? 'balance does' : 'balances do'} not add up
+                      </span>
+                    )}
+                    {activeTable.pages && activeTable.pages.length > 0 && (
+                      <span className="ml-2">
+                        • {activeTable.pages.length === 1
+                          ? `Page ${activeTable.pages[0]}`
+                          : `Pages ${activeTable.pages[0]}–${activeTable.pages[activeTable.pages.length - 1]}`}
+                      </span>
+                    )}
                     {fileData.is_edited && <span className="ml-2 text-blue-600">• Edited</span>}
+                    {(saveState === 'pending' || saveState === 'saving') && (
+                      <span className="ml-2">• Saving…</span>
+                    )}
+                    {saveState === 'error' && (
+                      <button type="button" className="ml-2 text-destructive underline" onClick={flushSave}>
+                        • Not saved, retry
+                      </button>
+                    )}
+                    {fileData.version > 1 && <span className="ml-2">• Version {fileData.version}</span>}
+                    {!fileData.is_active && <span className="ml-2 text-amber-600">• Not the current version</span>}
                   </p>
                 </div>
               </div>
             </div>
             
             <div className="flex items-center gap-2">
+              {canShowSource && (
+                <Button
+                  variant={showSource ? "default" : "outline"}
+                  size="sm"
+                  onClick={toggleSource}
+                >
+                  <ImageIcon className="h-4 w-4 mr-2" />
+                  Source
+                </Button>
+              )}
+
+              {canReextract && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowReextract(true)}
+                  disabled={isReextracting}
+                >
+                  {isReextracting
+                    ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    : <RefreshCw className="h-4 w-4 mr-2" />}
+                  Re-extract
+                </Button>
+              )}
+
+              <Button variant="outline" size="sm" onClick={openHistory}>
+                <History className="h-4 w-4 mr-2" />
+                History
+              </Button>
+
+              <Button variant="outline" size="sm" onClick={normalizeData}>
+                <Wand2 className="h-4 w-4 mr-2" />
+                Normalize
+              </Button>
+
               <Button 
                 variant="outline" 
                 size="sm"
@@ -294,25 +837,68 @@ export default function FileWorkspace() {
         {/* Data Table */}
         <div className={`flex-1 transition-all duration-300 ${showAI ? 'mr-96' : ''}`}>
           <div className="container mx-auto px-4 py-6">
-            <Card className="shadow-lg">
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <FileText className="h-5 w-5" />
-                  Data Table
-                </CardTitle>
-                <CardDescription>
-                  Click on any cell to edit. Changes are saved automatically.
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="p-0">
-                <EnhancedTable
-                  data={fileData.data}
-                  onDataChange={(newData) => updateFileData(newData)}
-                  showSpreadsheetToggle={true}
-                  className="border-0 rounded-none"
-                />
-              </CardContent>
-            </Card>
+            {candidate && (
+              <Card className="mb-4 border-primary/40 bg-primary/5">
+                <CardContent className="flex items-center justify-between gap-4 py-4">
+                  <p className="text-sm">
+                    A new extraction (version {candidate.version}, {Math.round(candidate.confidence)}% accuracy) is ready.
+                    Compare it with the current data and choose which one to keep.
+                  </p>
+                  <Button size="sm" onClick={() => setShowCompare(true)}>
+                    <GitCompare className="h-4 w-4 mr-2" />
+                    Compare
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+            {fileData.failed_pages?.length > 0 && (
+              <Card className="mb-4 border-amber-300 bg-amber-50 dark:bg-amber-950/30">
+                <CardContent className="flex items-center justify-between gap-4 py-4">
+                  <p className="text-sm">
+                    No rows were read from {describePages(fileData.failed_pages)} of the PDF; rows there may be missing.
+                    Check against the source, or re-extract to read the file again.
+                  </p>
+                  {canReextract && (
+                    <Button size="sm" variant="outline" onClick={() => setShowReextract(true)} disabled={isReextracting}>
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      Re-extract
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+            {tables.length > 1 && (
+              <Tabs value={activeTable.id} onValueChange={selectTable} className="mb-4">
+                <TabsList className="h-auto flex-wrap justify-start">
+                  {tables.map(table => (
+                    <TabsTrigger key={table.id} value={table.id} className="gap-2">
+                      {table.name}
+                      <span className="text-xs text-muted-foreground">
+                        {table.rows.length} • {Math.round(table.confidence)}%
+                      </span>
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
+            )}
+            {showSource && canShowSource ? (
+              <ResizablePanelGroup direction="horizontal" className="gap-1">
+                <ResizablePanel defaultSize={45} minSize={25}>
+                  <SourceViewer
+                    fileUrl={sourceUrl}
+                    isPdf={sourceType === 'application/pdf'}
+                    cellBoxes={activeTable.cellBoxes}
+                    activeCell={activeCell}
+                    onCellSelect={setActiveCell}
+                    className="h-[calc(100vh-12rem)] shadow-lg"
+                  />
+                </ResizablePanel>
+                <ResizableHandle withHandle />
+                <ResizablePanel defaultSize={55} minSize={30}>
+                  {tableCard}
+                </ResizablePanel>
+              </ResizablePanelGroup>
+            ) : tableCard}
           </div>
         </div>
 
@@ -322,14 +908,52 @@ export default function FileWorkspace() {
             <div className="h-full pt-20">
               <AIAssistant
                 documentId={fileData.document_id}
-                fileData={fileData.data}
-                onDataUpdate={updateFileData}
+                fileData={{
+                  headers: activeTable.headers,
+                  rows: activeTable.rows,
+                  cellConfidence: activeTable.cellConfidence,
+                  cellBoxes: activeTable.cellBoxes,
+                  originalValues: activeTable.originalValues,
+                  ledger: activeTable.ledger,
+                  schema: activeSchema
+                }}
+                onDataUpdate={(data, label) => updateActiveTable(data, { label, destructive: true })}
                 className="h-[calc(100vh-5rem)] m-4"
               />
             </div>
           </div>
         )}
       </div>
+
+      {showReextract && fileData.document && (
+        <ReextractDialog
+          filename={fileData.document.filename}
+          languages={fileData.document.languages}
+          documentType={fileData.document.document_type}
+          onCancel={() => setShowReextract(false)}
+          onConfirm={startReextraction}
+        />
+      )}
+
+      {showCompare && candidate && (
+        <ExtractionDiffDialog
+          current={tables}
+          candidate={candidate.data.tables}
+          currentEdited={fileData.is_edited}
+          onClose={() => setShowCompare(false)}
+          onKeepCurrent={discardCandidate}
+          onUseCandidate={acceptCandidate}
+        />
+      )}
+
+      {showHistory && (
+        <RevisionHistoryDialog
+          extractedDataId={fileData.id}
+          currentUserId={user?.id}
+          onClose={() => setShowHistory(false)}
+          onRestore={restoreRevision}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,184 @@
+import { ColumnSchema, FileData } from './types.ts'
+import { parseDate, parseNumber, round } from './values.ts'
+
+export type Provider = 'anthropic' | 'openai'
+
+// Tokens the prompt may use for the table and the conversation, unless set
+// with AI_CONTEXT_TOKENS_<PROVIDER> or AI_CONTEXT_TOKENS
+const DEFAULT_TOKEN_BUDGETS: Record<Provider, number> = {
+  anthropic: 16000,
+  openai: 12000
+}
+
+// The table keeps at least this much however long the conversation is
+const MIN_DATA_TOKENS = 2000
+
+// Rows sampled from each end of the table before those spread through it
+const SAMPLE_END_ROWS = 5
+
+// Share of the room for rows that rows matching the question may take, so a
+// common word cannot crowd out the sample
+const MATCHED_ROWS_SHARE = 0.5
+
+// Share of the filled cells that must be numbers for a column to get number statistics
+const NUMERIC_SHARE = 0.8
+
+const COMMON_VALUES = 3
+
+// Words of a question too common to find rows by
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'with', 'what', 'which', 'who', 'whom', 'how', 'many', 'much',
+  'this', 'that', 'these', 'those', 'from', 'into', 'have', 'has', 'had', 'any', 'all', 'show', 'list',
+  'give', 'tell', 'about', 'find', 'row', 'rows', 'column', 'columns', 'total', 'sum', 'count', 'average',
+  'data', 'table', 'please', 'can', 'you', 'there', 'their', 'than', 'more', 'less', 'each', 'per'
+])
+
+// The table as the model sees it, and how much of it that is
+export interface DataContext {
+  text: string
+  includedRows: number
+  totalRows: number
+  // Rows that matched words or row numbers in the question
+  matchedRows: number
+}
+
+export function getTokenBudget(provider: Provider): number {
+  const configured = parseInt(
+    Deno.env.get(`AI_CONTEXT_TOKENS_${provider.toUpperCase()}`) || Deno.env.get('AI_CONTEXT_TOKENS') || ''
+  )
+  return configured > 0 ? configured : DEFAULT_TOKEN_BUDGETS[provider]
+}
+
+// About four characters of English to a token; Indic scripts take about a
+// token per character, so they are counted in full
+export function estimateTokens(text: string): number {
+  const nonAscii = (text.match(/[\u0080-\uffff]/g) || []).length
+  return Math.ceil((text.length - nonAscii) / 4 + nonAscii)
+}
+
+function describeType(column?: ColumnSchema): string {
+  if (!column) return 'text'
+  if (column.type === 'currency') return 'currency (INR)'
+  if (column.type === 'date') return `date (${column.format || 'DD/MM/YYYY'})`
+  return column.type
+}
+
+// One line per column: its type, how full it is, and its range or most
+// common values, worked out over every row
+function describeColumn(fileData: FileData, header: string): string {
+  const column = fileData.schema?.[header]
+  const cells = fileData.rows.map(row => (row[header] || '').trim()).filter(Boolean)
+  const distinct = new Set(cells.map(cell => cell.toLowerCase())).size
+  const parts = [`${cells.length} filled`, `${distinct} distinct`]
+
+  if (column?.type === 'date') {
+    const dates = cells
+      .map(cell => ({ cell, time: parseDate(cell, column.format) }))
+      .filter((date): date is { cell: string; time: number } => date.time !== null)
+      .sort((a, b) => a.time - b.time)
+    if (dates.length > 0) parts.push(`from ${dates[0].cell} to ${dates[dates.length - 1].cell}`)
+  } else {
+    const numbers = cells.map(parseNumber).filter((number): number is number => number !== null)
+    if (numbers.length > 0 && numbers.length >= cells.length * NUMERIC_SHARE) {
+      const sum = numbers.reduce((total, number) => total + number, 0)
+      const min = numbers.reduce((lowest, number) => Math.min(lowest, number))
+      const max = numbers.reduce((highest, number) => Math.max(highest, number))
+      parts.push(`min ${round(min)}`, `max ${round(max)}`, `sum ${round(sum)}`)
+    } else if (distinct < cells.length) {
+      const counts = new Map<string, number>()
+      cells.forEach(cell => counts.set(cell, (counts.get(cell) || 0) + 1))
+      const common = [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, COMMON_VALUES)
+      parts.push(`most common: ${common.map(([value, count]) => `${value} (${count})`).join(', ')}`)
+    }
+  }
+
+  return `  - ${header} (${describeType(column)}): ${parts.join(', ')}`
+}
+
+// Row indexes the question points at: rows named by number ("row 12")
+// first, then rows by how many of the question's words they contain
+function findRelevantRows(fileData: FileData, question: string): number[] {
+  const named = [...question.matchAll(/\brows?\s+(\d+)/gi)]
+    .map(match => Number(match[1]) - 1)
+    .filter(index => index >= 0 && index < fileData.rows.length)
+
+  const words = [...new Set(question.toLowerCase().split(/[^\p{L}\p{M}\p{N}]+/u))]
+    .filter(word => (word.length >= 3 || /^\d+$/.test(word)) && !STOP_WORDS.has(word))
+  const scored = words.length === 0 ? [] : fileData.rows
+    .map((row, index) => {
+      const text = fileData.headers.map(header => row[header] || '').join(' ').toLowerCase()
+      return { index, score: words.filter(word => text.includes(word)).length }
+    })
+    .filter(row => row.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(row => row.index)
+
+  return [...new Set([...named, ...scored])]
+}
+
+// Rows from the start and the end, then `count` spread evenly between
+function sampleRows(rowCount: number, count: number): number[] {
+  const spreadCount = Math.min(Math.max(count, 1), rowCount)
+  const spread = Array.from({ length: spreadCount }, (_, index) => Math.floor(index * rowCount / spreadCount))
+  const ends = Array.from({ length: Math.min(SAMPLE_END_ROWS, rowCount) }, (_, index) => index)
+  return [...new Set([...ends, ...ends.map(index => rowCount - 1 - index), ...spread])]
+}
+
+function formatRow(fileData: FileData, index: number): string {
+  const values = Object.fromEntries(fileData.headers.map(header => [header, fileData.rows[index][header] || '']))
+  return `${index + 1}: ${JSON.stringify(values)}`
+}
+
+// The table for the prompt within a token budget: its columns with
+// statistics over every row, then all rows if they fit, otherwise the rows
+// the question points at and a sample of the rest
+export function buildDataContext(fileData: FileData, question: string, budget: number): DataContext {
+  const totalRows = fileData.rows.length
+  const summary = [
+    `- Columns (${fileData.headers.length}): ${fileData.headers.join(', ')}`,
+    `- Rows: ${totalRows}`,
+    '- Column statistics over all rows:',
+    ...fileData.headers.map(header => describeColumn(fileData, header))
+  ].join('\n')
+
+  const lines = fileData.rows.map((_, index) => formatRow(fileData, index))
+  const costs = lines.map(line => estimateTokens(line) + 1)
+  const totalCost = costs.reduce((total, cost) => total + cost, 0)
+  let rowBudget = Math.max(budget, MIN_DATA_TOKENS) - estimateTokens(summary)
+
+  if (totalCost <= rowBudget) {
+    return {
+      text: `${summary}\n- All rows, numbered from 1:\n${lines.join('\n')}`,
+      includedRows: totalRows,
+      totalRows,
+      matchedRows: 0
+    }
+  }
+
+  // Add rows in the given order while they fit; returns the room used
+  const included = new Set<number>()
+  const take = (indexes: number[], room: number): number => {
+    let left = room
+    indexes.forEach(index => {
+      if (included.has(index) || costs[index] > left) return
+      included.add(index)
+      left -= costs[index]
+    })
+    return room - left
+  }
+
+  const relevant = findRelevantRows(fileData, question)
+  rowBudget -= take(relevant, rowBudget * MATCHED_ROWS_SHARE)
+  // The sample fills what is left, at the table's average row size
+  take(sampleRows(totalRows, Math.floor(rowBudget / (totalCost / totalRows))), rowBudget)
+
+  const shown = [...included].sort((a, b) => a - b)
+  return {
+    text: `${summary}
+- Only ${shown.length} of ${totalRows} rows fit here, numbered as in the table: those that match the question and a sample from the start, middle and end. Use the tools to work over all rows.
+${shown.map(index => lines[index]).join('\n')}`,
+    includedRows: shown.length,
+    totalRows,
+    matchedRows: relevant.filter(index => included.has(index)).length
+  }
+}
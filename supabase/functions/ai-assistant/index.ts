@@ -1,5 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { SupabaseClient, createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { ProposedAction } from './operations.ts'
+import { TOOLS_PROMPT, ToolSession, createToolSession, getAnthropicTools, getOpenAITools, runTool } from './tools.ts'
+import { FileData } from './types.ts'
+import { Provider, buildDataContext, estimateTokens, getTokenBudget } from './context.ts'
+import { StreamHandlers, createReplyWriter, formatEvent, readServerSentEvents } from './stream.ts'
 
 // CORS headers configuration
 const corsHeaders = {
@@ -11,24 +16,30 @@ const corsHeaders = {
 interface AIRequest {
   conversationId: string
   message: string
-  fileData: {
-    headers: string[]
-    rows: Array<Record<string, string>>
-  }
+  fileData: FileData
   messageType?: 'text' | 'action' | 'formula' | 'error'
   chatMode?: boolean
+  // Send the reply as server-sent events while it is generated
+  stream?: boolean
 }
 
 interface AIResponse {
   message: string
   messageType: 'text' | 'action' | 'formula' | 'error'
-  actions?: Array<{
-    type: 'cell_edit' | 'formula_add' | 'data_transform' | 'export' | 'analysis'
-    data: any
-  }>
+  // Validated edits for the app to apply
+  actions?: ProposedAction[]
   metadata?: any
 }
 
+// The columns of ai_conversations read here
+interface Conversation {
+  id: string
+  title: string | null
+}
+
+// A reply may call tools this many times in turn; the last round must answer
+const MAX_TOOL_ROUNDS = 6
+
 const openAIApiKey = Deno.env.get('OPENAI_API_KEY')
 const anthropicApiKey = Deno.env.get('ANTHROPIC_API_KEY')
 
@@ -86,9 +97,9 @@ serve(async (req) => {
       })
     }
 
-    const { conversationId, message, fileData, messageType = 'text', chatMode = false }: AIRequest = await req.json()
+    const { conversationId, message, fileData, messageType = 'text', chatMode = false, stream = false }: AIRequest = await req.json()
 
-    console.log('Processing AI request:', { conversationId, message: message.substring(0, 100) })
+    console.log('Processing AI request:', { conversationId, message: message.substring(0, 100), stream })
 
     // Get conversation context
     const { data: conversation, error: convError } = await supabaseClient
@@ -114,10 +125,7 @@ serve(async (req) => {
       console.error('Error fetching messages:', messagesError)
     }
 
-    // Process the AI request
-    const aiResponse = await processAIRequest(message, fileData, recentMessages || [], chatMode)
-
-    // Store the user message
+    // Store the user message first, so it is kept when the reply is stopped
     const { error: userMessageError } = await supabaseClient
       .from('ai_messages')
       .insert({
@@ -131,61 +139,21 @@ serve(async (req) => {
       console.error('Error storing user message:', userMessageError)
     }
 
-    // Store the AI response
-    const { data: aiMessageData, error: aiMessageError } = await supabaseClient
-      .from('ai_messages')
-      .insert({
-        conversation_id: conversationId,
-        role: 'assistant',
-        content: aiResponse.message,
-        message_type: aiResponse.messageType,
-        metadata: aiResponse.metadata || {}
-      })
-      .select()
-      .single()
-
-    if (aiMessageError) {
-      throw new Error(`Failed to store AI message: ${aiMessageError.message}`)
-    }
-
-    // Auto-generate conversation title based on first user message
-    await updateConversationTitle(supabaseClient, conversation, message)
-
-    // Store any actions if present
-    if (aiResponse.actions && aiResponse.actions.length > 0) {
-      const actionPromises = aiResponse.actions.map(action => 
-        supabaseClient
-          .from('ai_actions')
-          .insert({
-            conversation_id: conversationId,
-            message_id: aiMessageData.id,
-            action_type: action.type,
-            action_data: action.data,
-            status: 'pending'
-          })
-      )
-
-      await Promise.all(actionPromises)
+    if (stream) {
+      return streamReply(supabaseClient, conversation, req, message, fileData, recentMessages || [], chatMode)
     }
 
-    // Update conversation timestamp
-    await supabaseClient
-      .from('ai_conversations')
-      .update({ 
-        last_message_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', conversationId)
+    // Process the AI request
+    const aiResponse = await processAIRequest(message, fileData, recentMessages || [], chatMode, {
+      onText: () => {},
+      onTool: () => {}
+    })
+    const reply = await storeReply(supabaseClient, conversation, message, aiResponse)
 
     return new Response(
       JSON.stringify({
         success: true,
-        data: {
-          messageId: aiMessageData.id,
-          response: aiResponse.message,
-          messageType: aiResponse.messageType,
-          actions: aiResponse.actions || []
-        }
+        data: reply
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -208,51 +176,209 @@ serve(async (req) => {
   }
 })
 
+// Streams the reply to the app as server-sent events: `delta` with each
+// piece of text, `tool` when the model calls a tool, then `done` once the
+// reply is stored or `error`. When the app cancels the stream or goes
+// away, generation stops and the text so far is stored as the reply, unless
+// it stopped before any text or tool call.
+function streamReply(
+  supabaseClient: SupabaseClient,
+  conversation: Conversation,
+  req: Request,
+  message: string,
+  fileData: FileData,
+  conversationHistory: Array<{ role: string, content: string, message_type: string }>,
+  chatMode: boolean
+): Response {
+  const encoder = new TextEncoder()
+  const controller = new AbortController()
+  req.signal?.addEventListener('abort', () => controller.abort())
+  let streamed = ''
+  let calledTools = false
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(output) {
+      const send = (event: string, data: unknown) => {
+        if (!controller.signal.aborted) output.enqueue(encoder.encode(formatEvent(event, data)))
+      }
+
+      try {
+        const aiResponse = await processAIRequest(message, fileData, conversationHistory, chatMode, {
+          onText: text => {
+            streamed += text
+            send('delta', { text })
+          },
+          onTool: name => {
+            calledTools = true
+            send('tool', { name })
+          },
+          signal: controller.signal
+        })
+        send('done', await storeReply(supabaseClient, conversation, message, aiResponse))
+      } catch (error) {
+        if (controller.signal.aborted) {
+          console.log('AI reply stopped after', streamed.length, 'characters')
+          if (!streamed.trim() && !calledTools) return
+          try {
+            await storeReply(supabaseClient, conversation, message, {
+              message: streamed.trim(),
+              messageType: 'text',
+              metadata: { stopped: true, timestamp: new Date().toISOString() }
+            })
+          } catch (storeError) {
+            console.error('Error storing stopped reply:', storeError)
+          }
+        } else {
+          console.error('AI Assistant Error:', error)
+          send('error', { error: error.message })
+        }
+      } finally {
+        if (!controller.signal.aborted) output.close()
+      }
+    },
+    cancel() {
+      controller.abort()
+    }
+  })
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache'
+    }
+  })
+}
+
+// Stores the assistant's reply with its proposed edits, names a new
+// conversation after its first message and returns what the app is sent
+async function storeReply(
+  supabaseClient: SupabaseClient,
+  conversation: Conversation,
+  message: string,
+  aiResponse: AIResponse
+) {
+  const { data: aiMessageData, error: aiMessageError } = await supabaseClient
+    .from('ai_messages')
+    .insert({
+      conversation_id: conversation.id,
+      role: 'assistant',
+      content: aiResponse.message,
+      message_type: aiResponse.messageType,
+      metadata: aiResponse.metadata || {}
+    })
+    .select()
+    .single()
+
+  if (aiMessageError) {
+    throw new Error(`Failed to store AI message: ${aiMessageError.message}`)
+  }
+
+  // Auto-generate conversation title based on first user message
+  await updateConversationTitle(supabaseClient, conversation, message)
+
+  // Store the proposed edits; the app applies them and records the outcome
+  let actions: Array<{ action_data: ProposedAction['data'] }> = []
+  if (aiResponse.actions && aiResponse.actions.length > 0) {
+    const { data: actionRows, error: actionsError } = await supabaseClient
+      .from('ai_actions')
+      .insert(aiResponse.actions.map(action => ({
+        conversation_id: conversation.id,
+        message_id: aiMessageData.id,
+        action_type: action.type,
+        action_data: action.data,
+        status: 'pending'
+      })))
+      .select()
+
+    if (actionsError) {
+      throw new Error(`Failed to store AI actions: ${actionsError.message}`)
+    }
+    // Rows inserted together share created_at, so order them by step
+    const storedActions: Array<{ action_data: ProposedAction['data'] }> = actionRows || []
+    actions = storedActions.sort((a, b) => a.action_data.step - b.action_data.step)
+  }
+
+  // Update conversation timestamp
+  await supabaseClient
+    .from('ai_conversations')
+    .update({
+      last_message_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', conversation.id)
+
+  return {
+    messageId: aiMessageData.id,
+    response: aiResponse.message,
+    messageType: aiResponse.messageType,
+    actions
+  }
+}
+
 async function processAIRequest(
-  message: string, 
-  fileData: { headers: string[], rows: Array<Record<string, string>> },
+  message: string,
+  fileData: FileData,
   conversationHistory: Array<{ role: string, content: string, message_type: string }>,
-  chatMode: boolean = false
+  chatMode: boolean,
+  handlers: StreamHandlers
 ): Promise<AIResponse> {
-  
-  const intent = analyzeUserIntent(message, chatMode)
-  
-  // Prepare context for AI
-  const dataContext = `
-File Data Summary:
-- Columns (${fileData.headers.length}): ${fileData.headers.join(', ')}
-- Rows: ${fileData.rows.length}
-- Complete data (all rows): ${JSON.stringify(fileData.rows, null, 2)}
-`
+
+  if (!anthropicApiKey && !openAIApiKey) {
+    // Fallback to enhanced rule-based system
+    const intent = analyzeUserIntent(message, chatMode)
+    const reply = await fallbackAIResponse(message, fileData, intent)
+    handlers.onText(reply)
+    return {
+      message: reply,
+      messageType: intent.messageType,
+      metadata: { intent, timestamp: new Date().toISOString() }
+    }
+  }
 
   const conversationContext = conversationHistory.length > 0 
     ? `\nRecent conversation:\n${conversationHistory.reverse().map(msg => `${msg.role}: ${msg.content}`).join('\n')}`
     : ''
 
-  // Choose AI provider and make request
-  let aiResponse: string
-  
-  if (anthropicApiKey) {
-    aiResponse = await callAnthropicAI(message, dataContext, conversationContext, intent)
-  } else if (openAIApiKey) {
-    aiResponse = await callOpenAI(message, dataContext, conversationContext, intent)
-  } else {
-    // Fallback to enhanced rule-based system
-    aiResponse = await fallbackAIResponse(message, fileData, intent)
-  }
+  // Large tables do not fit the prompt: the model gets column statistics
+  // and the rows the question points at, within what the conversation
+  // leaves of the provider's budget
+  const provider: Provider = anthropicApiKey ? 'anthropic' : 'openai'
+  const context = buildDataContext(
+    fileData,
+    message,
+    getTokenBudget(provider) - estimateTokens(conversationContext + message)
+  )
+  const dataContext = `
+File Data Summary:
+${context.text}
+`
+
+  // The model works out answers and proposes edits through tools run here
+  // on the table, so numbers in the reply are computed, not guessed
+  const session = createToolSession(fileData)
+  const reply = anthropicApiKey
+    ? await callAnthropicAI(message, dataContext, conversationContext, chatMode, session, handlers)
+    : await callOpenAI(message, dataContext, conversationContext, chatMode, session, handlers)
 
   return {
-    message: aiResponse,
-    messageType: intent.messageType,
-    actions: intent.actions,
-    metadata: { intent, timestamp: new Date().toISOString() }
+    message: reply || (session.actions.length > 0 ? 'Here are the changes I propose.' : 'Done.'),
+    messageType: session.actions.length > 0 ? 'action' : 'text',
+    actions: session.actions,
+    metadata: {
+      toolCalls: session.calls,
+      charts: session.charts,
+      exports: session.exports,
+      context: { includedRows: context.includedRows, totalRows: context.totalRows, matchedRows: context.matchedRows },
+      timestamp: new Date().toISOString()
+    }
   }
 }
 
+// Only the rule-based fallback uses this; the models use tools instead
 function analyzeUserIntent(message: string, chatMode: boolean = false): { 
   type: string
   messageType: 'text' | 'action' | 'formula' | 'error'
-  actions?: Array<{ type: 'cell_edit' | 'formula_add' | 'data_transform' | 'export' | 'analysis', data: any }>
 } {
   const lowerMessage = message.toLowerCase()
   
@@ -262,8 +388,7 @@ function analyzeUserIntent(message: string, chatMode: boolean = false): {
     if (lowerMessage.includes('create formula') || lowerMessage.includes('write formula') || lowerMessage.includes('give me formula')) {
       return { 
         type: 'formula_add', 
-        messageType: 'formula',
-        actions: [{ type: 'formula_add', data: { message } }]
+        messageType: 'formula'
       }
     }
     
@@ -276,8 +401,7 @@ function analyzeUserIntent(message: string, chatMode: boolean = false): {
   if (lowerMessage.includes('edit') || lowerMessage.includes('change') || lowerMessage.includes('update') && (lowerMessage.includes('cell') || lowerMessage.includes('row') || lowerMessage.includes('column'))) {
     return { 
       type: 'cell_edit', 
-      messageType: 'action',
-      actions: [{ type: 'cell_edit', data: { message } }]
+      messageType: 'action'
     }
   }
   
@@ -285,8 +409,7 @@ function analyzeUserIntent(message: string, chatMode: boolean = false): {
   if (lowerMessage.includes('formula') || lowerMessage.includes('calculate') || lowerMessage.includes('sum') || lowerMessage.includes('average') || lowerMessage.includes('count')) {
     return { 
       type: 'formula_add', 
-      messageType: 'formula',
-      actions: [{ type: 'formula_add', data: { message } }]
+      messageType: 'formula'
     }
   }
   
@@ -294,8 +417,7 @@ function analyzeUserIntent(message: string, chatMode: boolean = false): {
   if (lowerMessage.includes('analyze') || lowerMessage.includes('insights') || lowerMessage.includes('summary') || lowerMessage.includes('statistics')) {
     return { 
       type: 'data_analysis', 
-      messageType: 'action',
-      actions: [{ type: 'analysis', data: { message } }]
+      messageType: 'action'
     }
   }
   
@@ -303,26 +425,44 @@ function analyzeUserIntent(message: string, chatMode: boolean = false): {
   if (lowerMessage.includes('export') || lowerMessage.includes('download') || lowerMessage.includes('save')) {
     return { 
       type: 'export', 
-      messageType: 'action',
-      actions: [{ type: 'export', data: { message } }]
+      messageType: 'action'
     }
   }
   
   return { type: 'general', messageType: 'text' }
 }
 
+interface AnthropicBlock {
+  type: string
+  text?: string
+  id?: string
+  name?: string
+  input?: unknown
+}
+
+interface OpenAIToolCall {
+  id: string
+  type: 'function'
+  function: { name: string; arguments: string }
+}
+
+// Calls the model until it answers in text, running the tools it calls in
+// between; the last round may not call tools. Text is streamed to the
+// handlers as it arrives and the reply is the text of every round.
 async function callAnthropicAI(
   message: string, 
   dataContext: string, 
   conversationContext: string,
-  intent: any
+  chatMode: boolean,
+  session: ToolSession,
+  handlers: StreamHandlers
 ): Promise<string> {
   const systemPrompt = `You are an expert data analysis assistant for a spreadsheet application. You help users analyze, manipulate, and understand their data.
 
 Context about the current file:
 ${dataContext}
 
-${intent.type === 'chat_query' ? `
+${chatMode ? `
 **CHAT MODE - Conversational Responses Only**
 - Provide direct, simple answers to user questions
 - Do NOT suggest formulas unless explicitly asked
@@ -346,50 +486,100 @@ Guidelines:
 - Always consider the user's data context when responding
 - If suggesting changes, be specific about rows, columns, and values
 `}
+${TOOLS_PROMPT}`
 
-Current user intent: ${intent.type}`
+  const messages: Array<{ role: 'user' | 'assistant'; content: unknown }> = [
+    {
+      role: 'user',
+      content: `${conversationContext}\n\nUser request: ${message}`
+    }
+  ]
+
+  const reply = createReplyWriter(handlers.onText)
+
+  for (let round = 1; ; round++) {
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': anthropicApiKey!,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model: 'claude-3-sonnet-20240229',
+        max_tokens: 1000,
+        temperature: 0.3,
+        system: systemPrompt,
+        messages,
+        tools: getAnthropicTools(),
+        stream: true,
+        ...(round === MAX_TOOL_ROUNDS ? { tool_choice: { type: 'none' } } : {})
+      }),
+      signal: handlers.signal
+    })
 
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': anthropicApiKey!,
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model: 'claude-3-sonnet-20240229',
-      max_tokens: 1000,
-      temperature: 0.3,
-      system: systemPrompt,
-      messages: [
-        {
-          role: 'user',
-          content: `${conversationContext}\n\nUser request: ${message}`
+    if (!response.ok || !response.body) {
+      throw new Error(`Anthropic API error: ${response.status}`)
+    }
+
+    // Content blocks are built from their deltas; tool inputs arrive as
+    // pieces of JSON
+    const blocks: AnthropicBlock[] = []
+    const inputJson: string[] = []
+    let stopReason = ''
+    for await (const { data } of readServerSentEvents(response.body)) {
+      const event = JSON.parse(data)
+      if (event.type === 'content_block_start') {
+        blocks[event.index] = { ...event.content_block }
+        inputJson[event.index] = ''
+        if (event.content_block.type === 'tool_use') handlers.onTool(event.content_block.name)
+      } else if (event.type === 'content_block_delta') {
+        if (event.delta.type === 'text_delta') {
+          blocks[event.index].text = (blocks[event.index].text || '') + event.delta.text
+          reply.write(event.delta.text)
+        } else if (event.delta.type === 'input_json_delta') {
+          inputJson[event.index] += event.delta.partial_json
         }
-      ]
-    })
-  })
+      } else if (event.type === 'content_block_stop' && blocks[event.index].type === 'tool_use') {
+        blocks[event.index].input = JSON.parse(inputJson[event.index] || '{}')
+      } else if (event.type === 'message_delta') {
+        stopReason = event.delta.stop_reason || stopReason
+      } else if (event.type === 'error') {
+        throw new Error(`Anthropic API error: ${event.error?.message || 'stream failed'}`)
+      }
+    }
 
-  if (!response.ok) {
-    throw new Error(`Anthropic API error: ${response.status}`)
-  }
+    const toolUses = blocks.filter(block => block.type === 'tool_use')
+    if (stopReason !== 'tool_use' || toolUses.length === 0) {
+      return reply.text()
+    }
 
-  const data = await response.json()
-  return data.content[0].text
+    reply.nextRound()
+    messages.push({ role: 'assistant', content: blocks.filter(block => block.type !== 'text' || block.text) })
+    messages.push({
+      role: 'user',
+      content: toolUses.map(block => {
+        const { result, isError } = runTool(session, block.name!, block.input)
+        return { type: 'tool_result', tool_use_id: block.id, content: JSON.stringify(result), is_error: isError }
+      })
+    })
+  }
 }
 
 async function callOpenAI(
   message: string, 
   dataContext: string, 
   conversationContext: string,
-  intent: any
+  chatMode: boolean,
+  session: ToolSession,
+  handlers: StreamHandlers
 ): Promise<string> {
   const systemPrompt = `You are an expert data analysis assistant for a spreadsheet application. You help users analyze, manipulate, and understand their spreadsheet data.
 
 Context about the current file:
 ${dataContext}
 
-${intent.type === 'chat_query' ? `
+${chatMode ? `
 **CHAT MODE - Conversational Responses Only**
 - Provide direct, simple answers to user questions
 - Do NOT suggest formulas unless explicitly asked
@@ -413,32 +603,82 @@ Guidelines:
 - Consider the user's data context
 - Be specific about rows, columns, and values when suggesting changes
 `}
+${TOOLS_PROMPT}`
+
+  const messages: Array<Record<string, unknown>> = [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: `${conversationContext}\n\nUser request: ${message}` }
+  ]
+
+  const reply = createReplyWriter(handlers.onText)
+
+  for (let round = 1; ; round++) {
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${openAIApiKey}`
+      },
+      body: JSON.stringify({
+        model: 'gpt-4o-mini',
+        messages,
+        max_tokens: 1000,
+        temperature: 0.3,
+        tools: getOpenAITools(),
+        stream: true,
+        ...(round === MAX_TOOL_ROUNDS ? { tool_choice: 'none' } : {})
+      }),
+      signal: handlers.signal
+    })
 
-Current user intent: ${intent.type}`
+    if (!response.ok || !response.body) {
+      throw new Error(`OpenAI API error: ${response.status}`)
+    }
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${openAIApiKey}`
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o-mini',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: `${conversationContext}\n\nUser request: ${message}` }
-      ],
-      max_tokens: 1000,
-      temperature: 0.3
-    })
-  })
+    // Tool calls arrive in pieces, matched up by their index
+    let content = ''
+    const toolCalls: OpenAIToolCall[] = []
+    for await (const { data } of readServerSentEvents(response.body)) {
+      if (data === '[DONE]') break
+      const delta = JSON.parse(data).choices?.[0]?.delta
+      if (!delta) continue
+      if (delta.content) {
+        content += delta.content
+        reply.write(delta.content)
+      }
+      const pieces: Array<{ index: number; id?: string; function?: { name?: string; arguments?: string } }> =
+        delta.tool_calls || []
+      for (const piece of pieces) {
+        if (!toolCalls[piece.index]) {
+          toolCalls[piece.index] = { id: '', type: 'function', function: { name: '', arguments: '' } }
+        }
+        const call = toolCalls[piece.index]
+        if (piece.id) call.id = piece.id
+        if (piece.function?.name) {
+          call.function.name += piece.function.name
+          handlers.onTool(piece.function.name)
+        }
+        if (piece.function?.arguments) call.function.arguments += piece.function.arguments
+      }
+    }
 
-  if (!response.ok) {
-    throw new Error(`OpenAI API error: ${response.status}`)
-  }
+    if (toolCalls.length === 0) {
+      return reply.text()
+    }
 
-  const data = await response.json()
-  return data.choices[0].message.content
+    reply.nextRound()
+    messages.push({ role: 'assistant', content: content || null, tool_calls: toolCalls })
+    toolCalls.forEach(call => {
+      let input: unknown
+      try {
+        input = JSON.parse(call.function.arguments)
+      } catch {
+        input = undefined
+      }
+      const { result } = runTool(session, call.function.name, input)
+      messages.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(result) })
+    })
+  }
 }
 
 async function fallbackAIResponse(
@@ -0,0 +1,153 @@
+// Edits the assistant can make to the table. Rows are numbered from 1, as
+// the user sees them. Operations run in order, each on the table left by
+// the one before, and are applied by the app, not here.
+export type TableOperation =
+  | { op: 'set_cells'; cells: Array<{ row: number; column: string; value: string }> }
+  | { op: 'add_column'; name: string; expression: string; after?: string }
+  | { op: 'delete_rows'; rows: number[] }
+  | { op: 'rename_column'; from: string; to: string }
+  | { op: 'sort_rows'; column: string; direction: 'asc' | 'desc' }
+
+export interface ProposedAction {
+  type: 'cell_edit' | 'formula_add' | 'data_transform'
+  data: {
+    operation: TableOperation
+    description: string
+    // Position in the reply, from 1; operations are applied in this order
+    step: number
+  }
+}
+
+const ACTION_TYPES: Record<TableOperation['op'], ProposedAction['type']> = {
+  set_cells: 'cell_edit',
+  add_column: 'formula_add',
+  delete_rows: 'data_transform',
+  rename_column: 'data_transform',
+  sort_rows: 'data_transform'
+}
+
+// Cells one set_cells operation may change, so a runaway reply cannot
+// rewrite the whole table unseen
+const MAX_CELLS_PER_OPERATION = 500
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== ''
+}
+
+function isRowNumber(value: unknown, rowCount: number): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= rowCount
+}
+
+export function describeOperation(operation: TableOperation): string {
+  switch (operation.op) {
+    case 'set_cells':
+      return operation.cells.length === 1
+        ? `Set ${operation.cells[0].column} in row ${operation.cells[0].row} to "${operation.cells[0].value}"`
+        : `Change ${operation.cells.length} cells`
+    case 'add_column':
+      return `Add column ${operation.name} = ${operation.expression}`
+    case 'delete_rows':
+      return `Delete row${operation.rows.length === 1 ? '' : 's'} ${operation.rows.join(', ')}`
+    case 'rename_column':
+      return `Rename column ${operation.from} to ${operation.to}`
+    case 'sort_rows':
+      return `Sort by ${operation.column}, ${operation.direction === 'asc' ? 'ascending' : 'descending'}`
+  }
+}
+
+// Check one operation against the columns and row count it will run on
+function checkOperation(raw: unknown, headers: string[], rowCount: number): TableOperation | string {
+  if (!raw || typeof raw !== 'object') return 'not an object'
+  const operation = raw as Record<string, unknown>
+  const hasColumn = (name: unknown) => isText(name) && headers.includes(name)
+
+  switch (operation.op) {
+    case 'set_cells': {
+      const cells = operation.cells
+      if (!Array.isArray(cells) || cells.length === 0) return 'set_cells needs cells'
+      if (cells.length > MAX_CELLS_PER_OPERATION) return `set_cells may change at most ${MAX_CELLS_PER_OPERATION} cells`
+      for (const cell of cells) {
+        if (!isRowNumber(cell?.row, rowCount)) return `row ${cell?.row} does not exist`
+        if (!hasColumn(cell.column)) return `column ${cell.column} does not exist`
+        if (typeof cell.value !== 'string' && typeof cell.value !== 'number') return 'cell values must be text or numbers'
+      }
+      return {
+        op: 'set_cells',
+        cells: cells.map(cell => ({ row: cell.row, column: cell.column, value: String(cell.value) }))
+      }
+    }
+    case 'add_column': {
+      if (!isText(operation.name)) return 'add_column needs a name'
+      if (headers.includes(operation.name.trim())) return `column ${operation.name} already exists`
+      if (!isText(operation.expression)) return 'add_column needs an expression'
+      const expression = operation.expression
+      const referenced = [...expression.matchAll(/\[([^\]]+)\]/g)].map(match => match[1])
+      const unknown = referenced.find(name => !headers.includes(name))
+      if (unknown) return `column ${unknown} does not exist`
+      if (!/^[\d\s.+\-*/()]*$/.test(expression.replace(/\[[^\]]+\]/g, ''))) {
+        return 'expressions may only use columns, numbers, + - * / and parentheses'
+      }
+      if (operation.after !== undefined && !hasColumn(operation.after)) return `column ${operation.after} does not exist`
+      return {
+        op: 'add_column',
+        name: operation.name.trim(),
+        expression,
+        after: operation.after as string | undefined
+      }
+    }
+    case 'delete_rows': {
+      const rows = operation.rows
+      if (!Array.isArray(rows) || rows.length === 0) return 'delete_rows needs rows'
+      const missing = rows.find(row => !isRowNumber(row, rowCount))
+      if (missing !== undefined) return `row ${missing} does not exist`
+      if (new Set(rows).size >= rowCount) return 'cannot delete every row'
+      return { op: 'delete_rows', rows: [...new Set(rows as number[])].sort((a, b) => a - b) }
+    }
+    case 'rename_column': {
+      if (!hasColumn(operation.from)) return `column ${operation.from} does not exist`
+      if (!isText(operation.to)) return 'rename_column needs a new name'
+      const to = operation.to.trim()
+      if (to !== operation.from && headers.includes(to)) return `column ${to} already exists`
+      return { op: 'rename_column', from: operation.from as string, to }
+    }
+    case 'sort_rows': {
+      if (!hasColumn(operation.column)) return `column ${operation.column} does not exist`
+      const direction = operation.direction === 'desc' ? 'desc' : 'asc'
+      return { op: 'sort_rows', column: operation.column as string, direction }
+    }
+    default:
+      return `unknown operation ${String(operation.op)}`
+  }
+}
+
+// The columns and row count an operation will run on: the table as sent,
+// changed by the operations proposed before it
+export interface TableShape {
+  headers: string[]
+  rowCount: number
+}
+
+// Check an operation the model proposed and make it an action with the
+// given step, together with the shape of the table after it. A string
+// says why it cannot be applied.
+export function proposeOperation(
+  raw: unknown,
+  shape: TableShape,
+  step: number
+): { action: ProposedAction; shape: TableShape } | string {
+  const checked = checkOperation(raw, shape.headers, shape.rowCount)
+  if (typeof checked === 'string') return checked
+
+  let { headers, rowCount } = shape
+  if (checked.op === 'add_column') headers = [...headers, checked.name]
+  if (checked.op === 'rename_column') headers = headers.map(column => column === checked.from ? checked.to : column)
+  if (checked.op === 'delete_rows') rowCount -= checked.rows.length
+
+  return {
+    action: {
+      type: ACTION_TYPES[checked.op],
+      data: { operation: checked, description: describeOperation(checked), step }
+    },
+    shape: { headers, rowCount }
+  }
+}
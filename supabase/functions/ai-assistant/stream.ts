@@ -0,0 +1,64 @@
+// Where a reply goes while it is generated: text as it arrives and the
+// tools the model calls. Aborting the signal stops the provider request.
+export interface StreamHandlers {
+  onText: (text: string) => void
+  onTool: (name: string) => void
+  signal?: AbortSignal
+}
+
+export interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+// Events of a provider's server-sent event stream as they arrive
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) break
+    buffer += value
+
+    const blocks = buffer.split(/\r?\n\r?\n/)
+    buffer = blocks.pop() || ''
+    for (const block of blocks) {
+      let event = 'message'
+      const data: string[] = []
+      block.split(/\r?\n/).forEach(line => {
+        if (line.startsWith('event:')) event = line.slice(6).trim()
+        else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''))
+      })
+      if (data.length > 0) yield { event, data: data.join('\n') }
+    }
+  }
+}
+
+// One event for the app
+export function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+// The reply across tool rounds as it streams; text of a later round starts
+// a new paragraph
+export function createReplyWriter(onText: (text: string) => void) {
+  let reply = ''
+  let roundStarted = false
+
+  return {
+    write(text: string) {
+      if (!text) return
+      const chunk = !roundStarted && reply ? `\n\n${text}` : text
+      roundStarted = true
+      reply += chunk
+      onText(chunk)
+    },
+    nextRound() {
+      roundStarted = false
+    },
+    text(): string {
+      return reply.trim()
+    }
+  }
+}
@@ -0,0 +1,474 @@
+import { ProposedAction, TableShape, proposeOperation } from './operations.ts'
+import { ChartSpec, ColumnSchema, ExportSpec, FileData, ToolCallRecord } from './types.ts'
+import { compareValues, parseNumber, round } from './values.ts'
+
+// A tool the model can call, with its input as JSON Schema
+interface ToolDefinition {
+  name: string
+  description: string
+  parameters: Record<string, unknown>
+}
+
+type Operator = 'equals' | 'not_equals' | 'contains' | 'greater_than' | 'less_than' | 'is_empty' | 'not_empty'
+type AggregateFunction = 'sum' | 'average' | 'min' | 'max' | 'count' | 'count_distinct'
+
+interface Condition {
+  column: string
+  operator: Operator
+  value?: string
+}
+
+interface Group {
+  label: string
+  value: number | null
+  rows: number
+}
+
+const OPERATORS: Operator[] = ['equals', 'not_equals', 'contains', 'greater_than', 'less_than', 'is_empty', 'not_empty']
+const FUNCTIONS: AggregateFunction[] = ['sum', 'average', 'min', 'max', 'count', 'count_distinct']
+
+// For chart titles and legends
+const FUNCTION_LABELS: Record<AggregateFunction, string> = {
+  sum: 'Sum',
+  average: 'Average',
+  min: 'Minimum',
+  max: 'Maximum',
+  count: 'Count',
+  count_distinct: 'Distinct values'
+}
+
+// Tools that propose an edit, and the operation each one becomes
+const EDIT_TOOLS: Record<string, string> = {
+  edit_cells: 'set_cells',
+  add_formula_column: 'add_column',
+  delete_rows: 'delete_rows',
+  rename_column: 'rename_column',
+  sort_rows: 'sort_rows'
+}
+
+// Rows filter_rows returns by default and at most
+const DEFAULT_ROW_LIMIT = 20
+const MAX_ROW_LIMIT = 100
+const MAX_GROUPS = 200
+const MAX_CHART_POINTS = 50
+const MAX_EXPORT_ROWS = 5000
+
+const WHERE_SCHEMA = {
+  type: 'array',
+  description: 'Conditions a row must all meet. greater_than and less_than compare numbers and dates by value.',
+  items: {
+    type: 'object',
+    properties: {
+      column: { type: 'string' },
+      operator: { type: 'string', enum: OPERATORS },
+      value: { type: 'string', description: 'Not needed for is_empty and not_empty' }
+    },
+    required: ['column', 'operator']
+  }
+}
+
+const FUNCTION_SCHEMA = {
+  type: 'string',
+  enum: FUNCTIONS,
+  description: 'count counts filled cells, or rows when no column is given'
+}
+
+const TOOLS: ToolDefinition[] = [
+  {
+    name: 'filter_rows',
+    description: 'Find the rows that meet conditions. Returns how many match and the first of them with their row numbers.',
+    parameters: {
+      type: 'object',
+      properties: {
+        where: WHERE_SCHEMA,
+        columns: { type: 'array', items: { type: 'string' }, description: 'Columns to return; all when left out' },
+        limit: { type: 'integer', description: `Rows to return, at most ${MAX_ROW_LIMIT}` }
+      },
+      required: ['where']
+    }
+  },
+  {
+    name: 'aggregate',
+    description: 'Compute a sum, average, minimum, maximum or count over a column, optionally of the rows that meet conditions. Amounts such as "₹ 1,25,000/-" are read as numbers.',
+    parameters: {
+      type: 'object',
+      properties: {
+        function: FUNCTION_SCHEMA,
+        column: { type: 'string' },
+        where: WHERE_SCHEMA
+      },
+      required: ['function']
+    }
+  },
+  {
+    name: 'group_by',
+    description: 'Group rows by the values of a column and compute one value per group.',
+    parameters: {
+      type: 'object',
+      properties: {
+        by: { type: 'string', description: 'Column whose values form the groups' },
+        function: FUNCTION_SCHEMA,
+        column: { type: 'string', description: 'Column to compute over; not needed for count' },
+        where: WHERE_SCHEMA
+      },
+      required: ['by', 'function']
+    }
+  },
+  {
+    name: 'add_formula_column',
+    description: 'Propose a new column computed for every row from an expression using [Column] references, numbers, + - * / and parentheses.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        expression: { type: 'string', description: 'For example [Qty] * [Rate]' },
+        after: { type: 'string', description: 'Column to place it after; last when left out' }
+      },
+      required: ['name', 'expression']
+    }
+  },
+  {
+    name: 'edit_cells',
+    description: 'Propose new values for cells, by row number and column.',
+    parameters: {
+      type: 'object',
+      properties: {
+        cells: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              row: { type: 'integer' },
+              column: { type: 'string' },
+              value: { type: 'string' }
+            },
+            required: ['row', 'column', 'value']
+          }
+        }
+      },
+      required: ['cells']
+    }
+  },
+  {
+    name: 'delete_rows',
+    description: 'Propose deleting rows by number.',
+    parameters: {
+      type: 'object',
+      properties: { rows: { type: 'array', items: { type: 'integer' } } },
+      required: ['rows']
+    }
+  },
+  {
+    name: 'rename_column',
+    description: 'Propose renaming a column.',
+    parameters: {
+      type: 'object',
+      properties: { from: { type: 'string' }, to: { type: 'string' } },
+      required: ['from', 'to']
+    }
+  },
+  {
+    name: 'sort_rows',
+    description: 'Propose sorting the rows by a column, compared by its type.',
+    parameters: {
+      type: 'object',
+      properties: {
+        column: { type: 'string' },
+        direction: { type: 'string', enum: ['asc', 'desc'] }
+      },
+      required: ['column', 'direction']
+    }
+  },
+  {
+    name: 'create_chart',
+    description: 'Draw a chart for the user of one value per group of rows, grouped by a label column.',
+    parameters: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: ['bar', 'line', 'pie'] },
+        title: { type: 'string' },
+        label_column: { type: 'string' },
+        function: FUNCTION_SCHEMA,
+        value_column: { type: 'string', description: 'Column to compute over; not needed for count' },
+        where: WHERE_SCHEMA
+      },
+      required: ['type', 'label_column', 'function']
+    }
+  },
+  {
+    name: 'export',
+    description: 'Prepare a CSV or Excel file of the table, or of some of its rows and columns, for the user to download.',
+    parameters: {
+      type: 'object',
+      properties: {
+        format: { type: 'string', enum: ['csv', 'xlsx'] },
+        columns: { type: 'array', items: { type: 'string' }, description: 'Columns to include; all when left out' },
+        where: WHERE_SCHEMA,
+        filename: { type: 'string' }
+      },
+      required: ['format']
+    }
+  }
+]
+
+export const TOOLS_PROMPT = `
+**Tools**
+Use the tools for anything worked out from the data: totals, averages, counts, filters, groups and charts. Do not calculate numbers yourself; give the ones the tools return.
+To change the table, use edit_cells, add_formula_column, delete_rows, rename_column or sort_rows. These only propose the change: the user reviews it before it is applied, so say what you proposed, not that it is done. Proposals run in order, each on the table left by the one before.
+The other tools read the table as it is now, without the changes you proposed. Rows are numbered from 1.`
+
+export function getAnthropicTools() {
+  return TOOLS.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }))
+}
+
+export function getOpenAITools() {
+  return TOOLS.map(tool => ({ type: 'function', function: tool }))
+}
+
+// What the tool calls of one reply produced: the edits they proposed, the
+// charts and files they prepared, and each call with its result
+export interface ToolSession {
+  fileData: FileData
+  // The table after the edits proposed so far
+  shape: TableShape
+  actions: ProposedAction[]
+  charts: ChartSpec[]
+  exports: ExportSpec[]
+  calls: ToolCallRecord[]
+}
+
+export function createToolSession(fileData: FileData): ToolSession {
+  return {
+    fileData,
+    shape: { headers: fileData.headers, rowCount: fileData.rows.length },
+    actions: [],
+    charts: [],
+    exports: [],
+    calls: []
+  }
+}
+
+function requireColumn(session: ToolSession, column: unknown): string {
+  if (typeof column !== 'string' || !session.fileData.headers.includes(column)) {
+    throw new Error(`Column ${String(column)} does not exist. Columns: ${session.fileData.headers.join(', ')}`)
+  }
+  return column
+}
+
+function readConditions(session: ToolSession, where: unknown): Condition[] {
+  if (where === undefined) return []
+  if (!Array.isArray(where)) throw new Error('where must be a list of conditions')
+  return where.map(condition => {
+    if (!OPERATORS.includes(condition?.operator)) throw new Error(`Unknown operator ${condition?.operator}`)
+    return {
+      column: requireColumn(session, condition.column),
+      operator: condition.operator,
+      value: condition.value === undefined ? undefined : String(condition.value)
+    }
+  })
+}
+
+function meets(row: Record<string, string>, condition: Condition, schema?: ColumnSchema): boolean {
+  const cell = (row[condition.column] || '').trim()
+  const value = (condition.value || '').trim()
+  switch (condition.operator) {
+    case 'is_empty': return cell === ''
+    case 'not_empty': return cell !== ''
+    case 'equals': return compareValues(cell, value, schema) === 0
+    case 'not_equals': return compareValues(cell, value, schema) !== 0
+    case 'contains': return cell.toLowerCase().includes(value.toLowerCase())
+    case 'greater_than': return cell !== '' && compareValues(cell, value, schema) > 0
+    case 'less_than': return cell !== '' && compareValues(cell, value, schema) < 0
+  }
+}
+
+// Indexes of the rows that meet every condition
+function selectRows(session: ToolSession, where: unknown): number[] {
+  const conditions = readConditions(session, where)
+  const { rows, schema } = session.fileData
+  return rows
+    .map((_, index) => index)
+    .filter(index => conditions.every(condition => meets(rows[index], condition, schema?.[condition.column])))
+}
+
+function readFunction(value: unknown): AggregateFunction {
+  if (!FUNCTIONS.includes(value as AggregateFunction)) throw new Error(`Unknown function ${String(value)}`)
+  return value as AggregateFunction
+}
+
+// One value over the given rows. Empty cells are left out; so are cells that
+// are not numbers for the numeric functions, and they are counted as skipped.
+function computeValue(
+  session: ToolSession,
+  indexes: number[],
+  fn: AggregateFunction,
+  column?: string
+): { value: number | null; skipped: number } {
+  if (!column) {
+    if (fn !== 'count') throw new Error(`${fn} needs a column`)
+    return { value: indexes.length, skipped: 0 }
+  }
+
+  const cells = indexes.map(index => (session.fileData.rows[index][column] || '').trim()).filter(Boolean)
+  if (fn === 'count') return { value: cells.length, skipped: 0 }
+  if (fn === 'count_distinct') return { value: new Set(cells.map(cell => cell.toLowerCase())).size, skipped: 0 }
+
+  const numbers = cells.map(parseNumber).filter((number): number is number => number !== null)
+  const skipped = cells.length - numbers.length
+  if (numbers.length === 0) return { value: null, skipped }
+  const sum = numbers.reduce((total, number) => total + number, 0)
+  const value = fn === 'sum' ? sum
+    : fn === 'average' ? sum / numbers.length
+    : fn === 'min' ? numbers.reduce((lowest, number) => Math.min(lowest, number))
+    : numbers.reduce((highest, number) => Math.max(highest, number))
+  return { value: round(value), skipped }
+}
+
+function computeGroups(
+  session: ToolSession,
+  by: string,
+  fn: AggregateFunction,
+  column: string | undefined,
+  where: unknown
+): Group[] {
+  const byLabel = new Map<string, number[]>()
+  selectRows(session, where).forEach(index => {
+    const label = (session.fileData.rows[index][by] || '').trim() || '(empty)'
+    byLabel.set(label, [...(byLabel.get(label) || []), index])
+  })
+  return [...byLabel.entries()].map(([label, indexes]) => ({
+    label,
+    value: computeValue(session, indexes, fn, column).value,
+    rows: indexes.length
+  }))
+}
+
+function optionalColumn(session: ToolSession, column: unknown): string | undefined {
+  return column === undefined || column === '' ? undefined : requireColumn(session, column)
+}
+
+function filterRows(session: ToolSession, input: Record<string, unknown>) {
+  const indexes = selectRows(session, input.where)
+  const columns = Array.isArray(input.columns)
+    ? input.columns.map(column => requireColumn(session, column))
+    : session.fileData.headers
+  const limit = Math.min(Math.max(Number(input.limit) || DEFAULT_ROW_LIMIT, 1), MAX_ROW_LIMIT)
+
+  return {
+    matchedRows: indexes.length,
+    rows: indexes.slice(0, limit).map(index => ({
+      row: index + 1,
+      values: Object.fromEntries(columns.map(column => [column, session.fileData.rows[index][column] || '']))
+    })),
+    ...(indexes.length > limit ? { note: `Only the first ${limit} rows are listed` } : {})
+  }
+}
+
+function aggregate(session: ToolSession, input: Record<string, unknown>) {
+  const fn = readFunction(input.function)
+  const column = optionalColumn(session, input.column)
+  const indexes = selectRows(session, input.where)
+  const { value, skipped } = computeValue(session, indexes, fn, column)
+  return {
+    function: fn,
+    column,
+    value,
+    rows: indexes.length,
+    ...(skipped > 0 ? { skippedCells: skipped, note: 'Cells that are not numbers were left out' } : {})
+  }
+}
+
+function groupBy(session: ToolSession, input: Record<string, unknown>) {
+  const by = requireColumn(session, input.by)
+  const fn = readFunction(input.function)
+  const groups = computeGroups(session, by, fn, optionalColumn(session, input.column), input.where)
+    .sort((a, b) => (b.value ?? -Infinity) - (a.value ?? -Infinity))
+  return {
+    totalGroups: groups.length,
+    groups: groups.slice(0, MAX_GROUPS),
+    ...(groups.length > MAX_GROUPS ? { note: `Only the ${MAX_GROUPS} largest groups are listed` } : {})
+  }
+}
+
+function createChart(session: ToolSession, input: Record<string, unknown>) {
+  const type = input.type
+  if (type !== 'bar' && type !== 'line' && type !== 'pie') throw new Error('type must be bar, line or pie')
+  const labelColumn = requireColumn(session, input.label_column)
+  const fn = readFunction(input.function)
+  const valueColumn = optionalColumn(session, input.value_column)
+  const schema = session.fileData.schema?.[labelColumn]
+
+  // A line follows its labels in order; bars and slices put the largest first
+  const groups = computeGroups(session, labelColumn, fn, valueColumn, input.where)
+    .filter(group => group.value !== null)
+    .sort((a, b) => type === 'line' ? compareValues(a.label, b.label, schema) : (b.value as number) - (a.value as number))
+  if (groups.length === 0) throw new Error('No rows have values to chart')
+
+  const valueLabel = valueColumn ? `${FUNCTION_LABELS[fn]} of ${valueColumn}` : 'Rows'
+  const chart: ChartSpec = {
+    type,
+    title: typeof input.title === 'string' && input.title.trim() ? input.title.trim() : `${valueLabel} by ${labelColumn}`,
+    labelColumn,
+    valueLabel,
+    points: groups.slice(0, MAX_CHART_POINTS).map(group => ({ label: group.label, value: group.value as number }))
+  }
+  session.charts.push(chart)
+  return {
+    title: chart.title,
+    points: chart.points,
+    ...(groups.length > MAX_CHART_POINTS ? { note: `Only ${MAX_CHART_POINTS} of ${groups.length} groups are drawn` } : {})
+  }
+}
+
+function exportRows(session: ToolSession, input: Record<string, unknown>) {
+  const format = input.format
+  if (format !== 'csv' && format !== 'xlsx') throw new Error('format must be csv or xlsx')
+  const headers = Array.isArray(input.columns) && input.columns.length > 0
+    ? input.columns.map(column => requireColumn(session, column))
+    : session.fileData.headers
+  const indexes = selectRows(session, input.where)
+  if (indexes.length === 0) throw new Error('No rows meet the conditions')
+  if (indexes.length > MAX_EXPORT_ROWS) throw new Error(`At most ${MAX_EXPORT_ROWS} rows can be exported`)
+
+  const base = typeof input.filename === 'string' ? input.filename.replace(/\.(csv|xlsx)$/i, '').replace(/[^\w\- ]+/g, '').trim() : ''
+  const filename = `${base || 'export'}.${format}`
+  session.exports.push({
+    format,
+    filename,
+    headers,
+    where: readConditions(session, input.where),
+    rowCount: indexes.length
+  })
+  return { filename, rows: indexes.length, columns: headers, note: 'The user can download the file from your reply' }
+}
+
+function proposeEdit(session: ToolSession, name: string, input: Record<string, unknown>) {
+  const proposed = proposeOperation({ ...input, op: EDIT_TOOLS[name] }, session.shape, session.actions.length + 1)
+  if (typeof proposed === 'string') throw new Error(proposed)
+  session.actions.push(proposed.action)
+  session.shape = proposed.shape
+  return { proposed: proposed.action.data.description, step: proposed.action.data.step }
+}
+
+// Run one tool call against the table and record it. Errors go back to the
+// model as the result, so it can correct the call.
+export function runTool(session: ToolSession, name: string, rawInput: unknown): { result: unknown; isError: boolean } {
+  const input = (rawInput && typeof rawInput === 'object' ? rawInput : {}) as Record<string, unknown>
+  try {
+    let result: unknown
+    if (name in EDIT_TOOLS) result = proposeEdit(session, name, input)
+    else if (name === 'filter_rows') result = filterRows(session, input)
+    else if (name === 'aggregate') result = aggregate(session, input)
+    else if (name === 'group_by') result = groupBy(session, input)
+    else if (name === 'create_chart') result = createChart(session, input)
+    else if (name === 'export') result = exportRows(session, input)
+    else throw new Error(`Unknown tool ${name}`)
+
+    session.calls.push({ name, input: rawInput, result })
+    return { result, isError: false }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    session.calls.push({ name, input: rawInput, error: message })
+    return { result: { error: message }, isError: true }
+  }
+}
@@ -0,0 +1,48 @@
+// Column type picked by the user or inferred from the values in the app
+export interface ColumnSchema {
+  type: 'text' | 'integer' | 'decimal' | 'currency' | 'date' | 'phone' | 'gstin' | 'boolean'
+  format?: string
+}
+
+export interface FileData {
+  headers: string[]
+  rows: Array<Record<string, string>>
+  schema?: Record<string, ColumnSchema>
+}
+
+// A chart the assistant drew with create_chart, one value per label
+export interface ChartSpec {
+  type: 'bar' | 'line' | 'pie'
+  title: string
+  // What the labels and values are, for the axes and legend
+  labelColumn: string
+  valueLabel: string
+  points: Array<{ label: string; value: number }>
+}
+
+// A condition of a tool call, checked against the table's columns
+export interface RowCondition {
+  column: string
+  operator: string
+  value?: string
+}
+
+// A file the assistant prepared with export. Only its columns and conditions
+// are stored with the reply; the app picks the rows from the table when the
+// user downloads it
+export interface ExportSpec {
+  format: 'csv' | 'xlsx'
+  filename: string
+  headers: string[]
+  where: RowCondition[]
+  // Rows that met the conditions when the tool ran
+  rowCount: number
+}
+
+// One tool call of a reply as stored in ai_messages.metadata
+export interface ToolCallRecord {
+  name: string
+  input: unknown
+  result?: unknown
+  error?: string
+}
@@ -0,0 +1,51 @@
+import { ColumnSchema } from './types.ts'
+
+// Decimal digits of the Indic scripts; each block starts its digits at
+// U+0xx66 or U+0xxE6
+const INDIC_DIGITS = /[०-९০-৯੦-੯૦-૯୦-୯௦-௯౦-౯೦-೯൦-൯]/g
+const CURRENCY_MARKS = /₹|\bRs\.?|\bINR\b|रु\.?|रू\.?/gi
+
+// "₹ 1,25,000/-" -> 125000, "(500)" -> -500; null when the cell is not a number
+export function parseNumber(value: string | undefined): number | null {
+  let text = (value || '')
+    .replace(INDIC_DIGITS, digit => String((digit.charCodeAt(0) & 0xF) - 6))
+    .replace(CURRENCY_MARKS, '')
+    .replace(/\/[-=]\s*$/, '')
+    .replace(/,/g, '')
+    .trim()
+  const negative = /^\(.*\)$/.test(text)
+  if (negative) text = text.slice(1, -1).trim()
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)$/.test(text)) return null
+  return negative ? -Number(text) : Number(text)
+}
+
+// Numeric dates in the column's order, as a time to compare
+export function parseDate(value: string, format = 'DD/MM/YYYY'): number | null {
+  const match = value.trim().match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})$/)
+  if (!match) return null
+  const [first, second, third] = match.slice(1).map(Number)
+  const [year, month, day] = format === 'YYYY-MM-DD' ? [first, second, third]
+    : format === 'MM/DD/YYYY' ? [third, first, second]
+    : [third, second, first]
+  const fullYear = year < 100 ? 2000 + year : year
+  const date = new Date(Date.UTC(fullYear, month - 1, day))
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date.getTime() : null
+}
+
+// Dates by date, numbers by value, anything else as text ignoring case
+export function compareValues(a: string, b: string, schema?: ColumnSchema): number {
+  if (schema?.type === 'date') {
+    const dateA = parseDate(a, schema.format)
+    const dateB = parseDate(b, schema.format)
+    if (dateA !== null && dateB !== null) return dateA - dateB
+  }
+  const numberA = parseNumber(a)
+  const numberB = parseNumber(b)
+  if (numberA !== null && numberB !== null) return numberA - numberB
+  return a.trim().localeCompare(b.trim(), undefined, { sensitivity: 'base' })
+}
+
+// Sums of amounts in paise would otherwise show floating point noise
+export function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,86 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Who called the worker: the service role (a cron schedule or another
+// function) or a signed-in user waking it after an upload
+export type Caller =
+  | { kind: 'service' }
+  | { kind: 'user'; userId: string }
+
+// An error that maps to an HTTP response, returned as
+// { success: false, error: { code, message } }
+export class HttpError extends Error {
+  status: number
+  code: string
+
+  constructor(status: number, code: string, message: string) {
+    super(message)
+    this.name = 'HttpError'
+    this.status = status
+    this.code = code
+  }
+}
+
+// The caller comes from the bearer token, never from the request body
+export async function authenticate(req: Request, supabaseClient: SupabaseClient): Promise<Caller> {
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader?.startsWith('Bearer ')) {
+    throw new HttpError(401, 'missing_token', 'Missing authorization header')
+  }
+
+  const token = authHeader.slice('Bearer '.length).trim()
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  if (serviceRoleKey && token === serviceRoleKey) {
+    return { kind: 'service' }
+  }
+
+  const { data: { user }, error } = await supabaseClient.auth.getUser(token)
+  if (error || !user) {
+    throw new HttpError(401, 'invalid_token', 'Invalid or expired token')
+  }
+
+  return { kind: 'user', userId: user.id }
+}
+
+// A user may only name their own jobs
+export async function authorizeJob(supabaseClient: SupabaseClient, caller: Caller, jobId: string) {
+  if (caller.kind === 'service') return
+
+  const { data: job, error } = await supabaseClient
+    .from('processing_jobs')
+    .select('user_id')
+    .eq('id', jobId)
+    .maybeSingle()
+
+  // 22P02: not a valid uuid, so no such job either
+  if (error && error.code !== '22P02') throw error
+  if (!job) {
+    throw new HttpError(404, 'job_not_found', `Job ${jobId} not found`)
+  }
+  if (job.user_id !== caller.userId) {
+    throw new HttpError(403, 'forbidden', 'The job belongs to another user')
+  }
+}
+
+// Uploads live under the uploader's folder, `<user id>/<file>`, in the
+// documents bucket. A path outside it would let a forged documents row read
+// another user's file through the service role.
+export function isOwnStoragePath(path: string | null | undefined, userId: string): boolean {
+  if (!path) return false
+  return path.startsWith(`${userId}/`) && !path.split('/').some(segment => segment === '..' || segment === '.')
+}
+
+// Signed URLs must come from this project's storage and still point into the
+// uploader's folder of the documents bucket; the worker downloads whatever
+// the URL names, so a path check alone would let another host through
+export function isOwnSignedUrl(signedUrl: string, userId: string): boolean {
+  try {
+    const url = new URL(signedUrl)
+    if (url.origin !== new URL(Deno.env.get('SUPABASE_URL') ?? '').origin) return false
+
+    const path = decodeURIComponent(url.pathname)
+    const prefix = '/storage/v1/object/sign/documents/'
+    return path.startsWith(prefix) && isOwnStoragePath(path.slice(prefix.length), userId)
+  } catch {
+    return false
+  }
+}
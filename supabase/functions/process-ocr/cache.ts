@@ -0,0 +1,85 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { DocumentType, ExtractedTableData, FileKind } from './types.ts'
+
+// Everything that changes what the providers return for a file
+export interface CacheSettings {
+  contentHash: string;
+  kind: FileKind;
+  chain: string[];
+  languages: string[];
+  documentType: DocumentType;
+  // documents.preprocessing as stored, e.g. rotation and crop
+  preprocessing: unknown;
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export function getCacheKey(settings: CacheSettings): Promise<string> {
+  return sha256Hex(JSON.stringify([
+    settings.contentHash,
+    settings.kind,
+    settings.chain,
+    [...settings.languages].sort(),
+    settings.documentType,
+    settings.preprocessing
+  ]))
+}
+
+// A stored result: the tables and the PDF pages that gave none
+export interface CachedResult {
+  tables: ExtractedTableData[];
+  failedPages: number[];
+}
+
+// The cache only saves API calls, so lookups and writes never fail a job
+export async function readCachedResult(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  cacheKey: string
+): Promise<CachedResult | null> {
+  const { data, error } = await supabaseClient
+    .from('ocr_result_cache')
+    .select('id, tables, failed_pages, hit_count')
+    .eq('user_id', userId)
+    .eq('cache_key', cacheKey)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error reading OCR cache:', error)
+    return null
+  }
+  if (!data) return null
+
+  await supabaseClient
+    .from('ocr_result_cache')
+    .update({ hit_count: data.hit_count + 1 })
+    .eq('id', data.id)
+
+  return { tables: data.tables, failedPages: data.failed_pages || [] }
+}
+
+export async function writeCachedResult(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  cacheKey: string,
+  settings: CacheSettings,
+  result: CachedResult
+) {
+  const { error } = await supabaseClient
+    .from('ocr_result_cache')
+    .upsert({
+      user_id: userId,
+      cache_key: cacheKey,
+      content_hash: settings.contentHash,
+      provider_chain: settings.chain,
+      tables: result.tables,
+      failed_pages: result.failedPages
+    }, { onConflict: 'user_id,cache_key' })
+
+  if (error) {
+    console.error('Error writing OCR cache:', error)
+  }
+}
@@ -0,0 +1,49 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { PageCheckpoints, PageResult } from './pdf.ts'
+
+// Pages of a PDF job saved in processing_job_pages by earlier runs. Like the
+// cache, checkpoints only save work: a failed read starts from page 1 and a
+// failed write is logged, neither fails the job.
+export async function loadPageCheckpoints(supabaseClient: SupabaseClient, jobId: string): Promise<PageCheckpoints> {
+  const { data, error } = await supabaseClient
+    .from('processing_job_pages')
+    .select('page_number, page_count, tables')
+    .eq('job_id', jobId)
+
+  if (error) {
+    console.error('Error reading page checkpoints:', error)
+  }
+
+  return {
+    saved: (error ? [] : data || []).map(row => ({
+      pageNumber: row.page_number,
+      pageCount: row.page_count,
+      tables: row.tables
+    })),
+    async save(result: PageResult, pageCount: number) {
+      const { error } = await supabaseClient
+        .from('processing_job_pages')
+        .upsert({
+          job_id: jobId,
+          page_number: result.pageNumber,
+          page_count: pageCount,
+          tables: result.tables
+        }, { onConflict: 'job_id,page_number' })
+
+      if (error) {
+        console.error(`Error saving page ${result.pageNumber} checkpoint:`, error)
+      }
+    }
+  }
+}
+
+export async function clearPageCheckpoints(supabaseClient: SupabaseClient, jobId: string) {
+  const { error } = await supabaseClient
+    .from('processing_job_pages')
+    .delete()
+    .eq('job_id', jobId)
+
+  if (error) {
+    console.error('Error removing page checkpoints:', error)
+  }
+}
@@ -0,0 +1,197 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { handleRequest } from './handler.ts'
+import { isOwnSignedUrl } from './auth.ts'
+
+const SUPABASE_URL = 'https://project.supabase.test'
+
+interface Query {
+  table: string;
+  action: string;
+  values?: unknown;
+  filters: Record<string, unknown>;
+}
+
+interface StandIn {
+  // Users by access token
+  users?: Record<string, string>;
+  jobOwner?: string;
+  // Successive results of claim_processing_jobs
+  claims?: unknown[][];
+  document?: Record<string, unknown>;
+}
+
+// Records every query and rpc and answers them from the options; writes
+// succeed and report one affected row
+function standInClient(options: StandIn) {
+  const queries: Query[] = []
+  const rpcs: string[] = []
+  const signedPaths: string[] = []
+  const claims = [...(options.claims || [])]
+
+  const client = {
+    auth: {
+      getUser: (token: string) => Promise.resolve(options.users?.[token]
+        ? { data: { user: { id: options.users[token] } }, error: null }
+        : { data: { user: null }, error: { message: 'invalid JWT' } })
+    },
+    rpc: (name: string) => {
+      rpcs.push(name)
+      return Promise.resolve({ data: claims.shift() || [], error: null })
+    },
+    storage: {
+      from: (bucket: string) => ({
+        createSignedUrl: (path: string) => {
+          signedPaths.push(path)
+          return Promise.resolve({ data: { signedUrl: `${SUPABASE_URL}/storage/v1/object/sign/${bucket}/${path}?token=t` }, error: null })
+        }
+      })
+    },
+    from: (table: string) => {
+      const query: Query = { table, action: 'select', filters: {} }
+      queries.push(query)
+      const result = () => {
+        if (query.action !== 'select') return { data: [{ id: 'row-1' }], error: null }
+        if (table === 'processing_jobs') return { data: options.jobOwner ? { user_id: options.jobOwner } : null, error: null }
+        if (table === 'documents') return { data: options.document || null, error: null }
+        return { data: null, error: null }
+      }
+      const builder = {
+        select: () => builder,
+        insert: (values: unknown) => Object.assign(query, { action: 'insert', values }) && builder,
+        update: (values: unknown) => Object.assign(query, { action: 'update', values }) && builder,
+        delete: () => Object.assign(query, { action: 'delete' }) && builder,
+        eq: (column: string, value: unknown) => {
+          query.filters[column] = value
+          return builder
+        },
+        order: () => builder,
+        limit: () => builder,
+        maybeSingle: () => Promise.resolve(result()),
+        single: () => Promise.resolve(result()),
+        then: (resolve: (value: unknown) => void) => resolve(result())
+      }
+      return builder
+    }
+  }
+
+  return { client: client as unknown as SupabaseClient, queries, rpcs, signedPaths }
+}
+
+function request(token?: string, body: unknown = {}) {
+  return new Request('https://functions.test/process-ocr', {
+    method: 'POST',
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    body: JSON.stringify(body)
+  })
+}
+
+function withEnv(run: () => Promise<void>) {
+  return async () => {
+    Deno.env.set('SUPABASE_URL', SUPABASE_URL)
+    Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', 'service-key')
+    try {
+      await run()
+    } finally {
+      Deno.env.delete('SUPABASE_URL')
+      Deno.env.delete('SUPABASE_SERVICE_ROLE_KEY')
+    }
+  }
+}
+
+const job = {
+  id: 'job-1',
+  user_id: 'user-1',
+  document_id: 'document-1',
+  job_type: 'ocr',
+  status: 'processing',
+  attempts: 1,
+  max_attempts: 5,
+  options: null
+}
+
+Deno.test('process-ocr refuses requests without a valid token', withEnv(async () => {
+  const standIn = standInClient({ users: { 'user-token': 'user-1' } })
+
+  const missing = await handleRequest(request(), () => standIn.client)
+  assertEquals(missing.status, 401)
+  assertEquals((await missing.json()).error.code, 'missing_token')
+
+  const invalid = await handleRequest(request('forged-token'), () => standIn.client)
+  assertEquals(invalid.status, 401)
+  assertEquals((await invalid.json()).error.code, 'invalid_token')
+
+  assertEquals(standIn.rpcs, [])
+}))
+
+Deno.test('process-ocr refuses a job of another user', withEnv(async () => {
+  const standIn = standInClient({ users: { 'user-token': 'user-1' }, jobOwner: 'user-2' })
+
+  const response = await handleRequest(request('user-token', { jobId: 'job-2' }), () => standIn.client)
+
+  assertEquals(response.status, 403)
+  assertEquals(await response.json(), {
+    success: false,
+    error: { code: 'forbidden', message: 'The job belongs to another user' }
+  })
+  assertEquals(standIn.queries[0].filters, { id: 'job-2' })
+  assertEquals(standIn.rpcs, [])
+}))
+
+Deno.test('process-ocr drains the queue for its own job', withEnv(async () => {
+  const standIn = standInClient({ users: { 'user-token': 'user-1' }, jobOwner: 'user-1' })
+
+  const response = await handleRequest(request('user-token', { jobId: 'job-1' }), () => standIn.client)
+
+  assertEquals(response.status, 202)
+  assertEquals(await response.json(), { success: true })
+  assertEquals(standIn.rpcs, ['claim_processing_jobs'])
+}))
+
+Deno.test('process-ocr lets the service role drain the queue without a job', withEnv(async () => {
+  const standIn = standInClient({})
+
+  const response = await handleRequest(request('service-key'), () => standIn.client)
+
+  assertEquals(response.status, 202)
+  assertEquals(standIn.queries, [])
+  assertEquals(standIn.rpcs, ['claim_processing_jobs'])
+}))
+
+Deno.test('process-ocr marks a job naming a file outside its user\'s folder dead', withEnv(async () => {
+  const standIn = standInClient({
+    claims: [[job]],
+    document: {
+      user_id: 'user-1',
+      file_path: 'user-2/register.jpg',
+      processed_file_path: null,
+      file_type: 'image/jpeg',
+      languages: ['en'],
+      document_type: 'general'
+    }
+  })
+
+  const response = await handleRequest(request('service-key'), () => standIn.client)
+
+  assertEquals(response.status, 202)
+  // The file is never signed, let alone read
+  assertEquals(standIn.signedPaths, [])
+  const jobUpdate = standIn.queries.find(query => query.table === 'processing_jobs' && query.action === 'update')
+  assertEquals(jobUpdate?.values, {
+    status: 'dead',
+    error_message: 'The document file is outside the uploader\'s storage folder',
+    locked_at: null
+  })
+  const documentUpdate = standIn.queries.filter(query => query.table === 'documents' && query.action === 'update').pop()
+  assertEquals(documentUpdate?.values, { processing_status: 'failed' })
+  assertEquals(documentUpdate?.filters, { id: 'document-1', user_id: 'user-1' })
+}))
+
+Deno.test('isOwnSignedUrl accepts only this project\'s storage and the user\'s folder', withEnv(() => {
+  assertEquals(isOwnSignedUrl(`${SUPABASE_URL}/storage/v1/object/sign/documents/user-1/a.jpg?token=t`, 'user-1'), true)
+  assertEquals(isOwnSignedUrl(`${SUPABASE_URL}/storage/v1/object/sign/documents/user-2/a.jpg?token=t`, 'user-1'), false)
+  assertEquals(isOwnSignedUrl(`${SUPABASE_URL}/storage/v1/object/sign/documents/user-1/%2E%2E/user-2/a.jpg`, 'user-1'), false)
+  assertEquals(isOwnSignedUrl('https://attacker.test/storage/v1/object/sign/documents/user-1/a.jpg?token=t', 'user-1'), false)
+  assertEquals(isOwnSignedUrl(`https://attacker.test/x?u=${SUPABASE_URL}/storage/v1/object/sign/documents/user-1/a.jpg`, 'user-1'), false)
+  return Promise.resolve()
+}))
@@ -0,0 +1,74 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { OCRRequest } from './types.ts'
+import { drainQueue } from './queue.ts'
+import { authenticate, authorizeJob, HttpError } from './auth.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Supabase's edge runtime keeps the function alive for promises passed to
+// waitUntil after the response is sent; it is missing when served elsewhere
+function getEdgeRuntime() {
+  return (globalThis as { EdgeRuntime?: { waitUntil(promise: Promise<unknown>): void } }).EdgeRuntime
+}
+
+function jsonResponse(body: unknown, status: number) {
+  return new Response(
+    JSON.stringify(body),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status
+    }
+  )
+}
+
+// The queue worker. Uploads add 'pending' rows to processing_jobs and then
+// call this function (as may a cron schedule, to pick up retries). It replies
+// at once and works through the queue in the background.
+//
+// Callers are identified from their JWT: a signed-in user, or the service
+// role key for schedules. Nothing in the body is trusted; each job's
+// ownership of its document and files is checked when it runs.
+export async function handleRequest(req: Request, getSupabaseClient: () => SupabaseClient): Promise<Response> {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = getSupabaseClient()
+
+    const caller = await authenticate(req, supabaseClient)
+    const { jobId } = await req.json().catch(() => ({})) as OCRRequest
+    if (jobId) {
+      await authorizeJob(supabaseClient, caller, jobId)
+    }
+    console.log('OCR worker woken by', caller.kind === 'user' ? `user ${caller.userId}` : 'service role', jobId ? `for job ${jobId}` : '')
+
+    const concurrency = parseInt(Deno.env.get('OCR_WORKER_CONCURRENCY') || '2') || 2
+    const work = drainQueue(supabaseClient, concurrency)
+      .then(processed => console.log(`OCR worker finished, ran ${processed} job(s)`))
+      .catch(error => console.error('OCR worker error:', error))
+
+    const edgeRuntime = getEdgeRuntime()
+    if (edgeRuntime) {
+      edgeRuntime.waitUntil(work)
+    } else {
+      await work
+    }
+
+    return jsonResponse({ success: true }, 202)
+
+  } catch (error) {
+    if (error instanceof HttpError) {
+      console.warn(`OCR worker request refused (${error.status}):`, error.message)
+      return jsonResponse({ success: false, error: { code: error.code, message: error.message } }, error.status)
+    }
+
+    console.error('OCR worker error:', error)
+    const message = error instanceof Error ? error.message : String(error)
+    return jsonResponse({ success: false, error: { code: 'internal_error', message } }, 500)
+  }
+}
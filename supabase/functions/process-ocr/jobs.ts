@@ -0,0 +1,139 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { DOCUMENT_TYPES, DocumentType, ExtractedTableData, ProcessingJob, StoredTable } from './types.ts'
+import { createOCRInput, overallConfidence, toStoredTables } from './utils.ts'
+import { extractPdfTables } from './pdf.ts'
+import { ProviderUsage, createUsage, resolveProviderChain, runProviderChain } from './providers/registry.ts'
+import { resolveLanguages } from './languages.ts'
+import { applyLedgerCheck } from './ledger.ts'
+import { CacheSettings, getCacheKey, readCachedResult, writeCachedResult } from './cache.ts'
+import { loadPageCheckpoints } from './checkpoints.ts'
+import { isOwnSignedUrl, isOwnStoragePath } from './auth.ts'
+
+export interface JobResult {
+  tables: StoredTable[];
+  confidence: number;
+  // PDF pages that gave no rows, stored with the extraction
+  failedPages: number[];
+  // Tables came from the OCR cache, no provider was called
+  cached: boolean;
+  // Pages sent to each provider and their estimated cost in USD
+  usage: ProviderUsage;
+}
+
+// A job that can never succeed, such as one naming another user's document.
+// It goes straight to 'dead' instead of being retried.
+export class JobRejectedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JobRejectedError'
+  }
+}
+
+async function setProgress(supabaseClient: SupabaseClient, jobId: string, progress: number) {
+  await supabaseClient
+    .from('processing_jobs')
+    .update({ progress })
+    .eq('id', jobId)
+}
+
+// Run OCR for the document of a claimed job. Everything needed is read from
+// the documents row, so a retry hours later works the same as the first try.
+// Users insert jobs and documents themselves, so the worker (which bypasses
+// RLS) checks that the job's user owns the document and its files.
+export async function runOCRJob(supabaseClient: SupabaseClient, job: ProcessingJob): Promise<JobResult> {
+  const { data: document, error: documentError } = await supabaseClient
+    .from('documents')
+    .select('user_id, file_path, processed_file_path, file_type, languages, document_type, preprocessing, content_hash')
+    .eq('id', job.document_id)
+    .maybeSingle()
+
+  if (documentError) throw documentError
+  if (!document) {
+    throw new JobRejectedError(`Document ${job.document_id} not found`)
+  }
+  if (document.user_id !== job.user_id) {
+    throw new JobRejectedError('The document belongs to another user')
+  }
+
+  // OCR runs on the preprocessed copy of a photo when there is one
+  const filePath = document.processed_file_path || document.file_path
+  const fileType = document.processed_file_path ? 'image/jpeg' : document.file_type
+  if (!isOwnStoragePath(filePath, job.user_id)) {
+    throw new JobRejectedError('The document file is outside the uploader\'s storage folder')
+  }
+
+  // Signed URL for the private bucket, valid for 1 hour
+  const { data: signedUrlData, error: urlError } = await supabaseClient.storage
+    .from('documents')
+    .createSignedUrl(filePath, 3600)
+
+  if (urlError) throw urlError
+  if (!isOwnSignedUrl(signedUrlData.signedUrl, job.user_id)) {
+    throw new JobRejectedError('The signed URL does not point into the uploader\'s storage folder')
+  }
+
+  // A re-extraction may override the settings stored on the document
+  const requestedType = job.options?.documentType || document.document_type
+  const documentType: DocumentType = DOCUMENT_TYPES.includes(requestedType) ? requestedType : 'general'
+  const languages = await resolveLanguages(supabaseClient, job.user_id, job.options?.languages || document.languages)
+  await setProgress(supabaseClient, job.id, 10)
+
+  // Run the configured provider chain for this file kind. PDFs are split
+  // and processed page by page, which can yield several tables.
+  const input = createOCRInput(signedUrlData.signedUrl, fileType, languages, documentType)
+  const chain = await resolveProviderChain(supabaseClient, job.user_id, input.kind, documentType, job.options?.providers)
+  console.log(`Job ${job.id}: processing ${input.kind} in ${languages.join('+')} with provider chain:`, chain)
+
+  // Identical content read with identical settings gives the stored result.
+  // A re-extraction is an explicit request to read again, so it skips the
+  // lookup. Results with pages that errored are not kept; pages read as
+  // empty are part of the result.
+  const cacheSettings: CacheSettings | null = document.content_hash
+    ? { contentHash: document.content_hash, kind: input.kind, chain, languages, documentType, preprocessing: document.preprocessing }
+    : null
+  const cacheKey = cacheSettings ? await getCacheKey(cacheSettings) : null
+  const cached = cacheKey && job.job_type !== 'reextract'
+    ? await readCachedResult(supabaseClient, job.user_id, cacheKey)
+    : null
+
+  let tables: ExtractedTableData[]
+  let failedPages: number[] = []
+  let erroredPages: number[] = []
+  const usage = createUsage()
+  if (cached) {
+    console.log(`Job ${job.id}: using cached result`)
+    tables = cached.tables
+    failedPages = cached.failedPages
+  } else if (input.kind === 'pdf') {
+    // A job claimed again after its worker stopped goes on from the pages
+    // that run saved
+    const checkpoints = await loadPageCheckpoints(supabaseClient, job.id)
+    const pdfResult = await extractPdfTables(chain, input, async (done, total) => {
+      await setProgress(supabaseClient, job.id, 10 + Math.round((done / total) * 70))
+    }, usage, checkpoints)
+    tables = pdfResult.tables
+    failedPages = pdfResult.failedPages
+    erroredPages = pdfResult.erroredPages
+  } else {
+    tables = await runProviderChain(chain, input, usage)
+  }
+
+  if (!cached && cacheSettings && cacheKey && erroredPages.length === 0) {
+    await writeCachedResult(supabaseClient, job.user_id, cacheKey, cacheSettings, { tables, failedPages })
+  }
+
+  // Ledgers and statements carry a running balance that can be checked
+  if (documentType === 'ledger' || documentType === 'bank_statement') {
+    tables = tables.map(applyLedgerCheck)
+  }
+
+  await setProgress(supabaseClient, job.id, 80)
+
+  return {
+    tables: toStoredTables(tables),
+    confidence: overallConfidence(tables),
+    failedPages,
+    cached: cached !== null,
+    usage
+  }
+}
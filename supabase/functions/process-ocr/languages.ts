@@ -0,0 +1,52 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// ISO codes of the scripts our customers keep registers in
+export const SUPPORTED_LANGUAGES = ['en', 'hi', 'mr', 'gu', 'ta']
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  hi: 'Hindi (Devanagari)',
+  mr: 'Marathi (Devanagari)',
+  gu: 'Gujarati',
+  ta: 'Tamil'
+}
+
+// Keep the supported codes and always add English: headers, amounts and
+// printed forms are often in Latin script even when entries are not
+export function normalizeLanguages(languages: string[]): string[] {
+  const supported = languages.filter(language => SUPPORTED_LANGUAGES.includes(language))
+  return Array.from(new Set([...supported, 'en']))
+}
+
+// Languages to hint for this document: request body -> user's profile language -> English
+export async function resolveLanguages(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  requested?: string[]
+): Promise<string[]> {
+  if (requested && requested.length > 0) {
+    return normalizeLanguages(requested)
+  }
+
+  const { data: profile, error } = await supabaseClient
+    .from('profiles')
+    .select('language')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading profile language:', error)
+  }
+
+  return normalizeLanguages(profile?.language ? [profile.language] : [])
+}
+
+// Decimal digits of the Indic scripts (Devanagari, Bengali, Gurmukhi, Gujarati,
+// Oriya, Tamil, Telugu, Kannada, Malayalam). Each block starts its digits at
+// U+0xx66 or U+0xxE6, so the low nibble minus 6 is the digit value.
+const INDIC_DIGITS = /[०-९০-৯੦-੯૦-૯୦-୯௦-௯౦-౯೦-೯൦-൯]/g
+
+// "१२३" -> "123"; other characters are left alone
+export function normalizeDigits(value: string): string {
+  return value.replace(INDIC_DIGITS, digit => String((digit.charCodeAt(0) & 0xF) - 6))
+}
@@ -0,0 +1,68 @@
+import { WordBox } from './table-reconstruction.ts'
+
+interface Vertex {
+  x?: number;
+  y?: number;
+}
+
+interface VisionSymbol {
+  text?: string;
+}
+
+interface VisionWord {
+  boundingBox?: { vertices?: Vertex[]; normalizedVertices?: Vertex[] };
+  symbols?: VisionSymbol[];
+  confidence?: number;
+}
+
+export interface VisionPage {
+  width?: number;
+  height?: number;
+  confidence?: number;
+  blocks?: Array<{
+    blockType?: string;
+    paragraphs?: Array<{ words?: VisionWord[] }>;
+  }>;
+}
+
+// Vision omits zero coordinates, and some responses only carry normalized vertices
+function toBox(word: VisionWord, page: VisionPage): Omit<WordBox, 'text' | 'confidence'> | null {
+  const absolute = word.boundingBox?.vertices
+  const normalized = word.boundingBox?.normalizedVertices
+  const vertices = absolute && absolute.length > 0
+    ? absolute.map(v => ({ x: v.x ?? 0, y: v.y ?? 0 }))
+    : normalized && normalized.length > 0
+      ? normalized.map(v => ({ x: (v.x ?? 0) * (page.width || 1), y: (v.y ?? 0) * (page.height || 1) }))
+      : null
+
+  if (!vertices) return null
+
+  const xs = vertices.map(v => v.x)
+  const ys = vertices.map(v => v.y)
+  return { x0: Math.min(...xs), y0: Math.min(...ys), x1: Math.max(...xs), y1: Math.max(...ys) }
+}
+
+// Flatten a fullTextAnnotation page into word boxes
+export function getVisionPageWords(page: VisionPage): WordBox[] {
+  const words: WordBox[] = []
+
+  for (const block of page.blocks || []) {
+    if (block.blockType && block.blockType !== 'TEXT') continue
+
+    for (const paragraph of block.paragraphs || []) {
+      for (const word of paragraph.words || []) {
+        const text = (word.symbols || []).map(symbol => symbol.text || '').join('').trim()
+        const box = toBox(word, page)
+        if (!text || !box) continue
+
+        words.push({
+          text,
+          ...box,
+          confidence: Math.round((word.confidence ?? page.confidence ?? 0.9) * 100)
+        })
+      }
+    }
+  }
+
+  return words
+}
@@ -0,0 +1,155 @@
+import { ExtractedTableData, LedgerCheck, LedgerMismatch } from './types.ts'
+import { normalizeDigits } from './languages.ts'
+
+// Header words for the money columns of khata books and bank statements, in
+// the scripts we support. Short words must match a whole header token, longer
+// ones may also start one ("withdrawals", "balance (₹)").
+const DEBIT_WORDS = ['debit', 'dr', 'withdrawal', 'paid', 'नामे', 'नावे', 'उधार', 'डेबिट', 'નામે', 'ઉધાર', 'பற்று']
+const CREDIT_WORDS = ['credit', 'cr', 'deposit', 'received', 'जमा', 'क्रेडिट', 'જમા', 'வரவு']
+const BALANCE_WORDS = ['balance', 'bal', 'बाकी', 'शेष', 'शिल्लक', 'बैलेंस', 'બાકી', 'સિલક', 'இருப்பு']
+
+// Rounding noise allowed when comparing balances
+const BALANCE_TOLERANCE = 0.01
+
+// Mismatched balance cells are stored at this confidence so review mode visits them
+const MISMATCH_CELL_CONFIDENCE = 40
+
+function headerTokens(header: string): string[] {
+  return header.toLowerCase().split(/[\s./()_:-]+/).filter(Boolean)
+}
+
+function findColumn(headers: string[], words: string[], exclude: Array<string | undefined>): string | undefined {
+  return headers.find(header => {
+    if (exclude.includes(header)) return false
+    return headerTokens(header).some(token =>
+      words.some(word => token === word || (word.length >= 4 && token.startsWith(word)))
+    )
+  })
+}
+
+interface Amount {
+  value: number;
+  // Dr/Cr written next to a balance
+  marker?: 'dr' | 'cr';
+}
+
+const CURRENCY = /₹|रु\.?|rs\.?|inr/g
+const DEBIT_MARKER = /(?:^|[^a-z])dr\.?$|(?:नामे|नावे|ઉધાર)$/
+const CREDIT_MARKER = /(?:^|[^a-z])cr\.?$|(?:जमा|જમા)$/
+
+// "१,२५,०००.५०" -> 125000.5, "(500)" -> -500, "1,200 Dr" -> 1200 marked dr.
+// Empty cells and dashes are null.
+export function parseAmount(text: string | undefined): Amount | null {
+  let value = normalizeDigits(text || '').trim().toLowerCase().replace(CURRENCY, '').trim()
+  if (!value || /^[-–—.]+$/.test(value)) return null
+
+  let marker: Amount['marker']
+  if (DEBIT_MARKER.test(value)) {
+    marker = 'dr'
+    value = value.replace(DEBIT_MARKER, '').trim()
+  } else if (CREDIT_MARKER.test(value)) {
+    marker = 'cr'
+    value = value.replace(CREDIT_MARKER, '').trim()
+  }
+
+  const negative = /^\(.*\)$/.test(value) || value.startsWith('-')
+  const number = parseFloat(value.replace(/[^\d.]/g, ''))
+  if (isNaN(number)) return null
+  return { value: negative ? -number : number, marker }
+}
+
+// A written balance in the sign convention of `increasesWith`: a balance on
+// the side that the movement raises is positive
+function signedBalance(amount: Amount, increasesWith: LedgerCheck['balanceIncreasesWith']): number {
+  if (!amount.marker) return amount.value
+  return amount.marker === (increasesWith === 'credit' ? 'cr' : 'dr') ? amount.value : -amount.value
+}
+
+function walkBalances(
+  rows: Array<Record<string, string>>,
+  columns: { debit?: string; credit?: string; balance: string },
+  increasesWith: LedgerCheck['balanceIncreasesWith']
+): { checkedRows: number; mismatches: LedgerMismatch[] } {
+  const mismatches: LedgerMismatch[] = []
+  let checkedRows = 0
+  let previous: number | null = null
+
+  rows.forEach((row, index) => {
+    const debit = columns.debit ? parseAmount(row[columns.debit])?.value ?? 0 : 0
+    const credit = columns.credit ? parseAmount(row[columns.credit])?.value ?? 0 : 0
+    const movement = increasesWith === 'credit' ? credit - debit : debit - credit
+    const written = parseAmount(row[columns.balance])
+
+    if (previous === null) {
+      // The first written balance (usually the opening or brought-forward line) is the starting point
+      if (written) previous = signedBalance(written, increasesWith)
+      return
+    }
+
+    const expected = Math.round((previous + movement) * 100) / 100
+    if (!written) {
+      previous = expected
+      return
+    }
+
+    // Each row is checked against the previous written balance, so one
+    // misread or miscalculated balance does not flag every row after it
+    const balance = signedBalance(written, increasesWith)
+    checkedRows++
+    if (Math.abs(balance - expected) > BALANCE_TOLERANCE) {
+      mismatches.push({ row: index, written: balance, expected })
+    }
+    previous = balance
+  })
+
+  return { checkedRows, mismatches }
+}
+
+// Recompute the running balance of a ledger or statement table and flag rows
+// whose written balance does not add up. Whether credits or debits raise the
+// balance differs between a bank statement and a customer's khata, so both
+// are tried and the reading that explains more rows wins. Returns null when
+// the table has no balance column or no debit/credit column.
+export function checkLedger(headers: string[], rows: Array<Record<string, string>>): LedgerCheck | null {
+  const balance = findColumn(headers, BALANCE_WORDS, [])
+  if (!balance) return null
+  const debit = findColumn(headers, DEBIT_WORDS, [balance])
+  const credit = findColumn(headers, CREDIT_WORDS, [balance, debit])
+  if (!debit && !credit) return null
+
+  const columns = { debit, credit, balance }
+  const byCredit = walkBalances(rows, columns, 'credit')
+  const byDebit = walkBalances(rows, columns, 'debit')
+  if (byCredit.checkedRows === 0) return null
+
+  const increasesWith = byDebit.mismatches.length < byCredit.mismatches.length ? 'debit' : 'credit'
+  const result = increasesWith === 'debit' ? byDebit : byCredit
+
+  return {
+    ...(debit ? { debitColumn: debit } : {}),
+    ...(credit ? { creditColumn: credit } : {}),
+    balanceColumn: balance,
+    balanceIncreasesWith: increasesWith,
+    checkedRows: result.checkedRows,
+    mismatches: result.mismatches
+  }
+}
+
+// Attach the balance check to a table and lower the confidence of mismatched
+// balance cells so they show up in review
+export function applyLedgerCheck(table: ExtractedTableData): ExtractedTableData {
+  const ledger = checkLedger(table.headers, table.rows)
+  if (!ledger) return table
+
+  const cellConfidence = table.rows.map((_, index) => ({ ...table.cellConfidence?.[index] }))
+  for (const mismatch of ledger.mismatches) {
+    const cells = cellConfidence[mismatch.row]
+    cells[ledger.balanceColumn] = Math.min(cells[ledger.balanceColumn] ?? table.confidence, MISMATCH_CELL_CONFIDENCE)
+  }
+
+  return {
+    ...table,
+    ledger,
+    cellConfidence: (table.cellConfidence || ledger.mismatches.length > 0) ? cellConfidence : undefined
+  }
+}
@@ -0,0 +1,205 @@
+import { normalizeDigits } from './languages.ts'
+
+// Order of day, month and year in a column of numeric dates
+type DateOrder = 'DMY' | 'MDY' | 'YMD'
+
+// Day-first is listed first: it wins ties, as in Indian registers
+const DATE_ORDERS: DateOrder[] = ['DMY', 'MDY', 'YMD']
+
+// Share of non-empty values that must parse for a column to be rewritten
+const COLUMN_SHARE = 0.8
+
+const CURRENCY_MARKS = /₹|\bRs\.?|\bINR\b|रु\.?|रू\.?/gi
+// "2,500/-" and "2,500/=" are how amounts are closed off in Indian registers
+const AMOUNT_SUFFIX = /\/[-=]\s*$/
+const PLAIN_NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)$/
+
+// "2.5 lakh", "3 लाख", "1 करोड" (the nukta is removed before matching)
+const NUMBER_UNITS: Array<{ pattern: RegExp; scale: number }> = [
+  { pattern: /^(lakhs?|lacs?|लाख|લાખ)$/i, scale: 100000 },
+  { pattern: /^(crores?|करोड|कोटी|કરોડ)$/i, scale: 10000000 }
+]
+
+const NUMERIC_DATE = /^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})$/
+// "12 मार्च 2024", "12-Mar-24", "5th January" and "March 5, 2024"
+const DAY_MONTH_DATE = /^(\d{1,2})(?:st|nd|rd|th)?[\s./-]*([\p{L}\p{M}]+)\.?(?:[\s.,/-]+(\d{4}|\d{2}))?$/u
+const MONTH_DAY_DATE = /^([\p{L}\p{M}]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}|\d{2}))?$/u
+
+// Month names in English, Hindi, Marathi and Gujarati, with common spellings.
+// Keep in step with src/lib/indianFormats.ts.
+const MONTH_NAMES: string[][] = [
+  ['jan', 'january', 'जनवरी', 'जानेवारी', 'જાન્યુઆરી'],
+  ['feb', 'february', 'फरवरी', 'फेब्रुवारी', 'ફેબ્રુઆરી'],
+  ['mar', 'march', 'मार्च', 'માર્ચ'],
+  ['apr', 'april', 'अप्रैल', 'अप्रेल', 'एप्रिल', 'એપ્રિલ'],
+  ['may', 'मई', 'मे', 'મે'],
+  ['jun', 'june', 'जून', 'જૂન'],
+  ['jul', 'july', 'जुलाई', 'जुलै', 'જુલાઈ'],
+  ['aug', 'august', 'अगस्त', 'ऑगस्ट', 'ઓગસ્ટ', 'ઑગસ્ટ'],
+  ['sep', 'sept', 'september', 'सितंबर', 'सितम्बर', 'सप्टेंबर', 'સપ્ટેમ્બર'],
+  ['oct', 'october', 'अक्टूबर', 'अक्तूबर', 'ऑक्टोबर', 'ઓક્ટોબર', 'ઑક્ટોબર'],
+  ['nov', 'november', 'नवंबर', 'नवम्बर', 'नोव्हेंबर', 'નવેમ્બર'],
+  ['dec', 'december', 'दिसंबर', 'दिसम्बर', 'डिसेंबर', 'ડિસેમ્બર']
+]
+
+const MONTHS = new Map<string, number>(
+  MONTH_NAMES.flatMap((names, index) => names.map(name => [name, index + 1] as [string, number]))
+)
+
+interface SimpleDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+// Digits in ASCII, without the nukta, so "फ़रवरी" and "फरवरी" match alike
+function clean(value: string): string {
+  return normalizeDigits(value).replace(/़/g, '').trim()
+}
+
+// "1,25,000" -> "125000", "₹ 2,500/-" -> "2500", "2.5 lakh" -> "250000".
+// Leading zeros are kept, so "007" stays a bill number.
+function normalizeNumberText(value: string): string | null {
+  const text = clean(value)
+    .replace(CURRENCY_MARKS, '')
+    .replace(AMOUNT_SUFFIX, '')
+    .replace(/,/g, '')
+    .trim()
+
+  const unit = text.match(/^([-+]?\d+\.?\d*)\s*([\p{L}\p{M}]+)$/u)
+  if (unit) {
+    const scale = NUMBER_UNITS.find(({ pattern }) => pattern.test(unit[2]))?.scale
+    return scale ? String(Math.round(Number(unit[1]) * scale * 100) / 100) : null
+  }
+
+  if (!PLAIN_NUMBER.test(text)) return null
+  return text.replace(/^\+/, '').replace(/\.$/, '')
+}
+
+// Two-digit years up to ten years ahead are taken as this century
+function expandYear(year: string): number {
+  if (year.length !== 2) return Number(year)
+  const shortYear = Number(year)
+  return 2000 + shortYear <= new Date().getFullYear() + 10 ? 2000 + shortYear : 1900 + shortYear
+}
+
+function validDate(year: number, month: number, day: number): SimpleDate | null {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? { year, month, day }
+    : null
+}
+
+// referenceYear fills in dates written with a month name but no year
+function parseDate(value: string, order: DateOrder, referenceYear?: number): SimpleDate | null {
+  const text = clean(value).toLowerCase()
+
+  const numeric = text.match(NUMERIC_DATE)
+  if (numeric) {
+    const [, first, second, third] = numeric
+    if (order === 'YMD') {
+      return first.length === 4 ? validDate(Number(first), Number(second), Number(third)) : null
+    }
+    if (third.length !== 2 && third.length !== 4) return null
+    const [day, month] = order === 'DMY' ? [first, second] : [second, first]
+    return validDate(expandYear(third), Number(month), Number(day))
+  }
+
+  const dayMonth = text.match(DAY_MONTH_DATE)
+  const monthDay = dayMonth ? null : text.match(MONTH_DAY_DATE)
+  const [day, monthName, year] = dayMonth
+    ? [dayMonth[1], dayMonth[2], dayMonth[3]]
+    : monthDay
+    ? [monthDay[2], monthDay[1], monthDay[3]]
+    : []
+  const month = monthName ? MONTHS.get(monthName) : undefined
+  if (!day || !month) return null
+
+  const fullYear = year ? expandYear(year) : referenceYear
+  return fullYear ? validDate(fullYear, month, Number(day)) : null
+}
+
+function isYearlessDate(value: string): boolean {
+  return parseDate(value, 'DMY') === null && parseDate(value, 'DMY', 2000) !== null
+}
+
+function formatDate(date: SimpleDate): string {
+  return `${String(date.day).padStart(2, '0')}/${String(date.month).padStart(2, '0')}/${date.year}`
+}
+
+// The order that reads most of the column; "03/04/2024" fits both, so the
+// unambiguous dates such as "13/04/2024" decide
+function detectDateOrder(values: string[]): { order: DateOrder; matches: number } {
+  return DATE_ORDERS
+    .map(order => ({
+      order,
+      matches: values.filter(value => parseDate(value, order) || isYearlessDate(value)).length
+    }))
+    .reduce((best, candidate) => candidate.matches > best.matches ? candidate : best)
+}
+
+// Dates as DD/MM/YYYY, or null where a value is not a date. A date without a
+// year takes the year of the nearest dated row above it, or below it, as
+// registers run in date order.
+function normalizeDates(values: string[], order: DateOrder): Array<string | null> {
+  const dates = values.map(value => value.trim() ? parseDate(value, order) : null)
+
+  return values.map((value, index) => {
+    let date = dates[index]
+    if (!date && value.trim()) {
+      const previous = dates.slice(0, index).reverse().find(Boolean)
+      const next = dates.slice(index + 1).find(Boolean)
+      const referenceYear = (previous || next)?.year
+      date = referenceYear ? parseDate(value, order, referenceYear) : null
+    }
+    return date ? formatDate(date) : null
+  })
+}
+
+// A number, amount or date once digits are normalised: no letters left
+function isNumericValue(value: string): boolean {
+  const stripped = normalizeDigits(value).replace(CURRENCY_MARKS, '')
+  return /\d/.test(stripped) && !/[\p{L}\p{M}]/u.test(stripped)
+}
+
+function normalizeColumn(values: string[]): string[] {
+  const filled = values.map(value => value.trim()).filter(Boolean)
+  if (filled.length === 0) return values
+  const share = (count: number) => count / filled.length >= COLUMN_SHARE
+
+  const dateOrder = detectDateOrder(filled)
+  const rewritten = share(dateOrder.matches)
+    ? normalizeDates(values, dateOrder.order)
+    : share(filled.filter(value => normalizeNumberText(value) !== null).length)
+    ? values.map(value => value.trim() ? normalizeNumberText(value) : null)
+    : values.map(() => null)
+
+  // Phone numbers, codes and cells that did not parse in a numeric column
+  // still get ASCII digits; text columns keep their digits as written
+  const numericColumn = share(filled.filter(isNumericValue).length)
+  return values.map((value, index) => rewritten[index] ?? (numericColumn ? normalizeDigits(value) : value))
+}
+
+// Rewrite the amounts and dates of each column in one plain form
+// ("₹ 1,25,000/-" -> "125000", "12-3-24" -> "12/03/2024") and keep what was
+// read in originalValues, aligned with rows, for the cells that changed
+export function normalizeTableValues(
+  headers: string[],
+  rows: Array<Record<string, string>>
+): { rows: Array<Record<string, string>>; originalValues?: Array<Record<string, string>> } {
+  const normalizedRows = rows.map(row => ({ ...row }))
+  const originalValues: Array<Record<string, string>> = rows.map(() => ({}))
+  let changed = false
+
+  for (const header of headers) {
+    const values = rows.map(row => row[header] || '')
+    normalizeColumn(values).forEach((value, index) => {
+      if (value === values[index]) return
+      normalizedRows[index][header] = value
+      originalValues[index][header] = values[index]
+      changed = true
+    })
+  }
+
+  return changed ? { rows: normalizedRows, originalValues } : { rows }
+}
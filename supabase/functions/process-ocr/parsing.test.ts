@@ -0,0 +1,104 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { extractTablesFromDocumentAI, extractTablesFromDocumentText, parseDocumentAITable, parseTextAsTable } from './parsing.ts'
+
+// Recorded Vision images:annotate (DOCUMENT_TEXT_DETECTION), Document AI
+// process and Tesseract worker responses
+async function loadFixture(name: string) {
+  return JSON.parse(await Deno.readTextFile(new URL(`./testdata/${name}`, import.meta.url)))
+}
+
+Deno.test('parseDocumentAITable keeps multi-word cells and columns a long cell runs into', async () => {
+  const fixture = await loadFixture('vision-sales-register.json')
+  const table = parseDocumentAITable(fixture.responses[0].fullTextAnnotation.pages[0])
+
+  // The title line above the table is not taken for the header
+  assertEquals(table.headers, ['S.No', 'Date', 'Party Name', 'Particulars', 'Amount'])
+  assertEquals(table.rows.length, 10)
+  assertEquals(table.rows[1], {
+    'S.No': '2',
+    Date: '02/04/2024',
+    'Party Name': 'Sita Devi Traders',
+    Particulars: 'Goods on credit',
+    Amount: '15,000'
+  })
+  assertEquals(table.rows[4], {
+    'S.No': '5',
+    Date: '06/04/2024',
+    'Party Name': 'Ram Kumar',
+    Particulars: 'Transport to Mahalaxmi Roads',
+    Amount: '800'
+  })
+  assertEquals(table.rows.map(row => row.Amount), [
+    '1,200', '15,000', '450', '2,350', '800', '1,050', '7,500', '300', '5,000', '640'
+  ])
+  assertEquals(table.confidence, 97)
+  assertEquals(table.cellBoxes?.[0]['Party Name'], { x0: 0.3, y0: 160 / 700, x1: 0.388, y1: 180 / 700 })
+})
+
+Deno.test('parseDocumentAITable follows skewed rows and folds a wrapped cell into its row', async () => {
+  const fixture = await loadFixture('vision-skewed-ledger.json')
+  const table = parseDocumentAITable(fixture.responses[0].fullTextAnnotation.pages[0])
+
+  assertEquals(table.headers, ['Date', 'Narration', 'Debit', 'Credit', 'Balance'])
+  assertEquals(table.rows, [
+    { Date: '01/04', Narration: 'Opening balance', Debit: '', Credit: '', Balance: '10,000' },
+    { Date: '03/04', Narration: 'Paid to Gupta Kirana', Debit: '2,500', Credit: '', Balance: '7,500' },
+    { Date: '07/04', Narration: 'Received from Suresh Patil', Debit: '', Credit: '4,000', Balance: '11,500' },
+    { Date: '12/04', Narration: 'Electricity bill for March and meter rent', Debit: '1,150', Credit: '', Balance: '10,350' },
+    { Date: '18/04', Narration: 'Rent', Debit: '6,000', Credit: '', Balance: '4,350' }
+  ])
+  // A cell is as sure as its least certain word; empty cells have no score
+  assertEquals(table.cellConfidence?.[0], { Date: 62, Narration: 90, Balance: 62 })
+  assertEquals(table.cellConfidence?.[3].Narration, 62)
+})
+
+Deno.test('extractTablesFromDocumentText reads pages with normalized vertices only', async () => {
+  const fixture = await loadFixture('vision-normalized-vertices.json')
+  const tables = extractTablesFromDocumentText(fixture.responses[0].fullTextAnnotation)
+
+  assertEquals(tables.length, 1)
+  assertEquals(tables[0].name, 'Table 1')
+  assertEquals(tables[0].pages, [1])
+  assertEquals(tables[0].headers, ['Item', 'Quantity', 'Rate'])
+  assertEquals(tables[0].rows, [
+    { Item: 'Basmati Rice', Quantity: '25 kg', Rate: '45' },
+    { Item: 'Toor Dal', Quantity: '10 kg', Rate: '120' },
+    { Item: 'Sugar', Quantity: '5 kg', Rate: '42' }
+  ])
+})
+
+Deno.test('extractTablesFromDocumentAI names columns under a merged header and skips spanned cells', async () => {
+  const fixture = await loadFixture('document-ai-merged-header.json')
+  const tables = extractTablesFromDocumentAI(fixture)
+
+  assertEquals(tables.length, 1)
+  assertEquals(tables[0].headers, ['Date', 'Party Name', 'Amount Debit', 'Amount Credit'])
+  assertEquals(tables[0].rows, [
+    { Date: '01/04/2024', 'Party Name': 'Ram Kumar', 'Amount Debit': '1,200', 'Amount Credit': '' },
+    { Date: '02/04/2024', 'Party Name': 'Sita Devi Traders', 'Amount Debit': '', 'Amount Credit': '15,000' },
+    { Date: '03/04/2024', 'Party Name': 'Mohan Lal', 'Amount Debit': '450', 'Amount Credit': '' },
+    { Date: '04/04/2024', 'Party Name': 'Cheque returned, see next page', 'Amount Debit': '', 'Amount Credit': '' }
+  ])
+  assertEquals(tables[0].cellConfidence?.[0]['Amount Debit'], 71)
+  assertEquals(tables[0].cellBoxes?.[0]['Amount Credit'], { x0: 0.7, y0: 0.16, x1: 0.9, y1: 0.2, page: 1 })
+})
+
+Deno.test('parseTextAsTable splits on wide gaps, not on the commas in amounts', async () => {
+  const fixture = await loadFixture('tesseract-purchase-register.json')
+  const table = parseTextAsTable(fixture.text)
+
+  assertEquals(table.headers, ['Bill', 'Supplier', 'Item', 'Qty', 'Amount'])
+  const bills = table.rows.filter(row => /^\d+$/.test(row.Bill))
+  assertEquals(bills.length, 22)
+  assertEquals(bills[2], { Bill: '103', Supplier: 'Shree Ganesh Traders', Item: 'Cement bags', Qty: '3', Amount: '1,050' })
+})
+
+Deno.test('parseTextAsTable reads pipe tables', () => {
+  const table = parseTextAsTable('| Date | Party Name | Amount |\n| 01/04 | Ram Kumar | 1,200 |\n| 02/04 | Sita Devi | 450 |\n')
+
+  assertEquals(table.headers, ['Date', 'Party Name', 'Amount'])
+  assertEquals(table.rows, [
+    { Date: '01/04', 'Party Name': 'Ram Kumar', Amount: '1,200' },
+    { Date: '02/04', 'Party Name': 'Sita Devi', Amount: '450' }
+  ])
+})
@@ -0,0 +1,247 @@
+import { CellBox, ExtractedTableData } from './types.ts'
+import { getVisionPageWords, VisionPage } from './layout.ts'
+import { reconstructTable } from './table-reconstruction.ts'
+
+export function extractTablesFromDocumentText(textAnnotation: any): ExtractedTableData[] {
+  // Extract tables from Document AI structured response
+  const pages = textAnnotation.pages || []
+  const tables: ExtractedTableData[] = []
+  
+  pages.forEach((page: VisionPage, pageIndex: number) => {
+    const extracted = parseDocumentAITable(page)
+    if (extracted.rows.length > 0) {
+      tables.push({ ...extracted, name: `Table ${tables.length + 1}`, pages: [pageIndex + 1] })
+    }
+  })
+
+  if (tables.length > 0) {
+    return tables
+  }
+  
+  // If no tables found, try to parse as structured text
+  if (textAnnotation.text) {
+    return nonEmpty(parseTextAsTable(textAnnotation.text))
+  }
+  
+  return []
+}
+
+export function extractTablesFromDocumentAI(document: any): ExtractedTableData[] {
+  const pages = document.document?.pages || []
+  const documentText = document.document?.text || ''
+  const tables: ExtractedTableData[] = []
+
+  pages.forEach((page: DocumentAIPage, pageIndex: number) => {
+    for (const table of page.tables || []) {
+      const headers = getHeaders(table.headerRows || [], documentText)
+      const rows: Array<Record<string, string>> = []
+      const cellConfidence: Array<Record<string, number>> = []
+      const cellBoxes: Array<Record<string, CellBox>> = []
+      
+
+      // Extract body rows. A cell spanning columns fills the first of them.
+      if (table.bodyRows) {
+        for (const row of table.bodyRows) {
+          const rowData: Record<string, string> = {}
+          const rowConfidence: Record<string, number> = {}
+          const rowBoxes: Record<string, CellBox> = {}
+          let index = 0
+          row.cells.forEach((cell: any) => {
+            const header = headers[index] || `Column${index + 1}`
+            rowData[header] = getTextFromLayout(cell.layout, documentText)
+            for (let i = 1; i < (cell.colSpan || 1); i++) {
+              rowData[headers[index + i] || `Column${index + i + 1}`] = ''
+            }
+            index += cell.colSpan || 1
+            if (typeof cell.layout?.confidence === 'number') {
+              rowConfidence[header] = Math.round(cell.layout.confidence * 100)
+            }
+            const box = getLayoutBox(cell.layout, page.dimension)
+            if (box) {
+              rowBoxes[header] = { ...box, page: pageIndex + 1 }
+            }
+          })
+          rows.push(rowData)
+          cellConfidence.push(rowConfidence)
+          cellBoxes.push(rowBoxes)
+        }
+      }
+
+      if (rows.length > 0) {
+        tables.push({
+          name: `Table ${tables.length + 1}`,
+          headers: headers.length > 0 ? headers : Object.keys(rows[0]),
+          rows,
+          confidence: 95,
+          cellConfidence,
+          cellBoxes,
+          pages: [pageIndex + 1]
+        })
+      }
+    }
+  })
+
+  if (tables.length > 0) {
+    return tables
+  }
+  
+  // Fallback to text parsing
+  if (documentText) {
+    return nonEmpty(parseTextAsTable(documentText))
+  }
+  
+  return []
+}
+
+// One header per column from every header row. A cell spanning several
+// columns names each of them, a cell spanning rows leaves the rows below it
+// out of its column, and stacked labels are joined: "Amount" over "Debit"
+// gives "Amount Debit".
+function getHeaders(headerRows: DocumentAITableRow[], documentText: string): string[] {
+  const labels: string[][] = []
+  // Header rows each column is still covered for by a cell from above
+  let covered: number[] = []
+
+  for (const row of headerRows) {
+    let column = 0
+    for (const cell of row.cells) {
+      while (covered[column] > 0) column++
+      const text = getTextFromLayout(cell.layout, documentText)
+      for (let i = 0; i < (cell.colSpan || 1); i++, column++) {
+        labels[column] = [...(labels[column] || []), text].filter(Boolean)
+        covered[column] = cell.rowSpan || 1
+      }
+    }
+    covered = Array.from(covered, count => (count || 0) - 1)
+  }
+
+  const seen = new Map<string, number>()
+  return Array.from(labels, (parts, index) => {
+    const base = (parts || []).join(' ') || `Column${index + 1}`
+    const count = (seen.get(base) || 0) + 1
+    seen.set(base, count)
+    return count > 1 ? `${base} ${count}` : base
+  })
+}
+
+function nonEmpty(table: ExtractedTableData): ExtractedTableData[] {
+  return table.rows.length > 0 ? [table] : []
+}
+
+function getTextFromLayout(layout: any, documentText: string): string {
+  if (!layout || !layout.textAnchor || !layout.textAnchor.textSegments) {
+    return ''
+  }
+  
+  let text = ''
+  for (const segment of layout.textAnchor.textSegments) {
+    const startIndex = parseInt(segment.startIndex) || 0
+    const endIndex = parseInt(segment.endIndex) || documentText.length
+    text += documentText.substring(startIndex, endIndex)
+  }
+  
+  return text.trim()
+}
+
+interface LayoutVertex {
+  x?: number;
+  y?: number;
+}
+
+interface DocumentAILayout {
+  boundingPoly?: { vertices?: LayoutVertex[]; normalizedVertices?: LayoutVertex[] };
+}
+
+interface DocumentAITableRow {
+  cells: Array<{ layout?: DocumentAILayout; rowSpan?: number; colSpan?: number }>;
+}
+
+interface DocumentAIPage {
+  dimension?: { width?: number; height?: number };
+  tables?: Array<{ headerRows?: DocumentAITableRow[]; bodyRows?: DocumentAITableRow[] }>;
+}
+
+// Document AI bounding polys come normalized, or in pixels of page.dimension
+function getLayoutBox(layout: DocumentAILayout | undefined, dimension?: { width?: number; height?: number }): CellBox | null {
+  const normalized = layout?.boundingPoly?.normalizedVertices
+  const absolute = layout?.boundingPoly?.vertices
+  const width = dimension?.width
+  const height = dimension?.height
+  const vertices = normalized && normalized.length > 0
+    ? normalized.map(v => ({ x: v.x ?? 0, y: v.y ?? 0 }))
+    : absolute && absolute.length > 0 && width && height
+      ? absolute.map(v => ({ x: (v.x ?? 0) / width, y: (v.y ?? 0) / height }))
+      : null
+
+  if (!vertices) return null
+
+  const xs = vertices.map(v => v.x)
+  const ys = vertices.map(v => v.y)
+  return { x0: Math.min(...xs), y0: Math.min(...ys), x1: Math.max(...xs), y1: Math.max(...ys) }
+}
+
+// DOCUMENT_TEXT_DETECTION pages carry no table structure, only blocks,
+// paragraphs and words with bounding boxes, so rebuild the table from geometry
+export function parseDocumentAITable(page: VisionPage): ExtractedTableData {
+  return reconstructTable(getVisionPageWords(page), { width: page.width || 1, height: page.height || 1 })
+}
+
+// Plain text carries no geometry, so only lines are trustworthy: split each
+// line on the delimiter the lines share and treat the first multi-cell line
+// as the header. Word boxes should go through reconstructTable instead.
+export function parseTextAsTable(text: string): ExtractedTableData {
+  const empty: ExtractedTableData = { headers: [], rows: [], confidence: 0 }
+  const lines = text.split(/\r?\n/)
+    .map(line => line.trim().replace(/^\|+|\|+$/g, ''))
+    .filter(Boolean)
+
+  const delimiter = detectDelimiter(lines)
+  const cells = lines.map(line => line.split(delimiter).map(cell => cell.trim()))
+  const headerIndex = cells.findIndex(line => line.length > 1)
+
+  if (headerIndex === -1 || headerIndex === cells.length - 1) {
+    return empty
+  }
+
+  const headers = cells[headerIndex].map((header, index) => header || `Column${index + 1}`)
+  const rows: Array<Record<string, string>> = []
+
+  for (const line of cells.slice(headerIndex + 1)) {
+    if (line.length < 2) continue
+    // Surplus cells usually come from a value split on its inner spaces
+    const values = line.length > headers.length
+      ? [...line.slice(0, headers.length - 1), line.slice(headers.length - 1).join(' ')]
+      : line
+    const row: Record<string, string> = {}
+    headers.forEach((header, index) => {
+      row[header] = values[index] || ''
+    })
+    rows.push(row)
+  }
+
+  return { headers, rows, confidence: rows.length > 0 ? 70 : 0 }
+}
+
+function detectDelimiter(lines: string[]): RegExp {
+  // Check for common delimiters
+  const delimiters = [
+    /\t/,               // Tab
+    /\s{2,}/,          // Multiple spaces
+    /\s*\|\s*/,        // Pipe with optional spaces
+    /,/                // Comma
+  ]
+  
+  for (const delimiter of delimiters) {
+    // Titles and notes carry no delimiter, so sample the lines that do; a
+    // wrapped header or cell splits into fewer parts, so most of them, not
+    // all, have to agree
+    const counts = lines.filter(line => delimiter.test(line)).slice(0, 10)
+      .map(line => line.split(delimiter).length)
+    const common = Math.max(...counts.filter(c => counts.filter(other => other === c).length * 2 > counts.length))
+    if (counts.length > 1 && common > 1) {
+      return delimiter
+    }
+  }
+  
+  return /\s+/ // Default to any whitespace
+}
@@ -0,0 +1,119 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { PDFDocument } from 'https://esm.sh/pdf-lib@1.17.1'
+import { PageCheckpoints, extractPdfTables, stitchPageTables } from './pdf.ts'
+import { createUsage, registerProvider } from './providers/registry.ts'
+import { arrayBufferToBase64, createOCRInput } from './utils.ts'
+
+Deno.test('stitchPageTables re-keys continuation rows whose headers differ only in case or spacing', () => {
+  const tables = stitchPageTables([
+    {
+      pageNumber: 2,
+      tables: [{
+        headers: ['date', 'Party  Name', 'AMOUNT'],
+        rows: [{ date: '03/04/2024', 'Party  Name': 'Sita Devi', AMOUNT: '900' }],
+        confidence: 80,
+        cellConfidence: [{ AMOUNT: 60 }]
+      }]
+    },
+    {
+      pageNumber: 1,
+      tables: [{
+        headers: ['Date', 'Party Name', 'Amount'],
+        rows: [{ Date: '01/04/2024', 'Party Name': 'Ram Kumar', Amount: '1,200' }],
+        confidence: 90
+      }]
+    }
+  ])
+
+  assertEquals(tables.length, 1)
+  assertEquals(tables[0].headers, ['Date', 'Party Name', 'Amount'])
+  assertEquals(tables[0].rows, [
+    { Date: '01/04/2024', 'Party Name': 'Ram Kumar', Amount: '1,200' },
+    { Date: '03/04/2024', 'Party Name': 'Sita Devi', Amount: '900' }
+  ])
+  assertEquals(tables[0].cellConfidence, [{}, { Amount: 60 }])
+  assertEquals(tables[0].pages, [1, 2])
+  assertEquals(tables[0].confidence, 85)
+})
+
+Deno.test('stitchPageTables appends headerless pages with the same column count and splits on new headers', () => {
+  const tables = stitchPageTables([
+    { pageNumber: 1, tables: [{ headers: ['Date', 'Amount'], rows: [{ Date: '01/04', Amount: '10' }], confidence: 90 }] },
+    { pageNumber: 2, tables: [{ headers: ['Column1', 'Column2'], rows: [{ Column1: '02/04', Column2: '20' }], confidence: 90 }] },
+    { pageNumber: 3, tables: [{ headers: ['Item', 'Qty'], rows: [{ Item: 'Rice', Qty: '5' }], confidence: 90 }] }
+  ])
+
+  assertEquals(tables.map(table => table.headers), [['Date', 'Amount'], ['Item', 'Qty']])
+  assertEquals(tables[0].rows, [{ Date: '01/04', Amount: '10' }, { Date: '02/04', Amount: '20' }])
+  assertEquals(tables[1].pages, [3])
+})
+
+// Reads a table from page 1, nothing from page 2 and fails on page 3
+registerProvider({
+  id: 'paged',
+  name: 'paged',
+  supportsImages: false,
+  supportsPDF: true,
+  costPerPage: 0.01,
+  languages: ['en'],
+  isAvailable: () => true,
+  extract(input) {
+    if (input.pageNumber === 3) return Promise.reject(new Error('engine down'))
+    return Promise.resolve(input.pageNumber === 1
+      ? [{ headers: ['Date', 'Amount'], rows: [{ Date: '01/04', Amount: '10' }], confidence: 90 }]
+      : [])
+  }
+})
+
+async function threePagePdf() {
+  const pdf = await PDFDocument.create()
+  for (let i = 0; i < 3; i++) pdf.addPage()
+  const base64 = arrayBufferToBase64(await pdf.save())
+  return { ...createOCRInput('', 'application/pdf', ['en'], 'ledger'), getBase64: () => Promise.resolve(base64) }
+}
+
+Deno.test('extractPdfTables tells pages read as empty from pages that errored', async () => {
+  const input = await threePagePdf()
+  const progress: number[] = []
+
+  const result = await extractPdfTables(['paged'], input, done => {
+    progress.push(done)
+    return Promise.resolve()
+  })
+
+  assertEquals(result.pageCount, 3)
+  assertEquals(result.tables.map(table => table.pages), [[1]])
+  assertEquals(result.failedPages, [2, 3])
+  assertEquals(result.erroredPages, [3])
+  assertEquals(progress, [1, 2, 3])
+})
+
+Deno.test('extractPdfTables resumes from saved pages and saves only the pages it read', async () => {
+  const input = await threePagePdf()
+  const savedPages: number[] = []
+  const checkpoints: PageCheckpoints = {
+    saved: [
+      { pageNumber: 1, pageCount: 3, tables: [{ headers: ['Date', 'Amount'], rows: [{ Date: '31/03', Amount: '5' }], confidence: 80 }] },
+      // From a different split of the file, so not used
+      { pageNumber: 2, pageCount: 4, tables: [{ headers: ['Date', 'Amount'], rows: [{ Date: '—', Amount: '—' }], confidence: 80 }] }
+    ],
+    save: result => {
+      savedPages.push(result.pageNumber)
+      return Promise.resolve()
+    }
+  }
+  const usage = createUsage()
+  const progress: number[] = []
+
+  const result = await extractPdfTables(['paged'], input, done => {
+    progress.push(done)
+    return Promise.resolve()
+  }, usage, checkpoints)
+
+  assertEquals(result.tables[0].rows, [{ Date: '31/03', Amount: '5' }])
+  assertEquals(result.failedPages, [2, 3])
+  // Page 3 errored, so it is read again next time
+  assertEquals(savedPages, [2])
+  assertEquals(usage.pages, { paged: 2 })
+  assertEquals(progress, [2, 3])
+})
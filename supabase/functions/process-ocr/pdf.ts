@@ -0,0 +1,237 @@
+import { PDFDocument } from 'https://esm.sh/pdf-lib@1.17.1'
+import { CellBox, ExtractedTableData, OCRInput } from './types.ts'
+import { arrayBufferToBase64, createPageInput } from './utils.ts'
+import { ProviderUsage, runProviderChain } from './providers/registry.ts'
+
+export interface PageResult {
+  pageNumber: number;
+  tables: ExtractedTableData[];
+  error?: string;
+}
+
+// Pages read by earlier runs of the same job, and where to save each page
+// read now. A saved page is used only if the PDF splits into as many pages.
+export interface PageCheckpoints {
+  saved: Array<{ pageNumber: number; pageCount: number; tables: ExtractedTableData[] }>;
+  save(result: PageResult, pageCount: number): Promise<void>;
+}
+
+export interface PdfExtractionResult {
+  tables: ExtractedTableData[];
+  pageCount: number;
+  // Pages that produced no rows, whether empty or unreadable
+  failedPages: number[];
+  // Pages where every provider failed
+  erroredPages: number[];
+}
+
+const GENERIC_HEADER = /^column\s*\d+$/i
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+function sameHeaders(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((header, i) => normalizeHeader(header) === normalizeHeader(b[i]))
+}
+
+// A page whose table starts without a header row comes back with placeholder
+// "Column1..N" headers; if the column count matches it continues the previous table
+function isHeaderless(headers: string[]): boolean {
+  return headers.length > 0 && headers.every(header => GENERIC_HEADER.test(header.trim()))
+}
+
+// Re-key per-cell values (confidence, boxes) from one header list to another by position
+function remapCells<T>(cells: Array<Record<string, T>>, from: string[], to: string[]): Array<Record<string, T>> {
+  return cells.map(row => {
+    const mapped: Record<string, T> = {}
+    from.forEach((header, i) => {
+      if (row[header] !== undefined) mapped[to[i]] = row[header]
+    })
+    return mapped
+  })
+}
+
+// Append a continuation page's per-cell values, padding whichever side has none
+function appendCells<T>(
+  previous: ExtractedTableData,
+  table: ExtractedTableData,
+  existing: Array<Record<string, T>> | undefined,
+  added: Array<Record<string, T>> | undefined
+): Array<Record<string, T>> | undefined {
+  if (!existing && !added) return undefined
+  return [
+    ...(existing || previous.rows.map(() => ({}))),
+    ...remapCells(added || table.rows.map(() => ({})), table.headers, previous.headers)
+  ]
+}
+
+// Page-split inputs are single-page PDFs, so engines report page 1; use the real page
+function onPage(boxes: Array<Record<string, CellBox>> | undefined, pageNumber: number) {
+  return boxes?.map(row => {
+    const mapped: Record<string, CellBox> = {}
+    Object.entries(row).forEach(([header, box]) => {
+      mapped[header] = { ...box, page: pageNumber }
+    })
+    return mapped
+  })
+}
+
+// Split a PDF into single-page PDFs, returned as base64
+export async function splitPdfPages(base64PDF: string): Promise<string[]> {
+  const source = await PDFDocument.load(base64PDF, { ignoreEncryption: true })
+  const pages: string[] = []
+
+  for (let i = 0; i < source.getPageCount(); i++) {
+    const pageDoc = await PDFDocument.create()
+    const [page] = await pageDoc.copyPages(source, [i])
+    pageDoc.addPage(page)
+    pages.push(arrayBufferToBase64(await pageDoc.save()))
+  }
+
+  return pages
+}
+
+// Merge page tables in page order: the first table on a page continues the
+// previous table when its headers match (or it has no header row and the same
+// column count); every other table starts a new one
+export function stitchPageTables(pageResults: PageResult[]): ExtractedTableData[] {
+  const tables: ExtractedTableData[] = []
+
+  for (const { pageNumber, tables: pageTables } of [...pageResults].sort((a, b) => a.pageNumber - b.pageNumber)) {
+    pageTables.filter(table => table.rows.length > 0).forEach((table, index) => {
+      const previous = tables[tables.length - 1]
+      const continues = index === 0 && previous && (
+        sameHeaders(previous.headers, table.headers) ||
+        (isHeaderless(table.headers) && table.headers.length === previous.headers.length)
+      )
+
+      if (continues) {
+        // Headers that match only after normalizing are different row keys,
+        // so rows are re-keyed by position unless the strings are identical
+        const identical = table.headers.every((header, i) => header === previous.headers[i])
+        const rows = identical
+          ? table.rows
+          : table.rows.map(row => {
+            const mapped: Record<string, string> = {}
+            table.headers.forEach((header, i) => {
+              mapped[previous.headers[i]] = row[header] ?? ''
+            })
+            return mapped
+          })
+
+        previous.cellConfidence = appendCells(previous, table, previous.cellConfidence, table.cellConfidence)
+        previous.cellBoxes = appendCells(previous, table, previous.cellBoxes, onPage(table.cellBoxes, pageNumber))
+
+        const totalRows = previous.rows.length + rows.length
+        previous.confidence = Math.round(
+          (previous.confidence * previous.rows.length + table.confidence * rows.length) / totalRows
+        )
+        previous.rows.push(...rows)
+        previous.pages = [...(previous.pages || []), pageNumber]
+        return
+      }
+
+      tables.push({
+        ...table,
+        rows: [...table.rows],
+        ...(table.cellBoxes ? { cellBoxes: onPage(table.cellBoxes, pageNumber) } : {}),
+        pages: [pageNumber]
+      })
+    })
+  }
+
+  return tables
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index], index)
+    }
+  })
+
+  await Promise.all(workers)
+  return results
+}
+
+// Process every page of a PDF independently through the provider chain and
+// stitch the results. onPageDone receives the number of pages finished so far;
+// every provider call is added to usage. Pages in checkpoints are not read
+// again, and every page read without an error is saved there.
+export async function extractPdfTables(
+  chain: string[],
+  input: OCRInput,
+  onPageDone: (done: number, total: number) => Promise<void>,
+  usage?: ProviderUsage,
+  checkpoints?: PageCheckpoints
+): Promise<PdfExtractionResult> {
+  let pages: string[]
+  try {
+    pages = await splitPdfPages(await input.getBase64())
+  } catch (error) {
+    console.error('Could not split PDF, processing it whole:', error)
+    const tables = await runProviderChain(chain, input, usage)
+    return { tables, pageCount: 1, failedPages: [], erroredPages: [] }
+  }
+
+  console.log(`PDF split into ${pages.length} pages`)
+
+  const saved = new Map(
+    (checkpoints?.saved || [])
+      .filter(page => page.pageCount === pages.length)
+      .map(page => [page.pageNumber, page.tables])
+  )
+  if (saved.size > 0) {
+    console.log(`Resuming with ${saved.size} of ${pages.length} pages already read`)
+  }
+
+  const concurrency = parseInt(Deno.env.get('OCR_PDF_PAGE_CONCURRENCY') || '3') || 3
+  let done = saved.size
+
+  const pageResults = await mapWithConcurrency(pages, concurrency, async (pageBase64, index): Promise<PageResult> => {
+    const pageNumber = index + 1
+    const savedTables = saved.get(pageNumber)
+    if (savedTables) return { pageNumber, tables: savedTables }
+
+    const pageInput = createPageInput(pageBase64, pageNumber, pages.length, input)
+    let result: PageResult
+
+    try {
+      result = { pageNumber, tables: await runProviderChain(chain, pageInput, usage) }
+    } catch (error) {
+      console.error(`Page ${pageNumber} failed:`, error)
+      result = { pageNumber, tables: [], error: error instanceof Error ? error.message : String(error) }
+    }
+
+    if (!result.error) await checkpoints?.save(result, pages.length)
+    done++
+    await onPageDone(done, pages.length)
+    return result
+  })
+
+  // Nothing was read at all, most likely an outage; fail so the job is retried
+  const erroredPages = pageResults.filter(result => result.error)
+  if (erroredPages.length === pages.length) {
+    throw new Error(`All ${pages.length} pages failed: ${erroredPages[0].error}`)
+  }
+
+  const failedPages = pageResults
+    .filter(result => result.error || result.tables.length === 0)
+    .map(result => result.pageNumber)
+
+  if (failedPages.length > 0) {
+    console.warn('Pages without table data:', failedPages)
+  }
+
+  return {
+    tables: stitchPageTables(pageResults),
+    pageCount: pages.length,
+    failedPages,
+    erroredPages: erroredPages.map(result => result.pageNumber)
+  }
+}
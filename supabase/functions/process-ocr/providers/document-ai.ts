@@ -0,0 +1,59 @@
+import { ExtractedTableData, OCRInput, OCRProvider } from '../types.ts'
+import { getGoogleAccessToken, hasGoogleServiceAccount } from '../google-auth.ts'
+import { extractTablesFromDocumentAI } from '../parsing.ts'
+
+async function processWithDocumentAI(base64Content: string, mimeType: string, accessToken: string, languageHints: string[]): Promise<ExtractedTableData[]> {
+  const projectId = Deno.env.get('GOOGLE_PROJECT_ID')
+  const location = Deno.env.get('GOOGLE_DOCUMENT_AI_LOCATION') || 'us'
+  const processorId = Deno.env.get('GOOGLE_DOCUMENT_AI_PROCESSOR_ID')
+  
+  if (!projectId || !processorId) {
+    throw new Error('Document AI configuration missing')
+  }
+  
+  const endpoint = `https://${location}-documentai.googleapis.com/v1/projects/${projectId}/locations/${location}/processors/${processorId}:process`
+  
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      rawDocument: {
+        content: base64Content,
+        mimeType
+      },
+      processOptions: {
+        ocrConfig: {
+          hints: { languageHints }
+        }
+      }
+    })
+  })
+
+  if (!response.ok) {
+    const error = await response.text()
+    console.error('Document AI error response:', error)
+    throw new Error(`Document AI error: ${response.status} - ${error}`)
+  }
+
+  const result = await response.json()
+  return extractTablesFromDocumentAI(result)
+}
+
+export const documentAIProvider: OCRProvider = {
+  id: 'document-ai',
+  name: 'Google Document AI',
+  supportsImages: true,
+  supportsPDF: true,
+  costPerPage: 0.065,
+  languages: '*',
+  isAvailable: () => hasGoogleServiceAccount() && !!Deno.env.get('GOOGLE_DOCUMENT_AI_PROCESSOR_ID'),
+  async extract(input: OCRInput): Promise<ExtractedTableData[]> {
+    const accessToken = await getGoogleAccessToken()
+    const base64Content = await input.getBase64()
+    const mimeType = input.kind === 'pdf' ? 'application/pdf' : 'image/png'
+    return await processWithDocumentAI(base64Content, mimeType, accessToken, input.languages)
+  }
+}
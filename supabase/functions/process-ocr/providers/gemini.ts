@@ -0,0 +1,202 @@
+import { DocumentType, ExtractedTableData, OCRInput, OCRProvider } from '../types.ts'
+import { parseTablesJSON } from '../utils.ts'
+import { LANGUAGE_NAMES } from '../languages.ts'
+
+const TABLES_FORMAT = `Format (no markdown, no explanation):
+{
+  "tables": [
+    {
+      "name": "Short descriptive name",
+      "headers": ["Column1", "Column2", "Column3"],
+      "rows": [
+        {"Column1": "value1", "Column2": "value2", "Column3": "value3"},
+        {"Column1": "value4", "Column2": "value5", "Column3": "value6"}
+      ],
+      "uncertain": [{"row": 1, "column": "Column2"}]
+    }
+  ]
+}
+
+"uncertain" lists the cells you could not read with confidence (smudged ink, ambiguous handwriting, guessed digits): "row" is the 0-based index into "rows" and "column" is the header. Use [] when every cell is clear.`
+
+const IMAGE_PROMPT = `Extract the table data from this image and return it as JSON.
+
+${TABLES_FORMAT}
+
+RULES:
+1. Use exact header names from the image
+2. Include all rows of data
+3. All values as strings
+4. Empty cells = ""
+5. NO demo/test data
+6. If the image has several separate tables (e.g. an invoice header block, line items and a tax summary), return each as its own entry in "tables"`
+
+// What to expect in each kind of document, with an example reply that doubles
+// as the schema for it
+const DOCUMENT_TYPE_PROMPTS: Record<DocumentType, string> = {
+  general: `
+
+Example: For this table:
+CustomerID | CustomerName | LastName | Country | Age
+    1      |   Shubham    |  Thakur  |  India  | 23
+    2      |    Aman      |  Chopra  |Australia| 21
+
+Return:
+{"tables": [{"name": "Customers", "headers": ["CustomerID", "CustomerName", "LastName", "Country", "Age"], "rows": [{"CustomerID": "1", "CustomerName": "Shubham", "LastName": "Thakur", "Country": "India", "Age": "23"}, {"CustomerID": "2", "CustomerName": "Aman", "LastName": "Chopra", "Country": "Australia", "Age": "21"}], "uncertain": []}]}`,
+
+  ledger: `
+
+DOCUMENT: a handwritten bahi-khata style ledger (account book), usually one account per page.
+- One entry per row: date, particulars (party, goods, voucher or folio reference), debit (नामे / उधार), credit (जमा) and balance (बाकी / शेष) where the book has them
+- Keep debit and credit as separate columns even when one of them is empty on a row; never merge them into one amount column
+- If amounts are kept in one column with a Dr/Cr (नामे/जमा) mark, split them into a debit and a credit column
+- Copy balances exactly as written, including any Dr/Cr mark. Do not calculate, carry forward or correct any amount
+- Opening, brought-forward and carried-forward lines (b/f, c/f, पिछला बाकी, आगे ले गए) and totals are rows like any other
+- A particulars entry that wraps onto the next line belongs to the same row
+- The account holder's name at the top of the page is the table "name"
+- Ignore ruled lines, margin notes, page numbers and signatures
+
+Example:
+{"tables": [{"name": "रमेश ट्रेडर्स", "headers": ["तारीख", "विवरण", "नामे", "जमा", "बाकी"], "rows": [{"तारीख": "01/04/2024", "विवरण": "पिछला बाकी", "नामे": "", "जमा": "", "बाकी": "5,000"}, {"तारीख": "03/04/2024", "विवरण": "माल दिया बिल 112", "नामे": "2,500", "जमा": "", "बाकी": "7,500"}, {"तारीख": "10/04/2024", "विवरण": "नकद प्राप्त", "नामे": "", "जमा": "3,000", "बाकी": "4,500"}], "uncertain": []}]}`,
+
+  invoice: `
+
+DOCUMENT: a printed tax invoice or bill.
+- Return the invoice details (invoice number, date, seller and buyer names, GSTINs, place of supply) as a table named "Details" with the headers ["Field", "Value"]
+- Return the line items as a table named "Line items" with the columns printed on the invoice (typically description, HSN/SAC, quantity, unit, rate, discount, taxable value, GST rate, amount)
+- Return the tax summary (taxable value, CGST, SGST, IGST, cess, round off, grand total) as a table named "Totals" with the headers ["Field", "Value"]
+- Amounts as printed, without recomputing
+
+Example:
+{"tables": [{"name": "Details", "headers": ["Field", "Value"], "rows": [{"Field": "Invoice No", "Value": "GST/24-25/118"}, {"Field": "Date", "Value": "12/06/2024"}], "uncertain": []}, {"name": "Line items", "headers": ["Description", "HSN", "Qty", "Rate", "Amount"], "rows": [{"Description": "Cotton yarn 40s", "HSN": "5205", "Qty": "20", "Rate": "310.00", "Amount": "6,200.00"}], "uncertain": []}, {"name": "Totals", "headers": ["Field", "Value"], "rows": [{"Field": "CGST 2.5%", "Value": "155.00"}, {"Field": "Grand Total", "Value": "6,510.00"}], "uncertain": []}]}`,
+
+  bank_statement: `
+
+DOCUMENT: a bank account statement or passbook.
+- Return all transactions as one table named "Transactions" with the columns as printed (typically date, narration, cheque/reference number, value date, withdrawal, deposit, balance)
+- Keep withdrawal and deposit as separate columns, and copy balances exactly as printed, including any Dr/Cr mark
+- A narration that wraps onto further lines belongs to the same transaction
+- Return account details (account holder, account number, IFSC, period, opening and closing balance) as a table named "Account" with the headers ["Field", "Value"]
+- Skip page headers, footers and repeated column headings
+
+Example:
+{"tables": [{"name": "Transactions", "headers": ["Date", "Narration", "Chq/Ref No", "Withdrawal", "Deposit", "Balance"], "rows": [{"Date": "02/05/2024", "Narration": "UPI/ramesh@okaxis/rent", "Chq/Ref No": "412233", "Withdrawal": "12,000.00", "Deposit": "", "Balance": "38,450.00"}], "uncertain": []}]}`,
+
+  receipt: `
+
+DOCUMENT: a shop receipt, cash memo or payment receipt.
+- Return the receipt details (shop or payee, date, receipt number, payment mode, total) as a table named "Details" with the headers ["Field", "Value"]
+- If items are listed, return them as a table named "Items" with the columns printed (typically item, quantity, rate, amount)
+- Amounts as printed, without recomputing
+
+Example:
+{"tables": [{"name": "Details", "headers": ["Field", "Value"], "rows": [{"Field": "Shop", "Value": "Sharma Kirana Store"}, {"Field": "Total", "Value": "845"}], "uncertain": []}, {"name": "Items", "headers": ["Item", "Qty", "Amount"], "rows": [{"Item": "Toor dal 1kg", "Qty": "1", "Amount": "160"}], "uncertain": []}]}`
+}
+
+const PDF_PROMPT = `Extract all table data from this PDF document and return it as JSON.
+
+${TABLES_FORMAT}
+
+RULES:
+1. Extract all tables found in the PDF
+2. Use exact header names from the document
+3. Include all rows of data from all tables
+4. All values as strings
+5. Empty cells = ""
+6. If multiple tables exist, combine them if they have the same structure, otherwise return each as its own entry in "tables"
+7. NO demo/test data - only extract what's actually in the PDF
+
+For handwritten registers or forms:
+- Recognize handwritten text accurately
+- Maintain proper data relationships
+- Handle multiple pages if present`
+
+// Appended when a single page of a longer PDF is sent on its own
+function getPagePrompt(pageNumber: number, pageCount: number): string {
+  return `
+
+This is page ${pageNumber} of ${pageCount}, sent on its own.
+- Only extract what is on this page
+- If the table on this page has no header row (it continues from a previous page), use "Column1", "Column2", ... as headers, one per column in order
+- Do not repeat or invent rows from other pages`
+}
+
+// Registers are often handwritten in an Indic script; without this the model
+// tends to translate or transliterate entries into English
+function getLanguagePrompt(languages: string[]): string {
+  const names = languages.map(language => LANGUAGE_NAMES[language] || language)
+  return `
+
+LANGUAGES: the document may contain ${names.join(', ')}.
+- Copy every value in the script it is written in (Devanagari, Gujarati, Tamil, ...); never translate or transliterate
+- Keep header names in their original script too
+- Copy digits exactly as written, whether Indic (e.g. १२३, ૧૨૩, ௧௨௩) or Latin (123)`
+}
+
+function getGeminiApiKey(): string | undefined {
+  return Deno.env.get('GOOGLE_API_KEY') || Deno.env.get('GEMINI_API_KEY')
+}
+
+async function callGemini(model: string, prompt: string, mimeType: string, base64Data: string): Promise<string> {
+  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${getGeminiApiKey()}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      contents: [{
+        parts: [
+          { text: prompt },
+          {
+            inline_data: {
+              mime_type: mimeType,
+              data: base64Data
+            }
+          }
+        ]
+      }],
+      generationConfig: {
+        temperature: 0.1,
+        topK: 1,
+        topP: 0.1,
+        maxOutputTokens: 8192,
+      }
+    })
+  })
+
+  if (!response.ok) {
+    const error = await response.text()
+    throw new Error(`Gemini API error: ${error}`)
+  }
+
+  const result = await response.json()
+  return result.candidates[0].content.parts[0].text
+}
+
+// Images go to Gemini 1.5 Flash for speed, PDFs to 2.0 Flash for its native PDF support
+export const geminiProvider: OCRProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  supportsImages: true,
+  supportsPDF: true,
+  costPerPage: 0.0002,
+  languages: '*',
+  isAvailable: () => !!getGeminiApiKey(),
+  async extract(input: OCRInput): Promise<ExtractedTableData[]> {
+    const base64Data = await input.getBase64()
+
+    const documentPrompt = DOCUMENT_TYPE_PROMPTS[input.documentType] + getLanguagePrompt(input.languages)
+
+    if (input.kind === 'pdf') {
+      const prompt = input.pageNumber
+        ? PDF_PROMPT + getPagePrompt(input.pageNumber, input.pageCount || input.pageNumber)
+        : PDF_PROMPT
+      const content = await callGemini('gemini-2.0-flash', prompt + documentPrompt, 'application/pdf', base64Data)
+      // Slightly lower confidence than images as PDFs can be more complex
+      return parseTablesJSON(content, 90)
+    }
+
+    const content = await callGemini('gemini-1.5-flash', IMAGE_PROMPT + documentPrompt, 'image/png', base64Data)
+    return parseTablesJSON(content, 95)
+  }
+}
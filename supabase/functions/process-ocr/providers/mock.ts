@@ -0,0 +1,32 @@
+import { ExtractedTableData, OCRInput, OCRProvider } from '../types.ts'
+
+const DEFAULT_MOCK_RESULT: ExtractedTableData = {
+  headers: ['Date', 'Item', 'Quantity', 'Rate', 'Amount'],
+  rows: [
+    { Date: '01-01-2024', Item: 'Rice', Quantity: '25', Rate: '45', Amount: '1125' },
+    { Date: '02-01-2024', Item: 'Wheat', Quantity: '10', Rate: '30', Amount: '300' },
+    { Date: '03-01-2024', Item: 'Sugar', Quantity: '5', Rate: '42', Amount: '210' }
+  ],
+  confidence: 100,
+  // One unsure cell so the workspace review flow has something to show
+  cellConfidence: [{}, {}, { Rate: 55 }]
+}
+
+// Deterministic provider for local runs without Google credentials. It is only
+// available when OCR_MOCK_PROVIDER=true, so production chains never reach it.
+// OCR_MOCK_RESULT may hold a JSON table (or `{ tables: [...] }`) to return instead.
+export const mockProvider: OCRProvider = {
+  id: 'mock',
+  name: 'Mock provider',
+  supportsImages: true,
+  supportsPDF: true,
+  costPerPage: 0,
+  languages: '*',
+  isAvailable: () => Deno.env.get('OCR_MOCK_PROVIDER') === 'true',
+  extract(_input: OCRInput): Promise<ExtractedTableData[]> {
+    const fixture = Deno.env.get('OCR_MOCK_RESULT')
+    const result = fixture ? JSON.parse(fixture) : DEFAULT_MOCK_RESULT
+    const tables: ExtractedTableData[] = Array.isArray(result.tables) ? result.tables : [result]
+    return Promise.resolve(structuredClone(tables))
+  }
+}
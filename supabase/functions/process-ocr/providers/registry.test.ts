@@ -0,0 +1,132 @@
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { OCRProvider } from '../types.ts'
+import { createOCRInput } from '../utils.ts'
+import { createUsage, registerProvider, resolveProviderChain, runProviderChain } from './registry.ts'
+
+const attempts: string[] = []
+
+// Stand-in providers that record when they run
+function testProvider(id: string, extract: OCRProvider['extract']): OCRProvider {
+  return {
+    id,
+    name: id,
+    supportsImages: true,
+    supportsPDF: false,
+    costPerPage: 0.01,
+    languages: ['en'],
+    isAvailable: () => true,
+    extract(input) {
+      attempts.push(id)
+      return extract(input)
+    }
+  }
+}
+
+registerProvider(testProvider('failing', () => Promise.reject(new Error('engine down'))))
+registerProvider(testProvider('empty', () => Promise.resolve([{ headers: ['A'], rows: [], confidence: 90 }])))
+
+function imageInput(languages = ['en']) {
+  return createOCRInput('https://example.test/register.jpg', 'image/jpeg', languages, 'ledger')
+}
+
+function withMock(result: string | null, run: () => Promise<void>) {
+  return async () => {
+    attempts.length = 0
+    Deno.env.set('OCR_MOCK_PROVIDER', 'true')
+    if (result === null) Deno.env.delete('OCR_MOCK_RESULT')
+    else Deno.env.set('OCR_MOCK_RESULT', result)
+    Deno.env.delete('TESSERACT_WORKER_URL')
+    try {
+      await run()
+    } finally {
+      Deno.env.delete('OCR_MOCK_PROVIDER')
+      Deno.env.delete('OCR_MOCK_RESULT')
+    }
+  }
+}
+
+Deno.test('runProviderChain falls back past failing, empty and unusable providers', withMock(null, async () => {
+  const tables = await runProviderChain(['unknown', 'tesseract', 'failing', 'empty', 'mock'], imageInput())
+
+  assertEquals(attempts, ['failing', 'empty'])
+  assertEquals(tables.length, 1)
+  assertEquals(tables[0].provider, 'mock')
+  assertEquals(tables[0].headers, ['Date', 'Item', 'Quantity', 'Rate', 'Amount'])
+  assertEquals(tables[0].rows.length, 3)
+}))
+
+Deno.test('runProviderChain counts every provider call and its cost, including failed ones', withMock(null, async () => {
+  const usage = createUsage()
+  await runProviderChain(['failing', 'empty', 'mock'], imageInput(), usage)
+  await runProviderChain(['failing', 'mock'], imageInput(), usage)
+
+  assertEquals(usage, { pages: { failing: 2, empty: 1, mock: 2 }, cost: 0.03 })
+}))
+
+Deno.test('runProviderChain stops at the first provider with rows', withMock(null, async () => {
+  const tables = await runProviderChain(['mock', 'failing'], imageInput())
+
+  assertEquals(attempts, [])
+  assertEquals(tables[0].provider, 'mock')
+}))
+
+Deno.test('runProviderChain skips providers without the language', withMock(null, async () => {
+  const tables = await runProviderChain(['failing', 'mock'], imageInput(['hi']))
+
+  assertEquals(attempts, [])
+  assertEquals(tables[0].provider, 'mock')
+}))
+
+Deno.test('runProviderChain rethrows the last error when every provider failed', withMock('not json', async () => {
+  await assertRejects(() => runProviderChain(['failing', 'mock'], imageInput()), SyntaxError)
+  assertEquals(attempts, ['failing'])
+}))
+
+Deno.test('runProviderChain returns no tables when a provider read the file but found none', withMock(
+  JSON.stringify({ headers: ['A'], rows: [], confidence: 90 }),
+  async () => {
+    assertEquals(await runProviderChain(['failing', 'empty', 'mock'], imageInput()), [])
+    assertEquals(attempts, ['failing', 'empty'])
+  }
+))
+
+Deno.test('runProviderChain returns no tables when no provider could run', withMock(null, async () => {
+  Deno.env.delete('OCR_MOCK_PROVIDER')
+  assertEquals(await runProviderChain(['unknown', 'mock'], imageInput()), [])
+}))
+
+// ocr_provider_settings rows for the stand-in client, filtered like the query
+function settingsClient(rows: Array<{ file_kind: string; document_type: string; provider_chain: string[] }>) {
+  const filters: Record<string, string[]> = {}
+  const query = {
+    select: () => query,
+    eq: () => query,
+    in: (column: string, values: string[]) => {
+      filters[column] = values
+      return query
+    },
+    then: (resolve: (result: { data: unknown; error: null }) => void) => resolve({
+      data: rows.filter(row => Object.entries(filters).every(([column, values]) =>
+        values.includes(row[column as 'file_kind' | 'document_type'])
+      )),
+      error: null
+    })
+  }
+  return { from: () => query } as unknown as SupabaseClient
+}
+
+Deno.test('resolveProviderChain prefers the document type, then the file kind', async () => {
+  const client = settingsClient([
+    { file_kind: '*', document_type: '*', provider_chain: ['vision'] },
+    { file_kind: 'image', document_type: '*', provider_chain: ['document-ai'] },
+    { file_kind: '*', document_type: 'ledger', provider_chain: ['gemini'] },
+    { file_kind: 'pdf', document_type: 'ledger', provider_chain: ['mock'] }
+  ])
+
+  assertEquals(await resolveProviderChain(client, 'user-1', 'pdf', 'ledger'), ['mock'])
+  assertEquals(await resolveProviderChain(client, 'user-1', 'image', 'ledger'), ['gemini'])
+  assertEquals(await resolveProviderChain(client, 'user-1', 'image', 'invoice'), ['document-ai'])
+  assertEquals(await resolveProviderChain(client, 'user-1', 'pdf', 'invoice'), ['vision'])
+  assertEquals(await resolveProviderChain(client, 'user-1', 'pdf', 'ledger', ['tesseract']), ['tesseract'])
+})
@@ -0,0 +1,154 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { DocumentType, ExtractedTableData, FileKind, OCRInput, OCRProvider } from '../types.ts'
+import { geminiProvider } from './gemini.ts'
+import { visionProvider } from './vision.ts'
+import { documentAIProvider } from './document-ai.ts'
+import { tesseractProvider } from './tesseract.ts'
+import { mockProvider } from './mock.ts'
+
+const providers = new Map<string, OCRProvider>()
+
+export function registerProvider(provider: OCRProvider) {
+  providers.set(provider.id, provider)
+}
+
+export function getProvider(id: string): OCRProvider | undefined {
+  return providers.get(id)
+}
+
+registerProvider(geminiProvider)
+registerProvider(documentAIProvider)
+registerProvider(visionProvider)
+registerProvider(tesseractProvider)
+registerProvider(mockProvider)
+
+// Gemini first for better table extraction, then the Google OCR engines
+const DEFAULT_CHAINS: Record<FileKind, string[]> = {
+  image: ['gemini', 'document-ai', 'vision'],
+  pdf: ['gemini']
+}
+
+function parseChain(value: string | undefined): string[] | null {
+  if (!value) return null
+  const chain = value.split(',').map(id => id.trim()).filter(Boolean)
+  return chain.length > 0 ? chain : null
+}
+
+// Resolve which providers to try, most specific setting first:
+// request body -> user's setting for this document type and file kind ->
+// for this document type -> for this file kind -> user's catch-all ('*')
+// -> OCR_PROVIDERS_IMAGE / OCR_PROVIDERS_PDF -> OCR_PROVIDERS -> defaults
+export async function resolveProviderChain(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  kind: FileKind,
+  documentType: DocumentType,
+  requested?: string[]
+): Promise<string[]> {
+  if (requested && requested.length > 0) {
+    return requested
+  }
+
+  const { data: settings, error } = await supabaseClient
+    .from('ocr_provider_settings')
+    .select('file_kind, document_type, provider_chain')
+    .eq('user_id', userId)
+    .in('file_kind', [kind, '*'])
+    .in('document_type', [documentType, '*'])
+
+  if (error) {
+    console.error('Error loading OCR provider settings:', error)
+  } else if (settings && settings.length > 0) {
+    // A matching document type outranks a matching file kind
+    const specificity = (setting: { file_kind: string; document_type: string }) =>
+      (setting.document_type === documentType ? 2 : 0) + (setting.file_kind === kind ? 1 : 0)
+    const setting = [...settings].sort((a, b) => specificity(b) - specificity(a))[0]
+    if (setting.provider_chain?.length > 0) {
+      return setting.provider_chain
+    }
+  }
+
+  return parseChain(Deno.env.get(`OCR_PROVIDERS_${kind.toUpperCase()}`)) ||
+    parseChain(Deno.env.get('OCR_PROVIDERS')) ||
+    DEFAULT_CHAINS[kind]
+}
+
+// Pages sent to each provider for one job and their rough cost in USD.
+// Calls that failed or found nothing are counted too, since they are billed.
+export interface ProviderUsage {
+  pages: Record<string, number>;
+  cost: number;
+}
+
+export function createUsage(): ProviderUsage {
+  return { pages: {}, cost: 0 }
+}
+
+function recordUsage(usage: ProviderUsage, provider: OCRProvider) {
+  usage.pages[provider.id] = (usage.pages[provider.id] || 0) + 1
+  usage.cost = Math.round((usage.cost + provider.costPerPage) * 10000) / 10000
+}
+
+function canHandle(provider: OCRProvider, input: OCRInput): boolean {
+  if (input.kind === 'pdf' ? !provider.supportsPDF : !provider.supportsImages) {
+    return false
+  }
+  if (provider.languages === '*') {
+    return true
+  }
+  const supported = provider.languages
+  return input.languages.every(language => supported.includes(language))
+}
+
+// Walk the chain until a provider returns rows. Providers that are not
+// configured, cannot read this file kind/language or throw are skipped.
+// When every provider that ran threw, the last error is rethrown so the job
+// is retried; an empty list means the input was read but held no table.
+// Each provider call is added to `usage` when one is given.
+export async function runProviderChain(
+  chain: string[],
+  input: OCRInput,
+  usage?: ProviderUsage
+): Promise<ExtractedTableData[]> {
+  let lastError: unknown = null
+  let anyCompleted = false
+
+  for (const id of chain) {
+    const provider = getProvider(id)
+
+    if (!provider) {
+      console.warn(`Unknown OCR provider "${id}", skipping`)
+      continue
+    }
+    if (!provider.isAvailable()) {
+      console.log(`${provider.name} is not configured, skipping`)
+      continue
+    }
+    if (!canHandle(provider, input)) {
+      console.log(`${provider.name} cannot process this ${input.kind}, skipping`)
+      continue
+    }
+
+    try {
+      console.log(`Attempting ${provider.name} processing`)
+      if (usage) recordUsage(usage, provider)
+      const tables = (await provider.extract(input)).filter(table => table.rows.length > 0)
+      anyCompleted = true
+      if (tables.length > 0) {
+        console.log(`${provider.name} successful, found ${tables.length} table(s)`)
+        return tables.map(table => ({ ...table, provider: provider.id }))
+      }
+      console.log(`${provider.name} returned no rows, trying next provider`)
+    } catch (error) {
+      console.error(`${provider.name} error:`, error)
+      lastError = error
+    }
+  }
+
+  if (lastError && !anyCompleted) {
+    throw lastError
+  }
+
+  console.log('No OCR provider returned data')
+  return []
+}
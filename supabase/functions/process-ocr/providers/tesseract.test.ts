@@ -0,0 +1,47 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { createOCRInput } from '../utils.ts'
+import { tesseractProvider } from './tesseract.ts'
+
+// Answers the image download and the worker request with a saved worker
+// response, minus the fields left out
+function withWorker(omit: string[], run: () => Promise<void>) {
+  return async () => {
+    const response = JSON.parse(await Deno.readTextFile(new URL('../testdata/tesseract-purchase-register.json', import.meta.url)))
+    omit.forEach(field => delete response[field])
+    const originalFetch = globalThis.fetch
+    globalThis.fetch = (input: string | URL | Request) => Promise.resolve(String(input).startsWith('https://worker.test')
+      ? new Response(JSON.stringify(response))
+      : new Response(new Uint8Array([1, 2, 3])))
+    Deno.env.set('TESSERACT_WORKER_URL', 'https://worker.test/ocr')
+    try {
+      await run()
+    } finally {
+      globalThis.fetch = originalFetch
+      Deno.env.delete('TESSERACT_WORKER_URL')
+    }
+  }
+}
+
+function imageInput() {
+  return createOCRInput('https://example.test/register.jpg', 'image/jpeg', ['en', 'hi'], 'general')
+}
+
+Deno.test('tesseract provider rebuilds the table from the worker word boxes', withWorker([], async () => {
+  const [table] = await tesseractProvider.extract(imageInput())
+
+  assertEquals(table.headers, ['Bill', 'Supplier Name', 'Item', 'Qty', 'Amount (Rs)'])
+  assertEquals(table.rows.length, 22)
+  assertEquals(table.rows[6].Item, 'Nails 2 inch with delivery')
+  assertEquals(table.cellBoxes?.[0].Bill.x0, 0.04)
+  // No higher than the worker's own score
+  assertEquals(table.confidence, 88)
+}))
+
+Deno.test('tesseract provider falls back to the text without word boxes', withWorker(['words', 'width', 'height'], async () => {
+  const [table] = await tesseractProvider.extract(imageInput())
+
+  assertEquals(table.headers, ['Bill', 'Supplier', 'Item', 'Qty', 'Amount'])
+  assertEquals(table.rows[1].Supplier, 'Gupta Kirana Store')
+  assertEquals(table.cellBoxes, undefined)
+  assertEquals(table.confidence, 70)
+}))
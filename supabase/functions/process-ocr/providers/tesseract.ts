@@ -0,0 +1,70 @@
+import { ExtractedTableData, OCRInput, OCRProvider } from '../types.ts'
+import { parseTextAsTable } from '../parsing.ts'
+import { reconstructTable } from '../table-reconstruction.ts'
+
+// Tesseract traineddata names for the ISO codes we accept from callers
+const TESSERACT_LANGUAGES: Record<string, string> = {
+  en: 'eng',
+  hi: 'hin',
+  mr: 'mar',
+  gu: 'guj',
+  ta: 'tam'
+}
+
+// Word as reported by tesseract.js (`data.words`)
+interface TesseractWord {
+  text: string;
+  confidence: number;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
+// Self-hosted Tesseract HTTP worker: receives the image as base64 and replies
+// with `{ text, confidence, words?, width?, height? }`. Useful offline and where
+// cloud OCR is not allowed. When the worker returns word boxes the table is
+// rebuilt from geometry, otherwise from the text lines. The image size lets
+// cell regions be kept for the source viewer.
+export const tesseractProvider: OCRProvider = {
+  id: 'tesseract',
+  name: 'Tesseract (local worker)',
+  supportsImages: true,
+  supportsPDF: false,
+  costPerPage: 0,
+  languages: Object.keys(TESSERACT_LANGUAGES),
+  isAvailable: () => !!Deno.env.get('TESSERACT_WORKER_URL'),
+  async extract(input: OCRInput): Promise<ExtractedTableData[]> {
+    const languages = input.languages
+      .map(language => TESSERACT_LANGUAGES[language])
+      .filter(Boolean)
+
+    const response = await fetch(Deno.env.get('TESSERACT_WORKER_URL')!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        image: await input.getBase64(),
+        languages: languages.length > 0 ? languages.join('+') : 'eng'
+      })
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(`Tesseract worker error: ${response.status} - ${error}`)
+    }
+
+    const { text, confidence, words, width, height } = await response.json() as {
+      text?: string;
+      confidence?: number;
+      words?: TesseractWord[];
+      width?: number;
+      height?: number;
+    }
+
+    const fromWords = reconstructTable((words || []).map(word => ({
+      text: word.text,
+      confidence: word.confidence,
+      ...word.bbox
+    })), width && height ? { width, height } : undefined)
+    const parsed = fromWords.rows.length > 0 ? fromWords : parseTextAsTable(text || '')
+    if (parsed.rows.length === 0) return []
+    return [{ ...parsed, confidence: Math.min(parsed.confidence, confidence ?? 70) }]
+  }
+}
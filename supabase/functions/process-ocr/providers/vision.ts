@@ -0,0 +1,72 @@
+import { ExtractedTableData, OCRInput, OCRProvider } from '../types.ts'
+import { getGoogleAccessToken, hasGoogleServiceAccount } from '../google-auth.ts'
+import { extractTablesFromDocumentText } from '../parsing.ts'
+
+async function processWithVisionAPI(base64Image: string, accessToken: string, languageHints: string[]): Promise<ExtractedTableData[]> {
+  // Call Google Vision API with DOCUMENT_TEXT_DETECTION for better table detection
+  const response = await fetch('https://vision.googleapis.com/v1/images:annotate', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      requests: [{
+        image: {
+          content: base64Image
+        },
+        features: [
+          {
+            type: 'DOCUMENT_TEXT_DETECTION',
+            maxResults: 1
+          }
+        ],
+        imageContext: {
+          languageHints
+        }
+      }]
+    })
+  })
+
+  if (!response.ok) {
+    const error = await response.text()
+    console.error('Vision API error response:', error)
+    throw new Error(`Vision API error: ${response.status} - ${error}`)
+  }
+
+  const result = await response.json()
+  console.log('Vision API response received')
+  
+  if (result.responses && result.responses[0]) {
+    const response = result.responses[0]
+    
+    // Check for errors
+    if (response.error) {
+      console.error('Vision API returned error:', response.error)
+      throw new Error(`Vision API error: ${response.error.message}`)
+    }
+    
+    // Extract structured data from DOCUMENT_TEXT_DETECTION
+    if (response.fullTextAnnotation) {
+      return extractTablesFromDocumentText(response.fullTextAnnotation)
+    }
+  }
+  
+  // Return empty result if no text detected
+  return []
+}
+
+export const visionProvider: OCRProvider = {
+  id: 'vision',
+  name: 'Google Cloud Vision',
+  supportsImages: true,
+  supportsPDF: false,
+  costPerPage: 0.0015,
+  languages: '*',
+  isAvailable: hasGoogleServiceAccount,
+  async extract(input: OCRInput): Promise<ExtractedTableData[]> {
+    const accessToken = await getGoogleAccessToken()
+    const base64Image = await input.getBase64()
+    return await processWithVisionAPI(base64Image, accessToken, input.languages)
+  }
+}
@@ -0,0 +1,189 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { ProcessingJob } from './types.ts'
+import { JobRejectedError, JobResult, runOCRJob } from './jobs.ts'
+import { clearPageCheckpoints } from './checkpoints.ts'
+
+// Retry delays double from the base up to the cap: 30s, 1m, 2m, 4m, ...
+const RETRY_BASE_DELAY_MS = 30 * 1000
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000
+
+// Stop claiming new jobs after this long so the invocation finishes inside
+// the edge function wall-clock limit; whatever is left waits for the next call
+const WORKER_TIME_BUDGET_MS = 100 * 1000
+
+// Delay before retry number `attempt` (1-based), with up to 20% jitter so jobs
+// that failed together do not all retry at the same moment
+export function getRetryDelay(attempt: number, random = Math.random): number {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS)
+  return Math.round(delay * (1 + random() * 0.2))
+}
+
+async function claimJobs(supabaseClient: SupabaseClient, limit: number, workerId: string): Promise<ProcessingJob[]> {
+  const { data, error } = await supabaseClient.rpc('claim_processing_jobs', {
+    p_limit: limit,
+    p_worker: workerId
+  })
+
+  if (error) throw error
+  return data || []
+}
+
+// The document status tracks its first extraction; a re-extraction leaves the
+// document as it is, since its current data stays in use whatever happens.
+// Only the job owner's document is touched, whatever document_id the job names.
+async function setDocumentStatus(supabaseClient: SupabaseClient, job: ProcessingJob, status: string) {
+  if (job.job_type === 'reextract') return
+
+  await supabaseClient
+    .from('documents')
+    .update({ processing_status: status })
+    .eq('id', job.document_id)
+    .eq('user_id', job.user_id)
+}
+
+// A re-extraction is stored as the next version of the document, inactive
+// until the user compares it with the current one and chooses to keep it
+async function getNewVersion(supabaseClient: SupabaseClient, job: ProcessingJob) {
+  if (job.job_type !== 'reextract') return { version: 1, is_active: true }
+
+  const { data: latest, error } = await supabaseClient
+    .from('extracted_data')
+    .select('version')
+    .eq('document_id', job.document_id)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return { version: (latest?.version || 0) + 1, is_active: false }
+}
+
+// Store the result unless the job was cancelled (or taken over after a lock
+// timeout) while it ran. The data is written first so a completed job always
+// has it, and removed again if the job turns out to be no longer ours.
+async function completeJob(supabaseClient: SupabaseClient, job: ProcessingJob, workerId: string, result: JobResult) {
+  const { data: extracted, error: dataError } = await supabaseClient
+    .from('extracted_data')
+    .insert({
+      user_id: job.user_id,
+      document_id: job.document_id,
+      processing_job_id: job.id,
+      data: { tables: result.tables },
+      confidence: result.confidence,
+      failed_pages: result.failedPages,
+      ...await getNewVersion(supabaseClient, job)
+    })
+    .select('id')
+    .single()
+
+  if (dataError) throw dataError
+
+  const { data: updated, error: jobError } = await supabaseClient
+    .from('processing_jobs')
+    .update({
+      status: 'completed',
+      progress: 100,
+      result_data: result,
+      error_message: null,
+      locked_at: null
+    })
+    .eq('id', job.id)
+    .eq('status', 'processing')
+    .eq('locked_by', workerId)
+    .select('id')
+
+  if (jobError || !updated || updated.length === 0) {
+    await supabaseClient.from('extracted_data').delete().eq('id', extracted.id)
+    if (jobError) throw jobError
+    console.log(`Job ${job.id} was cancelled or reclaimed, result discarded`)
+    return
+  }
+
+  await clearPageCheckpoints(supabaseClient, job.id)
+  await setDocumentStatus(supabaseClient, job, 'completed')
+}
+
+// Schedule a retry with backoff, or move the job to the dead-letter state
+// once it has used up its attempts or can never succeed
+async function failJob(supabaseClient: SupabaseClient, job: ProcessingJob, workerId: string, error: unknown) {
+  // Supabase errors are plain objects with a message, not Error instances
+  const message = (error as { message?: string })?.message || String(error)
+  const isRejected = error instanceof JobRejectedError
+  const isDead = isRejected || job.attempts >= job.max_attempts
+
+  const { data: updated, error: jobError } = await supabaseClient
+    .from('processing_jobs')
+    .update(isDead
+      ? { status: 'dead', error_message: message, locked_at: null }
+      : {
+        status: 'pending',
+        error_message: message,
+        locked_at: null,
+        run_after: new Date(Date.now() + getRetryDelay(job.attempts)).toISOString()
+      })
+    .eq('id', job.id)
+    .eq('status', 'processing')
+    .eq('locked_by', workerId)
+    .select('id')
+
+  if (jobError) {
+    console.error(`Could not record failure of job ${job.id}:`, jobError)
+    return
+  }
+  if (!updated || updated.length === 0) return
+  if (isDead) await clearPageCheckpoints(supabaseClient, job.id)
+
+  console.log(isRejected
+    ? `Job ${job.id} rejected: ${message}`
+    : isDead
+    ? `Job ${job.id} failed ${job.attempts} times, giving up`
+    : `Job ${job.id} failed (attempt ${job.attempts} of ${job.max_attempts}), will retry`)
+  await setDocumentStatus(supabaseClient, job, isDead ? 'failed' : 'pending')
+}
+
+async function processJob(supabaseClient: SupabaseClient, job: ProcessingJob, workerId: string) {
+  try {
+    await setDocumentStatus(supabaseClient, job, 'processing')
+    const result = await runOCRJob(supabaseClient, job)
+    await completeJob(supabaseClient, job, workerId, result)
+  } catch (error) {
+    console.error(`Job ${job.id} error:`, error)
+    await failJob(supabaseClient, job, workerId, error)
+  }
+}
+
+// Claim and run queued jobs, at most `concurrency` at a time, until the queue
+// is empty or the time budget is spent. Returns the number of jobs run.
+export async function drainQueue(supabaseClient: SupabaseClient, concurrency: number): Promise<number> {
+  const workerId = crypto.randomUUID()
+  const deadline = Date.now() + WORKER_TIME_BUDGET_MS
+  const running = new Set<Promise<void>>()
+  let processed = 0
+
+  while (Date.now() < deadline) {
+    const free = concurrency - running.size
+    let jobs: ProcessingJob[] = []
+    try {
+      jobs = free > 0 ? await claimJobs(supabaseClient, free, workerId) : []
+    } catch (error) {
+      // Let the jobs already running finish, then stop
+      console.error('Could not claim jobs:', error)
+      break
+    }
+
+    for (const job of jobs) {
+      const task: Promise<void> = processJob(supabaseClient, job, workerId).finally(() => running.delete(task))
+      running.add(task)
+      processed++
+    }
+
+    if (running.size === 0) break
+    // Wait for a slot before claiming more
+    if (jobs.length === 0 || running.size >= concurrency) {
+      await Promise.race(running)
+    }
+  }
+
+  await Promise.all(running)
+  return processed
+}
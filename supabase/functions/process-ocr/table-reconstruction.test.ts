@@ -0,0 +1,70 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { reconstructTable, WordBox } from './table-reconstruction.ts'
+
+// Recorded Tesseract worker response: `{ text, confidence, words, width, height }`
+// with tesseract.js word boxes
+async function loadWords(name: string) {
+  const response = JSON.parse(await Deno.readTextFile(new URL(`./testdata/${name}`, import.meta.url)))
+  const words: WordBox[] = response.words.map((word: { text: string; confidence: number; bbox: Omit<WordBox, 'text' | 'confidence'> }) => ({
+    text: word.text,
+    confidence: word.confidence,
+    ...word.bbox
+  }))
+  return { words, pageSize: { width: response.width, height: response.height } }
+}
+
+Deno.test('reconstructTable rebuilds a register from word boxes', async () => {
+  const { words, pageSize } = await loadWords('tesseract-purchase-register.json')
+  const table = reconstructTable(words, pageSize)
+
+  // The title is skipped and the second header line folds into the first
+  assertEquals(table.headers, ['Bill', 'Supplier Name', 'Item', 'Qty', 'Amount (Rs)'])
+  // More than 20 rows, numbered from 101
+  assertEquals(table.rows.length, 22)
+  assertEquals(table.rows.map(row => row.Bill), Array.from({ length: 22 }, (_, i) => String(101 + i)))
+  assertEquals(table.rows[2], {
+    Bill: '103',
+    'Supplier Name': 'Shree Ganesh Traders',
+    Item: 'Cement bags',
+    Qty: '3',
+    'Amount (Rs)': '1,050'
+  })
+  assertEquals(table.rows[21]['Amount (Rs)'], '7,700')
+})
+
+Deno.test('reconstructTable keeps a wrapped cell in its row', async () => {
+  const { words, pageSize } = await loadWords('tesseract-purchase-register.json')
+  const table = reconstructTable(words, pageSize)
+
+  assertEquals(table.rows[6].Item, 'Nails 2 inch with delivery')
+  assertEquals(table.rows[7].Bill, '108')
+  // The cell's region covers both lines
+  const boxes = table.cellBoxes![6]
+  assertEquals(boxes.Item.y0, boxes.Bill.y0)
+  assertEquals(boxes.Item.y1 > boxes.Bill.y1, true)
+})
+
+Deno.test('reconstructTable scores each cell by its least certain word', async () => {
+  const { words } = await loadWords('tesseract-purchase-register.json')
+  const table = reconstructTable(words)
+
+  assertEquals(table.cellConfidence?.[3]['Supplier Name'], 48)
+  assertEquals(table.cellConfidence?.[10]['Amount (Rs)'], 55)
+  assertEquals(table.confidence, 90)
+  // Regions only come with the page size
+  assertEquals(table.cellBoxes, undefined)
+})
+
+Deno.test('reconstructTable finds no table in running text', () => {
+  const line = (text: string, y: number): WordBox[] => text.split(' ').map((word, i) => ({
+    text: word,
+    x0: 40 + i * 60,
+    y0: y,
+    x1: 90 + i * 60,
+    y1: y + 20,
+    confidence: 90
+  }))
+
+  assertEquals(reconstructTable([]), { headers: [], rows: [], confidence: 0 })
+  assertEquals(reconstructTable([...line('Received with thanks from', 40), ...line('Ram Kumar the sum of', 70)]).rows, [])
+})
@@ -0,0 +1,315 @@
+import { CellBox, ExtractedTableData } from './types.ts'
+
+// Pure table reconstruction from word boxes. Nothing here calls an API or
+// touches Deno globals, so it can be exercised against saved OCR output.
+
+// A recognised word with its axis-aligned bounding box in page pixels
+export interface WordBox {
+  text: string;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  // 0-100
+  confidence: number;
+}
+
+interface Line {
+  top: number;
+  bottom: number;
+  words: WordBox[];
+}
+
+interface Cell {
+  text: string;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  confidence: number;
+}
+
+interface GridLine {
+  top: number;
+  bottom: number;
+  values: string[];
+  // -1 where the line has no cell in that column
+  confidences: number[];
+  // Pixel bounds of each filled cell
+  boxes: Array<CellBox | null>;
+}
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+interface ColumnSpan {
+  x0: number;
+  x1: number;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+// Group words into row lines by vertical overlap rather than a shared centre
+// or baseline, so slanted handwriting and mixed font sizes still land on one
+// row. A word is compared with the horizontally nearest word of a line, not
+// the whole line, because on a skewed page a row's extent grows with its
+// width and would swallow a wrapped line under its left end.
+function groupLines(words: WordBox[]): Line[] {
+  const lines: Line[] = []
+  const sorted = [...words].sort((a, b) => (a.y0 + a.y1) / 2 - (b.y0 + b.y1) / 2)
+
+  const overlaps = (line: Line, word: WordBox) => {
+    const nearest = line.words.reduce((best, candidate) =>
+      horizontalGap(candidate, word) < horizontalGap(best, word) ? candidate : best
+    )
+    const overlap = Math.min(nearest.y1, word.y1) - Math.max(nearest.y0, word.y0)
+    return overlap >= Math.min(word.y1 - word.y0, nearest.y1 - nearest.y0) * 0.5
+  }
+
+  for (const word of sorted) {
+    // Recent lines first; a slanted row can still be open below a newer one
+    const line = [...lines].reverse().find(candidate => word.y0 <= candidate.bottom && overlaps(candidate, word))
+
+    if (line) {
+      line.words.push(word)
+      line.top = Math.min(line.top, word.y0)
+      line.bottom = Math.max(line.bottom, word.y1)
+    } else {
+      lines.push({ top: word.y0, bottom: word.y1, words: [word] })
+    }
+  }
+
+  return lines
+    .sort((a, b) => a.top - b.top)
+    .map(line => ({ ...line, words: line.words.sort((a, b) => a.x0 - b.x0) }))
+}
+
+function horizontalGap(a: WordBox, b: WordBox): number {
+  return Math.max(0, a.x0 - b.x1, b.x0 - a.x1)
+}
+
+// Merge neighbouring words on a line into cells; a gap wider than roughly one
+// character height separates two cells, so "Ram Kumar" stays one cell
+function groupCells(line: Line, wordHeight: number): Cell[] {
+  const cells: Array<Cell & { words: number }> = []
+
+  for (const word of line.words) {
+    const cell = cells[cells.length - 1]
+    if (cell && word.x0 - cell.x1 <= wordHeight * 0.9) {
+      cell.text += ` ${word.text}`
+      cell.x1 = Math.max(cell.x1, word.x1)
+      cell.y0 = Math.min(cell.y0, word.y0)
+      cell.y1 = Math.max(cell.y1, word.y1)
+      cell.confidence = (cell.confidence * cell.words + word.confidence) / (cell.words + 1)
+      cell.words++
+    } else {
+      cells.push({
+        text: word.text,
+        x0: word.x0,
+        y0: word.y0,
+        x1: word.x1,
+        y1: word.y1,
+        confidence: word.confidence,
+        words: 1
+      })
+    }
+  }
+
+  return cells.map(({ words: _words, ...cell }) => cell)
+}
+
+// Infer column boundaries from a horizontal coverage profile: count how many
+// lines have a cell over each x position; gutters are where fewer than ~10%
+// of lines do. The tolerance keeps one overflowing cell from bridging two
+// columns. Single-cell lines (titles, notes) are left out of the profile.
+function findColumns(cellLines: Cell[][]): ColumnSpan[] {
+  const tabular = cellLines.filter(line => line.length > 1)
+  const source = tabular.length > 0 ? tabular : cellLines
+  const cells = source.flat()
+  if (cells.length === 0) return []
+
+  const minX = Math.floor(Math.min(...cells.map(cell => cell.x0)))
+  const maxX = Math.ceil(Math.max(...cells.map(cell => cell.x1)))
+  const coverage = new Array(maxX - minX + 2).fill(0)
+
+  for (const cell of cells) {
+    coverage[Math.floor(cell.x0) - minX]++
+    coverage[Math.ceil(cell.x1) - minX + 1]--
+  }
+
+  const threshold = Math.max(1, Math.ceil(source.length * 0.1))
+  const columns: ColumnSpan[] = []
+  let running = 0
+  let start = -1
+
+  for (let i = 0; i < coverage.length; i++) {
+    running += coverage[i]
+    if (running >= threshold && start < 0) {
+      start = i
+    } else if (running < threshold && start >= 0) {
+      columns.push({ x0: start + minX, x1: i - 1 + minX })
+      start = -1
+    }
+  }
+
+  return columns
+}
+
+function columnFor(cell: Cell, columns: ColumnSpan[]): number {
+  let best = 0
+  let bestScore = -Infinity
+  columns.forEach((column, index) => {
+    // Overlap when there is one, otherwise negative distance to the column
+    const score = Math.min(cell.x1, column.x1) - Math.max(cell.x0, column.x0)
+    if (score > bestScore) {
+      bestScore = score
+      best = index
+    }
+  })
+  return best
+}
+
+function unionBox(a: CellBox | null, b: CellBox | null): CellBox | null {
+  if (!a || !b) return a || b
+  return { x0: Math.min(a.x0, b.x0), y0: Math.min(a.y0, b.y0), x1: Math.max(a.x1, b.x1), y1: Math.max(a.y1, b.y1) }
+}
+
+function layOut(lines: Line[], cellLines: Cell[][], columns: ColumnSpan[]): GridLine[] {
+  return cellLines.map((cells, lineIndex) => {
+    const values: string[] = new Array(columns.length).fill('')
+    const confidences: number[] = new Array(columns.length).fill(-1)
+    const boxes: Array<CellBox | null> = new Array(columns.length).fill(null)
+    for (const cell of cells) {
+      const index = columnFor(cell, columns)
+      values[index] = values[index] ? `${values[index]} ${cell.text}` : cell.text
+      confidences[index] = confidences[index] < 0 ? cell.confidence : Math.min(confidences[index], cell.confidence)
+      boxes[index] = unionBox(boxes[index], { x0: cell.x0, y0: cell.y0, x1: cell.x1, y1: cell.y1 })
+    }
+    return { top: lines[lineIndex].top, bottom: lines[lineIndex].bottom, values, confidences, boxes }
+  })
+}
+
+function filledCount(line: GridLine): number {
+  return line.values.filter(Boolean).length
+}
+
+// The leftmost column that full rows always fill (usually a serial number or
+// date). Only dense lines are counted, because wrapped text adds sparse lines
+// to the wide text columns. A line that leaves the anchor empty is a
+// candidate continuation of the line above.
+function findAnchorColumn(lines: GridLine[]): number {
+  const dense = lines.filter(line => filledCount(line) > line.values.length / 2)
+  const source = dense.length > 0 ? dense : lines
+  const counts = source[0].values.map((_, index) => source.filter(line => line.values[index]).length)
+  return counts.indexOf(Math.max(...counts))
+}
+
+// A wrapped cell shows up as a sparse line directly under its row, with the
+// anchor column empty and a small vertical gap
+function isContinuation(line: GridLine, previous: GridLine, anchor: number, lineHeight: number): boolean {
+  return !line.values[anchor] &&
+    filledCount(line) <= Math.max(1, line.values.length / 2) &&
+    line.top - previous.bottom <= lineHeight * 0.8
+}
+
+function mergeInto(target: GridLine, line: GridLine) {
+  line.values.forEach((value, index) => {
+    if (!value) return
+    target.values[index] = target.values[index] ? `${target.values[index]} ${value}` : value
+    target.confidences[index] = target.confidences[index] < 0
+      ? line.confidences[index]
+      : Math.min(target.confidences[index], line.confidences[index])
+    target.boxes[index] = unionBox(target.boxes[index], line.boxes[index])
+  })
+  target.bottom = line.bottom
+}
+
+function uniqueHeaders(values: string[]): string[] {
+  const seen = new Map<string, number>()
+  return values.map((value, index) => {
+    const base = value || `Column${index + 1}`
+    const count = seen.get(base) || 0
+    seen.set(base, count + 1)
+    return count > 0 ? `${base} ${count + 1}` : base
+  })
+}
+
+// Rebuild a table from word geometry: words -> lines (by overlap) -> cells ->
+// columns (by gutters). The first line filling at least half of the columns
+// starts the header; wrapped header and body lines are folded into the line
+// above, so multi-line cells and two-line headers come out as single cells.
+// With the page size, each cell's region is returned too (as page fractions).
+export function reconstructTable(words: WordBox[], pageSize?: PageSize): ExtractedTableData {
+  const empty: ExtractedTableData = { headers: [], rows: [], confidence: 0 }
+  if (words.length === 0) return empty
+
+  const wordHeight = median(words.map(word => word.y1 - word.y0)) || 1
+  const lines = groupLines(words)
+  const cellLines = lines.map(line => groupCells(line, wordHeight))
+  const columns = findColumns(cellLines)
+
+  if (columns.length < 2) return empty
+
+  const grid = layOut(lines, cellLines, columns)
+  const headerIndex = grid.findIndex(line => filledCount(line) >= columns.length / 2)
+  if (headerIndex === -1) return empty
+
+  const body = grid.slice(headerIndex + 1).filter(line => filledCount(line) > 0)
+  const anchor = body.length > 0 ? findAnchorColumn(body) : 0
+  const header = grid[headerIndex]
+  const merged: GridLine[] = []
+
+  for (const line of body) {
+    const previous = merged[merged.length - 1] || header
+    if (isContinuation(line, previous, anchor, wordHeight)) {
+      mergeInto(previous, line)
+    } else {
+      merged.push({ ...line, values: [...line.values], confidences: [...line.confidences], boxes: [...line.boxes] })
+    }
+  }
+
+  const headers = uniqueHeaders(header.values)
+  const rows: Array<Record<string, string>> = []
+  const cellConfidence: Array<Record<string, number>> = []
+  const cellBoxes: Array<Record<string, CellBox>> = []
+
+  for (const line of merged) {
+    const row: Record<string, string> = {}
+    const confidence: Record<string, number> = {}
+    const boxes: Record<string, CellBox> = {}
+    headers.forEach((name, index) => {
+      row[name] = line.values[index]
+      if (line.confidences[index] >= 0) {
+        confidence[name] = Math.round(line.confidences[index])
+      }
+      const box = line.boxes[index]
+      if (box && pageSize) {
+        boxes[name] = {
+          x0: box.x0 / pageSize.width,
+          y0: box.y0 / pageSize.height,
+          x1: box.x1 / pageSize.width,
+          y1: box.y1 / pageSize.height
+        }
+      }
+    })
+    rows.push(row)
+    cellConfidence.push(confidence)
+    cellBoxes.push(boxes)
+  }
+
+  const scores = cellConfidence.flatMap(confidence => Object.values(confidence))
+  return {
+    headers,
+    rows,
+    cellConfidence,
+    ...(pageSize ? { cellBoxes } : {}),
+    confidence: scores.length > 0 ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : 0
+  }
+}
@@ -0,0 +1,128 @@
+// Body of a process-ocr call. Work comes from the processing_jobs queue, so a
+// call only wakes the worker; jobId traces which upload woke it and must be
+// one of the caller's own jobs.
+export interface OCRRequest {
+  jobId?: string;
+}
+
+// processing_jobs.status; 'dead' jobs used up their attempts and keep the last error
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'dead' | 'cancelled'
+
+// Optional per-job settings in processing_jobs.options
+export interface OCRJobOptions {
+  // Provider chain for this job, overriding the user's settings
+  providers?: string[];
+  // Override the languages and type stored on the document
+  languages?: string[];
+  documentType?: DocumentType;
+}
+
+// A processing_jobs row as claimed by the worker
+export interface ProcessingJob {
+  id: string;
+  user_id: string;
+  document_id: string;
+  // 'new_table' for an upload, 'reextract' to OCR the document again as a new version
+  job_type: string;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  options: OCRJobOptions | null;
+}
+
+// Chosen on upload; selects the extraction prompt and post-processing
+export type DocumentType = 'general' | 'ledger' | 'invoice' | 'bank_statement' | 'receipt'
+
+export const DOCUMENT_TYPES: DocumentType[] = ['general', 'ledger', 'invoice', 'bank_statement', 'receipt']
+
+// A written balance that does not equal the previous balance plus this row's movement
+export interface LedgerMismatch {
+  row: number;
+  written: number;
+  expected: number;
+}
+
+// Result of recomputing the running balance of a ledger or bank statement
+export interface LedgerCheck {
+  debitColumn?: string;
+  creditColumn?: string;
+  balanceColumn: string;
+  // Which movement raises the balance: credit for bank statements, debit for a customer's khata
+  balanceIncreasesWith: 'credit' | 'debit';
+  // Rows whose written balance could be checked against the previous one
+  checkedRows: number;
+  mismatches: LedgerMismatch[];
+}
+
+// Region of the source that produced a cell, as fractions (0-1) of the page
+// size so the viewer can scale it to any rendering
+export interface CellBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  // 1-based page for multi-page PDFs
+  page?: number;
+}
+
+export interface ExtractedTableData {
+  // Label for the table when a document holds several (e.g. "Line items")
+  name?: string;
+  rows: Array<Record<string, string>>;
+  confidence: number;
+  headers: string[];
+  // Per-cell confidence (0-100) aligned with rows, when the engine reports it
+  cellConfidence?: Array<Record<string, number>>;
+  // Per-cell source regions aligned with rows, when the engine reports geometry
+  cellBoxes?: Array<Record<string, CellBox>>;
+  provider?: string;
+  // 1-based source pages, set for PDFs processed page by page
+  pages?: number[];
+  ledger?: LedgerCheck;
+}
+
+// One table as stored in extracted_data.data.tables
+export interface StoredTable {
+  id: string;
+  name: string;
+  headers: string[];
+  rows: Array<Record<string, string>>;
+  // Cells as read before normalisation, aligned with rows; changed cells only
+  originalValues?: Array<Record<string, string>>;
+  confidence: number;
+  cellConfidence?: Array<Record<string, number>>;
+  cellBoxes?: Array<Record<string, CellBox>>;
+  pages?: number[];
+  provider?: string;
+  ledger?: LedgerCheck;
+}
+
+export type FileKind = 'image' | 'pdf'
+
+// Everything a provider needs to run against one uploaded file. The file is
+// downloaded lazily and shared, so walking a fallback chain fetches it once.
+export interface OCRInput {
+  fileUrl: string;
+  fileType: string;
+  kind: FileKind;
+  languages: string[];
+  documentType: DocumentType;
+  // Set when the input is a single page split out of a larger PDF
+  pageNumber?: number;
+  pageCount?: number;
+  getBase64(): Promise<string>;
+}
+
+export interface OCRProvider {
+  id: string;
+  name: string;
+  supportsImages: boolean;
+  supportsPDF: boolean;
+  // Rough cost in USD per page or image, recorded with each job
+  costPerPage: number;
+  // ISO language codes the engine handles, or '*' for anything
+  languages: string[] | '*';
+  isAvailable(): boolean;
+  // Every table found in the input; an empty list means nothing was recognised
+  extract(input: OCRInput): Promise<ExtractedTableData[]>;
+}
@@ -0,0 +1,139 @@
+import { DocumentType, ExtractedTableData, FileKind, OCRInput, StoredTable } from './types.ts'
+import { normalizeTableValues } from './normalization.ts'
+
+// Helper function to safely convert ArrayBuffer to base64 (prevents stack overflow)
+export function arrayBufferToBase64(buffer: ArrayBuffer | Uint8Array): string {
+  const bytes = new Uint8Array(buffer)
+  const chunkSize = 8192 // Process in chunks to avoid stack overflow
+  let result = ''
+  
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    const chunk = bytes.slice(i, i + chunkSize)
+    result += String.fromCharCode(...Array.from(chunk))
+  }
+  
+  return btoa(result)
+}
+
+// Cells a model flags as unsure are stored at this confidence, low enough to
+// fall under the workspace review threshold
+const UNCERTAIN_CELL_CONFIDENCE = 50
+
+interface ModelTable {
+  name?: string;
+  headers?: string[];
+  rows?: Array<Record<string, string>>;
+  uncertain?: Array<{ row: number; column: string }>;
+}
+
+// Extract the JSON object from a model reply that may include prose or fences.
+// Accepts `{ tables: [...] }` as well as a single `{ headers, rows }` table.
+// Every cell gets the table confidence except those listed in `uncertain`.
+export function parseTablesJSON(content: string, confidence: number): ExtractedTableData[] {
+  const jsonMatch = content.match(/\{[\s\S]*\}/)
+  if (!jsonMatch) return []
+
+  const parsedData = JSON.parse(jsonMatch[0])
+  const tables: ModelTable[] = Array.isArray(parsedData.tables) ? parsedData.tables : [parsedData]
+
+  return tables
+    .map(table => {
+      const headers = table.headers || []
+      const rows = table.rows || []
+      const cellConfidence = rows.map(row => {
+        const cells: Record<string, number> = {}
+        Object.keys(row).forEach(header => {
+          cells[header] = confidence
+        })
+        return cells
+      })
+
+      for (const cell of Array.isArray(table.uncertain) ? table.uncertain : []) {
+        if (cellConfidence[cell?.row] && typeof cell.column === 'string') {
+          cellConfidence[cell.row][cell.column] = UNCERTAIN_CELL_CONFIDENCE
+        }
+      }
+
+      return {
+        name: table.name || undefined,
+        headers,
+        rows,
+        confidence,
+        cellConfidence
+      }
+    })
+    .filter(table => table.rows.length > 0)
+}
+
+export function toStoredTables(tables: ExtractedTableData[]): StoredTable[] {
+  return tables.map((table, index) => ({
+    id: crypto.randomUUID(),
+    name: table.name || `Table ${index + 1}`,
+    headers: table.headers,
+    ...normalizeTableValues(table.headers, table.rows),
+    confidence: table.confidence,
+    ...(table.cellConfidence ? { cellConfidence: table.cellConfidence } : {}),
+    ...(table.cellBoxes ? { cellBoxes: table.cellBoxes } : {}),
+    ...(table.pages ? { pages: table.pages } : {}),
+    ...(table.provider ? { provider: table.provider } : {}),
+    ...(table.ledger ? { ledger: table.ledger } : {})
+  }))
+}
+
+// Row-weighted confidence across all tables of a document
+export function overallConfidence(tables: ExtractedTableData[]): number {
+  const totalRows = tables.reduce((sum, table) => sum + table.rows.length, 0)
+  if (totalRows === 0) return 0
+  return Math.round(tables.reduce((sum, table) => sum + table.confidence * table.rows.length, 0) / totalRows)
+}
+
+export function getFileKind(fileType?: string): FileKind {
+  return fileType === 'application/pdf' ? 'pdf' : 'image'
+}
+
+// Build the shared provider input; the download happens on first use only
+export function createOCRInput(
+  fileUrl: string,
+  fileType: string | undefined,
+  languages: string[],
+  documentType: DocumentType
+): OCRInput {
+  let base64: Promise<string> | null = null
+
+  return {
+    fileUrl,
+    fileType: fileType || '',
+    kind: getFileKind(fileType),
+    languages,
+    documentType,
+    getBase64() {
+      if (!base64) {
+        base64 = (async () => {
+          console.log('Downloading file from:', fileUrl)
+          const fileResponse = await fetch(fileUrl)
+          if (!fileResponse.ok) {
+            throw new Error(`Failed to download file: ${fileResponse.status} ${fileResponse.statusText}`)
+          }
+          const fileBuffer = await fileResponse.arrayBuffer()
+          console.log('File downloaded, size:', fileBuffer.byteLength)
+          return arrayBufferToBase64(fileBuffer)
+        })()
+      }
+      return base64
+    }
+  }
+}
+
+// Input for one page split out of a PDF, already in memory
+export function createPageInput(base64: string, pageNumber: number, pageCount: number, parent: OCRInput): OCRInput {
+  return {
+    fileUrl: '',
+    fileType: 'application/pdf',
+    kind: 'pdf',
+    languages: parent.languages,
+    documentType: parent.documentType,
+    pageNumber,
+    pageCount,
+    getBase64: () => Promise.resolve(base64)
+  }
+}
@@ -0,0 +1,25 @@
+-- Per-user OCR provider fallback chains
+-- file_kind is 'image', 'pdf' or '*' (applies to any file kind without its own row)
+CREATE TABLE public.ocr_provider_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  file_kind TEXT NOT NULL DEFAULT '*' CHECK (file_kind IN ('image', 'pdf', '*')),
+  provider_chain TEXT[] NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, file_kind)
+);
+
+CREATE INDEX idx_ocr_provider_settings_user_id ON public.ocr_provider_settings(user_id);
+
+-- Enable RLS
+ALTER TABLE public.ocr_provider_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own OCR provider settings"
+  ON public.ocr_provider_settings FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_ocr_provider_settings_updated_at
+  BEFORE UPDATE ON public.ocr_provider_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,5 @@
+-- Derived, preprocessed copy of an uploaded image (rotated, cropped, deskewed,
+-- contrast-normalised). OCR runs on processed_file_path; file_path keeps the original.
+ALTER TABLE public.documents
+  ADD COLUMN processed_file_path TEXT,
+  ADD COLUMN preprocessing JSONB; -- Steps and settings used to produce the derived file
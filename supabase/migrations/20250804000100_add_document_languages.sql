@@ -0,0 +1,4 @@
+-- Languages selected for a document at upload, passed to OCR as hints.
+-- Defaults from the uploader's profiles.language in the app.
+ALTER TABLE public.documents
+  ADD COLUMN languages TEXT[] NOT NULL DEFAULT ARRAY['en'];
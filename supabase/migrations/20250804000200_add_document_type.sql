@@ -0,0 +1,5 @@
+-- Kind of document chosen at upload. Selects the extraction prompt and, for
+-- ledgers and bank statements, the running balance check.
+ALTER TABLE public.documents
+  ADD COLUMN document_type TEXT NOT NULL DEFAULT 'general'
+    CHECK (document_type IN ('general', 'ledger', 'invoice', 'bank_statement', 'receipt'));
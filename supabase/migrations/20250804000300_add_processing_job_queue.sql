@@ -0,0 +1,62 @@
+-- Turn processing_jobs into a queue. Uploads enqueue a 'pending' job and the
+-- process-ocr worker claims jobs in batches, retrying failures with
+-- exponential backoff until max_attempts, after which the job is 'dead'.
+-- status: 'pending', 'processing', 'completed', 'dead' (gave up, see error_message) or 'cancelled'
+ALTER TABLE public.processing_jobs
+  ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN max_attempts INTEGER NOT NULL DEFAULT 5,
+  ADD COLUMN run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), -- Not claimed before this time (retry backoff)
+  ADD COLUMN locked_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN locked_by TEXT, -- Worker invocation that claimed the job
+  ADD COLUMN options JSONB; -- Per-job OCR options, e.g. { "providers": ["vision"] }
+
+-- Jobs written by the old synchronous flow end up 'failed'; treat them as dead letters
+UPDATE public.processing_jobs SET status = 'dead' WHERE status = 'failed';
+
+CREATE INDEX idx_processing_jobs_queue ON public.processing_jobs(status, run_after);
+
+-- Claim up to p_limit runnable jobs for one worker. SKIP LOCKED lets several
+-- workers run at once without taking the same job. Jobs stuck in
+-- 'processing' longer than p_lock_timeout (the worker died) are claimed
+-- again, or marked dead when they have used up their attempts.
+CREATE OR REPLACE FUNCTION public.claim_processing_jobs(
+  p_limit INTEGER,
+  p_worker TEXT,
+  p_lock_timeout INTERVAL DEFAULT interval '10 minutes'
+)
+RETURNS SETOF public.processing_jobs AS $$
+BEGIN
+  UPDATE public.processing_jobs
+  SET status = 'dead',
+      error_message = COALESCE(error_message, 'Worker stopped responding'),
+      locked_at = NULL,
+      locked_by = NULL
+  WHERE status = 'processing'
+    AND locked_at < now() - p_lock_timeout
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE public.processing_jobs AS job
+  SET status = 'processing',
+      attempts = job.attempts + 1,
+      locked_at = now(),
+      locked_by = p_worker,
+      progress = 0
+  WHERE job.id IN (
+    SELECT id FROM public.processing_jobs
+    WHERE document_id IS NOT NULL
+      AND (
+        (status = 'pending' AND run_after <= now())
+        OR (status = 'processing' AND locked_at < now() - p_lock_timeout)
+      )
+    ORDER BY run_after, created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING job.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the worker (service role) may claim jobs
+REVOKE EXECUTE ON FUNCTION public.claim_processing_jobs(INTEGER, TEXT, INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_processing_jobs(INTEGER, TEXT, INTERVAL) TO service_role;
@@ -0,0 +1,11 @@
+-- Several extractions of one document. Re-extracting adds a new, inactive
+-- version; the user compares it with the active one and keeps either. Lists
+-- show only the active version of each document.
+ALTER TABLE public.extracted_data
+  ADD COLUMN version INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN is_active BOOLEAN NOT NULL DEFAULT true;
+
+CREATE INDEX idx_extracted_data_document_version ON public.extracted_data(document_id, version);
+
+-- processing_jobs.job_type gains 'reextract': OCR an existing document again
+-- with processing_jobs.options overriding its provider, languages or type
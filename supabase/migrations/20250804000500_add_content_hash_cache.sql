@@ -0,0 +1,30 @@
+-- SHA-256 of the uploaded file, computed in the browser before upload. Used to
+-- warn about files that were already processed and as the OCR cache key.
+ALTER TABLE public.documents
+  ADD COLUMN content_hash TEXT;
+
+CREATE INDEX idx_documents_user_content_hash ON public.documents(user_id, content_hash);
+
+-- OCR results by content and settings, so processing identical content again
+-- returns the stored tables without calling the providers.
+-- cache_key is the SHA-256 of content_hash, file kind, provider chain,
+-- languages, document type and preprocessing.
+CREATE TABLE public.ocr_result_cache (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  cache_key TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  provider_chain TEXT[] NOT NULL,
+  tables JSONB NOT NULL, -- ExtractedTableData[] as returned by the providers
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, cache_key)
+);
+
+-- Enable RLS; only the process-ocr worker (service role) reads and writes the cache
+ALTER TABLE public.ocr_result_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_ocr_result_cache_updated_at
+  BEFORE UPDATE ON public.ocr_result_cache
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,30 @@
+-- Jobs may only name the user's own documents. The process-ocr worker runs
+-- with the service role and checks this again, but a job for another user's
+-- document should not get into the queue at all.
+DROP POLICY "Users can insert own processing jobs" ON public.processing_jobs;
+DROP POLICY "Users can update own processing jobs" ON public.processing_jobs;
+
+CREATE POLICY "Users can insert own processing jobs" ON public.processing_jobs
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND (document_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.documents
+      WHERE documents.id = processing_jobs.document_id AND documents.user_id = auth.uid()
+    ))
+  );
+
+CREATE POLICY "Users can update own processing jobs" ON public.processing_jobs
+  FOR UPDATE USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND (document_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.documents
+      WHERE documents.id = processing_jobs.document_id AND documents.user_id = auth.uid()
+    ))
+  );
+
+-- Documents must point at files in the uploader's own storage folder
+ALTER TABLE public.documents
+  ADD CONSTRAINT documents_file_path_in_user_folder
+  CHECK (file_path LIKE user_id::text || '/%' AND (processed_file_path IS NULL OR processed_file_path LIKE user_id::text || '/%'))
+  NOT VALID;
@@ -0,0 +1,92 @@
+-- Every write of extracted_data.data is kept as an immutable revision, so a
+-- mistaken edit or AI change can be undone by restoring an earlier one.
+-- Revision 1 of each row is what OCR (or the spreadsheet import) produced.
+CREATE TABLE public.extracted_data_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  extracted_data_id UUID NOT NULL REFERENCES public.extracted_data(id) ON DELETE CASCADE,
+  -- Owner of the extracted data, for RLS
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  data JSONB NOT NULL,
+  confidence NUMERIC,
+  -- 'ocr' and 'import' for revision 1, 'edit' for later saves
+  source TEXT NOT NULL CHECK (source IN ('ocr', 'import', 'edit')),
+  -- What the save did, e.g. "Edited Amount in row 3" or "Restored revision 2"
+  note TEXT,
+  -- Who saved it; null when the OCR worker wrote it
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (extracted_data_id, revision_number)
+);
+
+CREATE INDEX idx_extracted_data_revisions_user_id ON public.extracted_data_revisions(user_id);
+
+-- Clients set change_note together with data; the trigger copies it into
+-- the revision
+ALTER TABLE public.extracted_data ADD COLUMN change_note TEXT;
+
+-- Revisions are written only by the trigger below and never changed, so
+-- users may read them but there are no insert, update or delete policies
+ALTER TABLE public.extracted_data_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own extracted data revisions" ON public.extracted_data_revisions
+  FOR SELECT USING (user_id = auth.uid());
+
+-- Runs as the table owner so it can write past RLS. The update holds the
+-- extracted_data row lock, so revision numbers of one row do not race.
+CREATE OR REPLACE FUNCTION public.record_extracted_data_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.extracted_data_revisions (
+    extracted_data_id, user_id, revision_number, data, confidence, source, note, created_by
+  )
+  SELECT
+    NEW.id,
+    NEW.user_id,
+    COALESCE(MAX(revision_number), 0) + 1,
+    NEW.data,
+    NEW.confidence,
+    CASE
+      WHEN TG_OP = 'UPDATE' THEN 'edit'
+      WHEN NEW.processing_job_id IS NULL THEN 'import'
+      ELSE 'ocr'
+    END,
+    NEW.change_note,
+    auth.uid()
+  FROM public.extracted_data_revisions
+  WHERE extracted_data_id = NEW.id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_extracted_data_revision_on_insert AFTER INSERT
+  ON public.extracted_data
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_extracted_data_revision();
+
+CREATE TRIGGER record_extracted_data_revision_on_update AFTER UPDATE OF data
+  ON public.extracted_data
+  FOR EACH ROW
+  WHEN (OLD.data IS DISTINCT FROM NEW.data)
+  EXECUTE FUNCTION public.record_extracted_data_revision();
+
+-- Rows saved before history was kept start with their current data. Edited
+-- rows no longer hold the original OCR output, and their note says so.
+INSERT INTO public.extracted_data_revisions (
+  extracted_data_id, user_id, revision_number, data, confidence, source, note, created_at
+)
+SELECT
+  id,
+  user_id,
+  1,
+  data,
+  confidence,
+  CASE
+    WHEN is_edited THEN 'edit'
+    WHEN processing_job_id IS NULL THEN 'import'
+    ELSE 'ocr'
+  END,
+  CASE WHEN is_edited THEN 'Saved before version history was kept' END,
+  updated_at
+FROM public.extracted_data;
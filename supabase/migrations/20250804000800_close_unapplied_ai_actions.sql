@@ -0,0 +1,10 @@
+-- AI actions used to be recorded as { message } placeholders that nothing
+-- applied, so they stayed pending for ever. Actions now carry an operation
+-- the app applies; close the old ones so they do not look outstanding.
+UPDATE public.ai_actions
+SET
+  status = 'failed',
+  error_message = 'Recorded before AI changes could be applied',
+  completed_at = now()
+WHERE status = 'pending'
+  AND NOT (action_data ? 'operation');
@@ -0,0 +1,5 @@
+-- Proposed AI changes are now shown to the user before they are applied;
+-- those the user turns down are recorded as rejected rather than failed.
+ALTER TABLE public.ai_actions DROP CONSTRAINT ai_actions_status_check;
+ALTER TABLE public.ai_actions
+  ADD CONSTRAINT ai_actions_status_check CHECK (status IN ('pending', 'completed', 'failed', 'rejected'));
@@ -0,0 +1,12 @@
+-- Provider chains per document type as well as per file kind. '*' applies
+-- to any document type without its own row.
+ALTER TABLE public.ocr_provider_settings
+  ADD COLUMN document_type TEXT NOT NULL DEFAULT '*'
+    CHECK (document_type IN ('general', 'ledger', 'invoice', 'bank_statement', 'receipt', '*'));
+
+ALTER TABLE public.ocr_provider_settings
+  DROP CONSTRAINT ocr_provider_settings_user_id_file_kind_key;
+
+ALTER TABLE public.ocr_provider_settings
+  ADD CONSTRAINT ocr_provider_settings_user_id_file_kind_document_type_key
+    UNIQUE (user_id, file_kind, document_type);
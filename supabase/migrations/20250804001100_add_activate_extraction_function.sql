@@ -0,0 +1,22 @@
+-- Switch the active version of a document in one statement, so a failure
+-- cannot leave it with no active extraction or with two. Runs as the
+-- caller, so RLS keeps users to their own extractions.
+CREATE OR REPLACE FUNCTION public.activate_extraction(p_extracted_data_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_document_id UUID;
+BEGIN
+  SELECT document_id INTO v_document_id
+  FROM public.extracted_data
+  WHERE id = p_extracted_data_id;
+
+  IF v_document_id IS NULL THEN
+    RAISE EXCEPTION 'Extraction % not found', p_extracted_data_id;
+  END IF;
+
+  UPDATE public.extracted_data
+  SET is_active = (id = p_extracted_data_id)
+  WHERE document_id = v_document_id
+    AND (is_active OR id = p_extracted_data_id);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
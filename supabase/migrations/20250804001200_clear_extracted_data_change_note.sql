@@ -0,0 +1,41 @@
+-- extracted_data.change_note stayed on the row after its revision was
+-- recorded, so a later save without a note repeated the previous one. Edit
+-- revisions are now recorded before the row is written, which lets the
+-- trigger clear the note in the same update. A note equal to the one
+-- already on the row (left by an insert) was not set by this save.
+DROP TRIGGER record_extracted_data_revision_on_update ON public.extracted_data;
+
+-- Every stored note is already in its revision
+UPDATE public.extracted_data SET change_note = NULL WHERE change_note IS NOT NULL;
+
+-- The row is locked before BEFORE triggers run, so revision numbers of one
+-- row still do not race
+CREATE OR REPLACE FUNCTION public.record_extracted_data_edit_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.data IS DISTINCT FROM NEW.data THEN
+    INSERT INTO public.extracted_data_revisions (
+      extracted_data_id, user_id, revision_number, data, confidence, source, note, created_by
+    )
+    SELECT
+      NEW.id,
+      NEW.user_id,
+      COALESCE(MAX(revision_number), 0) + 1,
+      NEW.data,
+      NEW.confidence,
+      'edit',
+      CASE WHEN NEW.change_note IS DISTINCT FROM OLD.change_note THEN NEW.change_note END,
+      auth.uid()
+    FROM public.extracted_data_revisions
+    WHERE extracted_data_id = NEW.id;
+  END IF;
+
+  NEW.change_note := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_extracted_data_revision_on_update BEFORE UPDATE
+  ON public.extracted_data
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_extracted_data_edit_revision();
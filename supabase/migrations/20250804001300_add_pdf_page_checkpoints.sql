@@ -0,0 +1,25 @@
+-- PDF pages that gave no table rows, whether empty or unreadable. Kept next to
+-- the data, which the app rewrites on every save, so the workspace and the
+-- file list can warn that rows from these pages may be missing.
+ALTER TABLE public.extracted_data
+  ADD COLUMN failed_pages INTEGER[] NOT NULL DEFAULT '{}';
+
+-- A cached result gives the same warning as the extraction it came from
+ALTER TABLE public.ocr_result_cache
+  ADD COLUMN failed_pages INTEGER[] NOT NULL DEFAULT '{}';
+
+-- Pages of a PDF job read so far. The worker saves each page as it finishes,
+-- so a job claimed again after its worker stopped goes on with the pages still
+-- missing instead of starting from page 1. Pages where every provider failed
+-- are not saved and are read again. The rows are removed when the job completes.
+CREATE TABLE public.processing_job_pages (
+  job_id UUID NOT NULL REFERENCES public.processing_jobs(id) ON DELETE CASCADE,
+  page_number INTEGER NOT NULL,
+  page_count INTEGER NOT NULL, -- Pages in the PDF, so a checkpoint is only used for the same split
+  tables JSONB NOT NULL, -- ExtractedTableData[] as returned by the providers
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (job_id, page_number)
+);
+
+-- Enable RLS; only the process-ocr worker (service role) reads and writes the pages
+ALTER TABLE public.processing_job_pages ENABLE ROW LEVEL SECURITY;